@@ -0,0 +1,375 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import AcademicUnit, { ACADEMIC_UNIT_LEVELS, AcademicUnitLevel } from '../models/AcademicUnit';
+import Student from '../models/Student';
+import { successResponse, errorResponse } from '../utils/helpers';
+import {
+  ACADEMIC_ID_FIELDS,
+  getCatalogTree,
+  listPlacementVariants,
+  mergeUnits,
+  mergeVariantsIntoUnit,
+  normalizeStudentPlacements
+} from '../utils/academicCatalog';
+import { recordBulkStudentChanges } from '../utils/studentHistory';
+
+const parentLevelOf = (level: AcademicUnitLevel) => ACADEMIC_UNIT_LEVELS[ACADEMIC_UNIT_LEVELS.indexOf(level) - 1];
+
+const toAliasList = (aliases: any): string[] => {
+  const list = Array.isArray(aliases) ? aliases : typeof aliases === 'string' ? aliases.split(',') : [];
+  return Array.from(new Set(list.map((alias: string) => String(alias).trim()).filter(Boolean)));
+};
+
+// List catalog entries: universities by default, or the children of ?parent=
+export const getAcademicUnits = async (req: Request, res: Response) => {
+  try {
+    const { parent, search } = req.query as Record<string, string>;
+    const level = req.query.level as AcademicUnitLevel | undefined;
+    const includeInactive = req.query.includeInactive === 'true';
+
+    if (level && !ACADEMIC_UNIT_LEVELS.includes(level)) {
+      return errorResponse(res, `Level must be one of: ${ACADEMIC_UNIT_LEVELS.join(', ')}`, 400);
+    }
+
+    if (parent && !mongoose.Types.ObjectId.isValid(parent)) {
+      return errorResponse(res, 'Invalid parent unit ID', 400);
+    }
+
+    const filter: any = {};
+    if (parent) {
+      filter.parent = parent;
+    } else if (!search) {
+      filter.level = level || 'university';
+    }
+    if (level) {
+      filter.level = level;
+    }
+    if (!includeInactive) {
+      filter.isActive = true;
+    }
+    if (search) {
+      filter.$or = [
+        { name: { $regex: search, $options: 'i' } },
+        { shortName: { $regex: search, $options: 'i' } },
+        { aliases: { $regex: search, $options: 'i' } }
+      ];
+    }
+
+    const units = await AcademicUnit.find(filter)
+      .populate('parent', 'name level')
+      .sort({ name: 1 })
+      .limit(search ? 50 : 0);
+
+    successResponse(res, units, 'Academic units retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching academic units:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Whole active catalog as a tree
+export const getAcademicCatalog = async (req: Request, res: Response) => {
+  try {
+    const catalog = await getCatalogTree();
+    successResponse(res, catalog, 'Academic catalog retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching academic catalog:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Get one catalog entry with its ancestors, children and linked student count
+export const getAcademicUnit = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid unit ID', 400);
+    }
+
+    const unit = await AcademicUnit.findById(id);
+    if (!unit) {
+      return errorResponse(res, 'Academic unit not found', 404);
+    }
+
+    const ancestors = [];
+    let parentId = unit.parent;
+    while (parentId) {
+      const parent = await AcademicUnit.findById(parentId).select('name shortName level parent');
+      if (!parent) break;
+      ancestors.unshift(parent);
+      parentId = parent.parent;
+    }
+
+    const children = await AcademicUnit.find({ parent: unit._id }).sort({ name: 1 });
+    const students = await Student.countDocuments({ [ACADEMIC_ID_FIELDS[unit.level]]: unit._id });
+
+    successResponse(res, { unit, ancestors, children, students }, 'Academic unit retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching academic unit:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Free-text values students use at a level and how each maps onto the catalog
+export const getPlacementVariants = async (req: Request, res: Response) => {
+  try {
+    const level = (req.query.level as AcademicUnitLevel) || 'university';
+    const unmatchedOnly = req.query.unmatched === 'true';
+
+    if (!ACADEMIC_UNIT_LEVELS.includes(level)) {
+      return errorResponse(res, `Level must be one of: ${ACADEMIC_UNIT_LEVELS.join(', ')}`, 400);
+    }
+
+    const variants = await listPlacementVariants(level);
+
+    successResponse(
+      res,
+      unmatchedOnly ? variants.filter(variant => variant.match !== 'exact') : variants,
+      'Placement variants retrieved successfully'
+    );
+  } catch (error: any) {
+    console.error('Error fetching placement variants:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Create a catalog entry under an existing parent of the level above
+export const createAcademicUnit = async (req: Request, res: Response) => {
+  try {
+    const { name, shortName, level, parent, aliases } = req.body;
+
+    if (!name || !level) {
+      return errorResponse(res, 'Name and level are required', 400);
+    }
+
+    if (!ACADEMIC_UNIT_LEVELS.includes(level)) {
+      return errorResponse(res, `Level must be one of: ${ACADEMIC_UNIT_LEVELS.join(', ')}`, 400);
+    }
+
+    let parentUnit = null;
+    if (level !== 'university') {
+      if (!parent || !mongoose.Types.ObjectId.isValid(parent)) {
+        return errorResponse(res, `A valid parent ${parentLevelOf(level)} is required`, 400);
+      }
+
+      parentUnit = await AcademicUnit.findById(parent);
+      if (!parentUnit) {
+        return errorResponse(res, 'Parent unit not found', 404);
+      }
+
+      if (parentUnit.level !== parentLevelOf(level)) {
+        return errorResponse(res, `A ${level} must belong to a ${parentLevelOf(level)}, not a ${parentUnit.level}`, 400);
+      }
+    }
+
+    const unit = await AcademicUnit.create({
+      name,
+      shortName,
+      level,
+      parent: parentUnit?._id,
+      aliases: toAliasList(aliases)
+    });
+
+    successResponse(res, unit, 'Academic unit created successfully', 201);
+  } catch (error: any) {
+    console.error('Error creating academic unit:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'A unit with this name already exists here', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Update names, aliases or the active flag. A rename is carried over to
+// every student linked to the unit.
+export const updateAcademicUnit = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, shortName, aliases, isActive } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid unit ID', 400);
+    }
+
+    const unit = await AcademicUnit.findById(id);
+    if (!unit) {
+      return errorResponse(res, 'Academic unit not found', 404);
+    }
+
+    const previousName = unit.name;
+
+    if (name !== undefined) unit.name = name;
+    if (shortName !== undefined) unit.shortName = shortName;
+    if (aliases !== undefined) unit.aliases = toAliasList(aliases);
+    if (isActive !== undefined) unit.isActive = isActive === true || isActive === 'true';
+
+    // Keep the old spelling recognisable after a rename
+    if (unit.name !== previousName && !unit.aliases.includes(previousName)) {
+      unit.aliases.push(previousName);
+    }
+
+    await unit.save();
+
+    let studentsRenamed = 0;
+    if (unit.name !== previousName) {
+      const filter = { [ACADEMIC_ID_FIELDS[unit.level]]: unit._id };
+      const students = await Student.find(filter).select('_id').lean();
+
+      const result = await Student.updateMany(filter, { $set: { [unit.level]: unit.name } });
+      studentsRenamed = result.modifiedCount;
+
+      await recordBulkStudentChanges(
+        students.map(student => ({
+          student: student._id as mongoose.Types.ObjectId,
+          changes: [{ field: unit.level, before: previousName, after: unit.name }]
+        })),
+        { action: 'update', actor: req.user, note: `Renamed ${unit.level} ${previousName}` }
+      );
+    }
+
+    successResponse(res, { unit, studentsRenamed }, 'Academic unit updated successfully');
+  } catch (error: any) {
+    console.error('Error updating academic unit:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'A unit with this name already exists here', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Delete an unused entry. Entries with children or linked students are deactivated or merged instead.
+export const deleteAcademicUnit = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid unit ID', 400);
+    }
+
+    const unit = await AcademicUnit.findById(id);
+    if (!unit) {
+      return errorResponse(res, 'Academic unit not found', 404);
+    }
+
+    const children = await AcademicUnit.countDocuments({ parent: unit._id });
+    const students = await Student.countDocuments({ [ACADEMIC_ID_FIELDS[unit.level]]: unit._id });
+
+    if (children > 0 || students > 0) {
+      return errorResponse(
+        res,
+        `Unit is in use by ${children} sub-units and ${students} students. Merge it or set isActive to false instead.`,
+        400
+      );
+    }
+
+    await AcademicUnit.findByIdAndDelete(id);
+
+    successResponse(res, null, 'Academic unit deleted successfully');
+  } catch (error: any) {
+    console.error('Error deleting academic unit:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Fold free-text spellings into a catalog entry: { values: ["Addis Abeba Univ", ...] }
+export const mergePlacementVariants = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { values } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid unit ID', 400);
+    }
+
+    if (!Array.isArray(values) || values.length === 0) {
+      return errorResponse(res, 'Values must be a non-empty array of spellings', 400);
+    }
+
+    const unit = await AcademicUnit.findById(id);
+    if (!unit) {
+      return errorResponse(res, 'Academic unit not found', 404);
+    }
+
+    const result = await mergeVariantsIntoUnit(unit, values, req.user);
+
+    successResponse(res, { unit, ...result }, `${result.studentsUpdated} students linked to ${unit.name}`);
+  } catch (error: any) {
+    console.error('Error merging placement variants:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Merge duplicate catalog entries into this one: { sourceIds: [...] }
+export const mergeAcademicUnits = async (req: Request, res: Response) => {
+  const session = await mongoose.startSession();
+
+  try {
+    const { id } = req.params;
+    const sourceIds: string[] = Array.isArray(req.body.sourceIds) ? req.body.sourceIds : [];
+
+    if (!mongoose.Types.ObjectId.isValid(id) || sourceIds.length === 0 ||
+        !sourceIds.every(sourceId => mongoose.Types.ObjectId.isValid(sourceId))) {
+      return errorResponse(res, 'A target unit and a non-empty list of valid source unit IDs are required', 400);
+    }
+
+    if (sourceIds.includes(id)) {
+      return errorResponse(res, 'A unit cannot be merged into itself', 400);
+    }
+
+    session.startTransaction();
+
+    const target = await AcademicUnit.findById(id).session(session);
+    const sources = await AcademicUnit.find({ _id: { $in: sourceIds } }).session(session);
+
+    if (!target || sources.length !== sourceIds.length) {
+      await session.abortTransaction();
+      return errorResponse(res, 'Academic unit not found', 404);
+    }
+
+    const mismatched = sources.filter(source => source.level !== target.level);
+    if (mismatched.length > 0) {
+      await session.abortTransaction();
+      return errorResponse(res, `Only ${target.level} entries can be merged into a ${target.level}`, 400);
+    }
+
+    const result = await mergeUnits(target, sources, session, req.user);
+
+    await session.commitTransaction();
+
+    successResponse(res, { unit: target, ...result }, 'Academic units merged successfully');
+  } catch (error: any) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    console.error('Error merging academic units:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'The merge would create two entries with the same name under one parent', 400);
+    }
+    errorResponse(res, error.message, 500);
+  } finally {
+    session.endSession();
+  }
+};
+
+// Map students' free-text placements onto the catalog.
+// Runs as a dry run unless dryRun=false is sent.
+export const normalizePlacements = async (req: Request, res: Response) => {
+  try {
+    const dryRunParam = (req.query.dryRun ?? req.body.dryRun) as string | boolean | undefined;
+    const dryRun = !(dryRunParam === false || dryRunParam === 'false');
+
+    const report = await normalizeStudentPlacements({ dryRun, actor: req.user });
+
+    successResponse(res, report, dryRun ? 'Placement normalization preview' : 'Student placements normalized');
+  } catch (error: any) {
+    console.error('Error normalizing placements:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
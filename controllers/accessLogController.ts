@@ -0,0 +1,53 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import SensitiveAccessLog from '../models/SensitiveAccessLog';
+import { successResponse, errorResponse } from '../utils/helpers';
+
+// List unmasked reads of sensitive student fields. ?user=&student=&from=&to=&page=&limit=
+export const getAccessLogs = async (req: Request, res: Response) => {
+  try {
+    const { user, student, from, to } = req.query as Record<string, string>;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const filter: any = {};
+
+    for (const [field, value] of [['user', user], ['students', student]]) {
+      if (!value) continue;
+      if (!mongoose.Types.ObjectId.isValid(value)) {
+        return errorResponse(res, `Invalid ${field === 'students' ? 'student' : 'user'} ID`, 400);
+      }
+      filter[field] = value;
+    }
+
+    if (from || to) {
+      filter.createdAt = {};
+      if (from) filter.createdAt.$gte = new Date(from);
+      if (to) filter.createdAt.$lte = new Date(to);
+    }
+
+    const logs = await SensitiveAccessLog.find(filter)
+      .populate('user', 'name email role')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean();
+
+    const total = await SensitiveAccessLog.countDocuments(filter);
+
+    successResponse(res, {
+      logs,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalEntries: total,
+        hasNext: page * limit < total,
+        hasPrev: page > 1
+      }
+    }, 'Access logs retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching access logs:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
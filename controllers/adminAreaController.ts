@@ -0,0 +1,279 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import AdminArea, { ADMIN_AREA_LEVELS, AdminAreaLevel } from '../models/AdminArea';
+import Student from '../models/Student';
+import { successResponse, errorResponse } from '../utils/helpers';
+import {
+  ADDRESS_ID_FIELDS,
+  normalizeStudentAddresses,
+  resolveAddress
+} from '../utils/adminGeography';
+import { recordBulkStudentChanges } from '../utils/studentHistory';
+
+const parentLevelOf = (level: AdminAreaLevel) => ADMIN_AREA_LEVELS[ADMIN_AREA_LEVELS.indexOf(level) - 1];
+
+const toAliasList = (aliases: any): string[] => {
+  const list = Array.isArray(aliases) ? aliases : typeof aliases === 'string' ? aliases.split(',') : [];
+  return Array.from(new Set(list.map((alias: string) => String(alias).trim()).filter(Boolean)));
+};
+
+// Build a code like "AM-NORTHWOLLO" from the parent code and the name
+const buildAreaCode = (name: string, parentCode?: string) => {
+  const slug = name.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 16) || Date.now().toString(36).toUpperCase();
+  return parentCode ? `${parentCode}-${slug}` : slug;
+};
+
+// List areas for cascading selects: regions by default, or the children of ?parent=
+export const getAdminAreas = async (req: Request, res: Response) => {
+  try {
+    const { parent, search } = req.query as Record<string, string>;
+    const level = req.query.level as AdminAreaLevel | undefined;
+    const includeInactive = req.query.includeInactive === 'true';
+
+    if (level && !ADMIN_AREA_LEVELS.includes(level)) {
+      return errorResponse(res, `Level must be one of: ${ADMIN_AREA_LEVELS.join(', ')}`, 400);
+    }
+
+    if (parent && !mongoose.Types.ObjectId.isValid(parent)) {
+      return errorResponse(res, 'Invalid parent area ID', 400);
+    }
+
+    const filter: any = {};
+    if (parent) {
+      filter.parent = parent;
+    } else if (!search) {
+      filter.level = level || 'region';
+    }
+    if (level) {
+      filter.level = level;
+    }
+    if (!includeInactive) {
+      filter.isActive = true;
+    }
+    if (search) {
+      filter.$or = [
+        { name: { $regex: search, $options: 'i' } },
+        { nameAmharic: { $regex: search, $options: 'i' } },
+        { aliases: { $regex: search, $options: 'i' } },
+        { code: { $regex: search, $options: 'i' } }
+      ];
+    }
+
+    const areas = await AdminArea.find(filter)
+      .populate('parent', 'name level code')
+      .sort({ name: 1 })
+      .limit(search ? 50 : 0);
+
+    successResponse(res, areas, 'Administrative areas retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching administrative areas:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Get one area with its ancestors (region first) and direct children
+export const getAdminArea = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid area ID', 400);
+    }
+
+    const area = await AdminArea.findById(id);
+    if (!area) {
+      return errorResponse(res, 'Administrative area not found', 404);
+    }
+
+    const ancestors = [];
+    let parentId = area.parent;
+    while (parentId) {
+      const parent = await AdminArea.findById(parentId).select('name nameAmharic level code parent');
+      if (!parent) break;
+      ancestors.unshift(parent);
+      parentId = parent.parent;
+    }
+
+    const children = await AdminArea.find({ parent: area._id, isActive: true }).sort({ name: 1 });
+
+    successResponse(res, { area, ancestors, children }, 'Administrative area retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching administrative area:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Check an address without saving anything: canonical names, IDs and suggestions
+export const resolveAdminAddress = async (req: Request, res: Response) => {
+  try {
+    const { region, zone, wereda, kebele } = req.query as Record<string, string>;
+
+    const address = await resolveAddress({ region, zone, wereda, kebele });
+
+    successResponse(res, address, address.resolved ? 'Address resolved' : 'Address has unknown parts');
+  } catch (error: any) {
+    console.error('Error resolving address:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Create an area under an existing parent of the level above
+export const createAdminArea = async (req: Request, res: Response) => {
+  try {
+    const { name, nameAmharic, level, parent, aliases } = req.body;
+
+    if (!name || !level) {
+      return errorResponse(res, 'Name and level are required', 400);
+    }
+
+    if (!ADMIN_AREA_LEVELS.includes(level)) {
+      return errorResponse(res, `Level must be one of: ${ADMIN_AREA_LEVELS.join(', ')}`, 400);
+    }
+
+    let parentArea = null;
+    if (level !== 'region') {
+      if (!parent || !mongoose.Types.ObjectId.isValid(parent)) {
+        return errorResponse(res, `A valid parent ${parentLevelOf(level)} is required`, 400);
+      }
+
+      parentArea = await AdminArea.findById(parent);
+      if (!parentArea) {
+        return errorResponse(res, 'Parent area not found', 404);
+      }
+
+      if (parentArea.level !== parentLevelOf(level)) {
+        return errorResponse(res, `A ${level} must belong to a ${parentLevelOf(level)}, not a ${parentArea.level}`, 400);
+      }
+    }
+
+    const area = await AdminArea.create({
+      name,
+      nameAmharic,
+      code: req.body.code || buildAreaCode(name, parentArea?.code),
+      level,
+      parent: parentArea?._id,
+      aliases: toAliasList(aliases)
+    });
+
+    successResponse(res, area, 'Administrative area created successfully', 201);
+  } catch (error: any) {
+    console.error('Error creating administrative area:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'An area with this name or code already exists here', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Update names, aliases or the active flag. A rename is carried over to
+// every student already linked to the area.
+export const updateAdminArea = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, nameAmharic, aliases, isActive } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid area ID', 400);
+    }
+
+    const area = await AdminArea.findById(id);
+    if (!area) {
+      return errorResponse(res, 'Administrative area not found', 404);
+    }
+
+    const previousName = area.name;
+
+    if (name !== undefined) area.name = name;
+    if (nameAmharic !== undefined) area.nameAmharic = nameAmharic;
+    if (aliases !== undefined) area.aliases = toAliasList(aliases);
+    if (isActive !== undefined) area.isActive = isActive === true || isActive === 'true';
+
+    // Keep the old spelling recognisable after a rename
+    if (area.name !== previousName && !area.aliases.includes(previousName)) {
+      area.aliases.push(previousName);
+    }
+
+    await area.save();
+
+    let studentsRenamed = 0;
+    if (area.name !== previousName) {
+      const filter = { [ADDRESS_ID_FIELDS[area.level]]: area._id };
+      const students = await Student.find(filter).select('_id').lean();
+
+      const result = await Student.updateMany(filter, { $set: { [area.level]: area.name } });
+      studentsRenamed = result.modifiedCount;
+
+      await recordBulkStudentChanges(
+        students.map(student => ({
+          student: student._id as mongoose.Types.ObjectId,
+          changes: [{ field: area.level, before: previousName, after: area.name }]
+        })),
+        { action: 'update', actor: req.user, note: `Renamed ${area.level} ${area.code}` }
+      );
+    }
+
+    successResponse(res, { area, studentsRenamed }, 'Administrative area updated successfully');
+  } catch (error: any) {
+    console.error('Error updating administrative area:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'An area with this name already exists here', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Delete an unused area. Areas with children or linked students are deactivated instead.
+export const deleteAdminArea = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid area ID', 400);
+    }
+
+    const area = await AdminArea.findById(id);
+    if (!area) {
+      return errorResponse(res, 'Administrative area not found', 404);
+    }
+
+    const children = await AdminArea.countDocuments({ parent: area._id });
+    const students = await Student.countDocuments({ [ADDRESS_ID_FIELDS[area.level]]: area._id });
+
+    if (children > 0 || students > 0) {
+      return errorResponse(
+        res,
+        `Area is in use by ${children} sub-areas and ${students} students. Set isActive to false instead.`,
+        400
+      );
+    }
+
+    await AdminArea.findByIdAndDelete(id);
+
+    successResponse(res, null, 'Administrative area deleted successfully');
+  } catch (error: any) {
+    console.error('Error deleting administrative area:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Map students' free-text addresses onto the reference data.
+// Runs as a dry run unless dryRun=false is sent.
+export const normalizeAddresses = async (req: Request, res: Response) => {
+  try {
+    const dryRunParam = (req.query.dryRun ?? req.body.dryRun) as string | boolean | undefined;
+    const dryRun = !(dryRunParam === false || dryRunParam === 'false');
+
+    const report = await normalizeStudentAddresses({ dryRun, actor: req.user });
+
+    successResponse(res, report, dryRun ? 'Address normalization preview' : 'Student addresses normalized');
+  } catch (error: any) {
+    console.error('Error normalizing addresses:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
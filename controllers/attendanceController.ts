@@ -0,0 +1,401 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import AttendanceSession, { ATTENDANCE_SESSION_KINDS } from '../models/AttendanceSession';
+import Attendance, { ATTENDANCE_STATUSES, AttendanceStatus } from '../models/Attendance';
+import Agenda from '../models/Agenda';
+import CourseCohort from '../models/CourseCohort';
+import Course from '../models/Course';
+import { successResponse, errorResponse } from '../utils/helpers';
+import {
+  AttendanceEntry,
+  buildSessionFilter,
+  canManageSession,
+  computeAttendanceRates,
+  findAbsentees,
+  isAttendanceLeader,
+  isDepartmentLeader,
+  recordAttendance,
+  resolveExpectedStudents,
+  syncAgendaContributors
+} from '../utils/attendance';
+
+// Load a session the caller may manage, or send the error response
+const loadManagedSession = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    errorResponse(res, 'Invalid session ID', 400);
+    return null;
+  }
+
+  const session = await AttendanceSession.findById(id);
+  if (!session) {
+    errorResponse(res, 'Attendance session not found', 404);
+    return null;
+  }
+
+  if (!canManageSession(req.user, session)) {
+    errorResponse(res, 'Only leadership or the department leaders can manage this session', 403);
+    return null;
+  }
+
+  return session;
+};
+
+// List sessions. ?kind=&department=&program=&agenda=&cohort=&status=&from=&to=&page=&limit=
+export const getSessions = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const filter = buildSessionFilter(req.query, req.user);
+
+    const sessions = await AttendanceSession.find(filter)
+      .select('-expectedStudents')
+      .populate('agenda', 'meetingClass location meetingDate status')
+      .populate('createdBy', 'name role')
+      .sort({ date: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    // Attended / expected counts for the page
+    const counts = await Attendance.aggregate([
+      { $match: { session: { $in: sessions.map(session => session._id) } } },
+      { $group: { _id: { session: '$session', status: '$status' }, count: { $sum: 1 } } }
+    ]);
+    const expected = await AttendanceSession.aggregate([
+      { $match: { _id: { $in: sessions.map(session => session._id) } } },
+      { $project: { count: { $size: { $ifNull: ['$expectedStudents', []] } } } }
+    ]);
+    const expectedById = new Map(expected.map(item => [item._id.toString(), item.count]));
+
+    const total = await AttendanceSession.countDocuments(filter);
+
+    successResponse(res, {
+      sessions: sessions.map(session => {
+        const byStatus = Object.fromEntries(ATTENDANCE_STATUSES.map(status => [status, 0])) as Record<AttendanceStatus, number>;
+        for (const item of counts) {
+          if (item._id.session.toString() === session._id.toString()) {
+            byStatus[item._id.status as AttendanceStatus] = item.count;
+          }
+        }
+        return { ...session.toJSON(), expectedCount: expectedById.get(session._id.toString()) || 0, counts: byStatus };
+      }),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalSessions: total,
+        hasNext: page * limit < total,
+        hasPrev: page > 1
+      }
+    }, 'Attendance sessions retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching attendance sessions:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Create a session for an agenda, a department, a program or a course cohort
+export const createSession = async (req: Request, res: Response) => {
+  try {
+    const { title, kind, agenda, cohort, program, batch, date, location } = req.body;
+    let { department } = req.body;
+
+    if (!ATTENDANCE_SESSION_KINDS.includes(kind)) {
+      return errorResponse(res, `Kind must be one of: ${ATTENDANCE_SESSION_KINDS.join(', ')}`, 400);
+    }
+
+    if (kind === 'agenda') {
+      if (!agenda || !mongoose.Types.ObjectId.isValid(agenda)) {
+        return errorResponse(res, 'A valid agenda is required for agenda sessions', 400);
+      }
+      const agendaDoc = await Agenda.findById(agenda).select('meetingClass');
+      if (!agendaDoc) {
+        return errorResponse(res, 'Agenda not found', 404);
+      }
+      department = agendaDoc.meetingClass;
+    }
+
+    if (kind === 'cohort') {
+      if (!cohort || !mongoose.Types.ObjectId.isValid(cohort)) {
+        return errorResponse(res, 'A valid cohort is required for cohort sessions', 400);
+      }
+      const cohortDoc = await CourseCohort.findById(cohort).select('course');
+      const course = cohortDoc && await Course.findById(cohortDoc.course).select('department');
+      if (!course) {
+        return errorResponse(res, 'Cohort not found', 404);
+      }
+      department = course.department;
+    }
+
+    // Department leaders run sessions for their own class only
+    if (!isAttendanceLeader(req.user)) {
+      if (!isDepartmentLeader(req.user)) {
+        return errorResponse(res, 'Only leadership or department leaders can create sessions', 403);
+      }
+      if (department && department !== req.user?.role) {
+        return errorResponse(res, 'You can only create sessions for your own department', 403);
+      }
+      department = req.user?.role;
+    }
+
+    const session = new AttendanceSession({
+      title,
+      kind,
+      agenda: kind === 'agenda' ? agenda : undefined,
+      cohort: kind === 'cohort' ? cohort : undefined,
+      department,
+      program: kind === 'program' ? program : undefined,
+      batch: kind === 'program' ? batch : undefined,
+      date: date || new Date(),
+      location,
+      createdBy: req.user?._id
+    });
+    session.expectedStudents = await resolveExpectedStudents(session);
+    await session.save();
+
+    successResponse(res, session, 'Attendance session created successfully', 201);
+  } catch (error: any) {
+    console.error('Error creating attendance session:', error);
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// One session with its records and the expected members who have not checked in
+export const getSession = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid session ID', 400);
+    }
+
+    const session = await AttendanceSession.findOne({ _id: id, ...buildSessionFilter({}, req.user) })
+      .populate('agenda', 'meetingClass location meetingDate status')
+      .populate('expectedStudents', 'gibyGubayeId firstName middleName lastName phone batch');
+    if (!session) {
+      return errorResponse(res, 'Attendance session not found', 404);
+    }
+
+    const records = await Attendance.find({ session: session._id })
+      .populate('student', 'gibyGubayeId firstName middleName lastName phone batch')
+      .populate('recordedBy', 'name role')
+      .sort({ checkedInAt: 1 });
+
+    const recordedIds = new Set(records.map(record => (record.student as any)?._id?.toString()));
+    const notCheckedIn = session.expectedStudents.filter((student: any) => !recordedIds.has(student._id.toString()));
+
+    successResponse(res, { session, records, notCheckedIn }, 'Attendance session retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching attendance session:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Scan a member card: { code } from the QR, or { gibyGubayeId } typed in
+export const checkIn = async (req: Request, res: Response) => {
+  try {
+    const session = await loadManagedSession(req, res);
+    if (!session) return;
+
+    if (session.status === 'closed') {
+      return errorResponse(res, 'Session is closed', 409);
+    }
+
+    const { code, gibyGubayeId, status } = req.body;
+    if (status && !ATTENDANCE_STATUSES.includes(status)) {
+      return errorResponse(res, `Status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`, 400);
+    }
+
+    const { recorded, failed } = await recordAttendance(
+      session,
+      [{ code, gibyGubayeId, status }],
+      { method: 'qr', recordedBy: req.user?._id as mongoose.Types.ObjectId }
+    );
+
+    if (failed.length > 0) {
+      return errorResponse(res, failed[0].error, failed[0].error === 'Member not found' ? 404 : 400);
+    }
+
+    const expected = session.expectedStudents.some(id => id.toString() === recorded[0].student.toString());
+
+    successResponse(res, { ...recorded[0], expected }, 'Checked in successfully');
+  } catch (error: any) {
+    console.error('Error checking in:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Leader bulk entry: { entries: [{ student | gibyGubayeId, status, note }] }
+export const recordBulkAttendance = async (req: Request, res: Response) => {
+  try {
+    const session = await loadManagedSession(req, res);
+    if (!session) return;
+
+    if (session.status === 'closed') {
+      return errorResponse(res, 'Session is closed', 409);
+    }
+
+    const entries: AttendanceEntry[] = Array.isArray(req.body.entries) ? req.body.entries : [];
+    if (entries.length === 0) {
+      return errorResponse(res, 'Entries are required', 400);
+    }
+
+    const invalid = entries.filter(entry => entry.status && !ATTENDANCE_STATUSES.includes(entry.status));
+    if (invalid.length > 0) {
+      return errorResponse(res, `Status must be one of: ${ATTENDANCE_STATUSES.join(', ')}`, 400);
+    }
+
+    const result = await recordAttendance(session, entries, {
+      method: 'bulk',
+      recordedBy: req.user?._id as mongoose.Types.ObjectId
+    });
+
+    successResponse(
+      res,
+      result,
+      `${result.recorded.length} attendance records saved${result.failed.length > 0 ? `, ${result.failed.length} failed` : ''}`
+    );
+  } catch (error: any) {
+    console.error('Error recording attendance:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const deleteAttendanceRecord = async (req: Request, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.studentId)) {
+      return errorResponse(res, 'Invalid student ID', 400);
+    }
+
+    const session = await loadManagedSession(req, res);
+    if (!session) return;
+
+    if (session.status === 'closed') {
+      return errorResponse(res, 'Session is closed', 409);
+    }
+
+    const result = await Attendance.deleteOne({ session: session._id, student: req.params.studentId });
+    if (result.deletedCount === 0) {
+      return errorResponse(res, 'Attendance record not found', 404);
+    }
+
+    successResponse(res, null, 'Attendance record removed successfully');
+  } catch (error: any) {
+    console.error('Error removing attendance record:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Close a session. The expected list is refreshed one last time and
+// agenda sessions add their attendees to the agenda's meeting contributors.
+export const closeSession = async (req: Request, res: Response) => {
+  try {
+    const session = await loadManagedSession(req, res);
+    if (!session) return;
+
+    if (session.status === 'closed') {
+      return errorResponse(res, 'Session is already closed', 409);
+    }
+
+    session.expectedStudents = await resolveExpectedStudents(session);
+    session.status = 'closed';
+    session.closedAt = new Date();
+    session.closedBy = req.user?._id as mongoose.Types.ObjectId;
+    await session.save();
+
+    const contributorsAdded = await syncAgendaContributors(session);
+
+    successResponse(res, { session, contributorsAdded }, 'Attendance session closed successfully');
+  } catch (error: any) {
+    console.error('Error closing attendance session:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const reopenSession = async (req: Request, res: Response) => {
+  try {
+    const session = await loadManagedSession(req, res);
+    if (!session) return;
+
+    session.status = 'open';
+    session.closedAt = undefined;
+    session.closedBy = undefined;
+    await session.save();
+
+    successResponse(res, session, 'Attendance session reopened successfully');
+  } catch (error: any) {
+    console.error('Error reopening attendance session:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Attendance rate per member over the filtered sessions. Same filters as the session list.
+export const getAttendanceRates = async (req: Request, res: Response) => {
+  try {
+    const { sessions, rates } = await computeAttendanceRates(buildSessionFilter(req.query, req.user));
+
+    rates.sort((a, b) => (a.rate ?? 1) - (b.rate ?? 1));
+
+    successResponse(res, { sessions, rates }, 'Attendance rates retrieved successfully');
+  } catch (error: any) {
+    console.error('Error computing attendance rates:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Members to follow up on. ?threshold=0.5 (rate below) &streak=3 (missed in a row)
+export const getAbsentees = async (req: Request, res: Response) => {
+  try {
+    const threshold = Math.min(Math.max(parseFloat(req.query.threshold as string) || 0.5, 0), 1);
+    const streak = Math.max(parseInt(req.query.streak as string) || 3, 1);
+
+    const result = await findAbsentees(buildSessionFilter(req.query, req.user), { threshold, streak });
+
+    successResponse(res, { threshold, streak, ...result }, 'Absentees retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching absentees:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// One member's attendance: their rate and every session they were expected at or attended
+export const getStudentAttendance = async (req: Request, res: Response) => {
+  try {
+    const { studentId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(studentId)) {
+      return errorResponse(res, 'Invalid student ID', 400);
+    }
+
+    const id = new mongoose.Types.ObjectId(studentId);
+    const scope = buildSessionFilter(req.query, req.user);
+    const attendedSessions = await Attendance.distinct('session', { student: id });
+    const filter = { ...scope, $or: [{ expectedStudents: id }, { _id: { $in: attendedSessions } }] };
+
+    const { rates } = await computeAttendanceRates(filter, [id]);
+    const sessions = await AttendanceSession.find(filter)
+      .select('title kind department program date status')
+      .sort({ date: -1 })
+      .lean();
+    const records = await Attendance.find({ student: id, session: { $in: sessions.map(session => session._id) } })
+      .select('session status method checkedInAt note')
+      .lean();
+    const recordBySession = new Map(records.map(record => [record.session.toString(), record]));
+
+    successResponse(res, {
+      summary: rates[0] || null,
+      sessions: sessions.map(session => ({
+        ...session,
+        attendance: recordBySession.get(session._id.toString()) || null
+      }))
+    }, 'Student attendance retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching student attendance:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
@@ -2,6 +2,16 @@ import { Request, Response } from 'express';
 import Blog, { IBlog } from '../models/Blog';
 import User from '../models/User';
 import mongoose from 'mongoose';
+import { sendLegacyImage, sendStoredImage } from '../utils/imageDelivery';
+import {
+  StoredImage,
+  deleteImageWithVariants,
+  discardStoredImage,
+  isInvalidImageError,
+  parseImageSize,
+  saveUploadedImageWithVariants,
+  selectImageFile
+} from '../utils/imageVariants';
 
 // Helper functions
 const successResponse = (res: Response, data: any, message: string = 'Success', statusCode: number = 200) => {
@@ -39,7 +49,7 @@ const generateUniqueSlug = async (title: string): Promise<string> => {
   return uniqueSlug;
 };
 
-// Get all blogs with pagination and filtering (FOR ADMIN/DASHBOARD) - INCLUDES IMAGEDATA
+// Get all blogs with pagination and filtering (FOR ADMIN/DASHBOARD)
 export const getAllBlogs = async (req: Request, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
@@ -93,7 +103,6 @@ export const getAllBlogs = async (req: Request, res: Response) => {
     const sort: any = {};
     sort[sortBy] = sortOrder;
 
-    // MODIFIED: Include imageData for admin panel
     const blogs = await Blog.find(filter)
       .populate('createdBy', 'firstName lastName email avatar')
       .populate('approvedBy', 'firstName lastName email avatar')
@@ -120,7 +129,7 @@ export const getAllBlogs = async (req: Request, res: Response) => {
   }
 };
 
-// Get only approved blogs (PUBLIC API - No authentication required) - NOW INCLUDES IMAGEDATA
+// Get only approved blogs (PUBLIC API - No authentication required)
 export const getApprovedBlogs = async (req: Request, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
@@ -169,7 +178,6 @@ export const getApprovedBlogs = async (req: Request, res: Response) => {
     const sort: any = {};
     sort[sortBy] = sortOrder;
 
-    // CHANGED: Now include imageData for public page too
     const blogs = await Blog.find(filter)
       .populate('createdBy', 'firstName lastName email avatar')
       .sort(sort)
@@ -195,7 +203,7 @@ export const getApprovedBlogs = async (req: Request, res: Response) => {
   }
 };
 
-// Get public blogs (published only) - INCLUDES IMAGEDATA
+// Get public blogs (published only)
 export const getPublicBlogs = async (req: Request, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
@@ -244,7 +252,6 @@ export const getPublicBlogs = async (req: Request, res: Response) => {
     const sort: any = {};
     sort[sortBy] = sortOrder;
 
-    // CHANGED: Include imageData for public blogs
     const blogs = await Blog.find(filter)
       .populate('createdBy', 'firstName lastName email avatar')
       .sort(sort)
@@ -270,7 +277,7 @@ export const getPublicBlogs = async (req: Request, res: Response) => {
   }
 };
 
-// Get single blog by ID or slug (ADMIN) - INCLUDES IMAGEDATA
+// Get single blog by ID or slug (ADMIN)
 export const getBlog = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -278,12 +285,10 @@ export const getBlog = async (req: Request, res: Response) => {
     let blog;
     
     if (mongoose.Types.ObjectId.isValid(id)) {
-      // ADMIN: Include imageData
       blog = await Blog.findById(id)
         .populate('createdBy', 'firstName lastName email avatar role')
         .populate('approvedBy', 'firstName lastName email avatar');
     } else {
-      // ADMIN: Include imageData
       blog = await Blog.findOne({ slug: id })
         .populate('createdBy', 'firstName lastName email avatar role')
         .populate('approvedBy', 'firstName lastName email avatar');
@@ -299,7 +304,7 @@ export const getBlog = async (req: Request, res: Response) => {
   }
 };
 
-// Get public single blog (only published) - INCLUDES IMAGEDATA
+// Get public single blog (only published)
 export const getPublicBlog = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -307,12 +312,10 @@ export const getPublicBlog = async (req: Request, res: Response) => {
     let blog;
     
     if (mongoose.Types.ObjectId.isValid(id)) {
-      // PUBLIC: Include imageData for single blog view
       blog = await Blog.findOne({ _id: id, status: 'published' })
         .populate('createdBy', 'firstName lastName email avatar')
         .populate('approvedBy', 'firstName lastName email avatar');
     } else {
-      // PUBLIC: Include imageData for single blog view
       blog = await Blog.findOne({ slug: id, status: 'published' })
         .populate('createdBy', 'firstName lastName email avatar')
         .populate('approvedBy', 'firstName lastName email avatar');
@@ -328,6 +331,39 @@ export const getPublicBlog = async (req: Request, res: Response) => {
   }
 };
 
+// Stream a blog image from the blob store, falling back to the
+// embedded legacy buffer for records the migration has not reached yet
+const sendBlogImage = async (req: Request, res: Response, blog: IBlog | null) => {
+  const size = parseImageSize(req.query.size);
+  if (!size) {
+    errorResponse(res, 'Size must be one of thumb, medium or original', 400);
+    return;
+  }
+
+  const fileId = selectImageFile(req, size, blog?.imageFileId, blog?.imageVariants);
+  if (size !== 'original') {
+    res.set('Vary', 'Accept');
+  }
+
+  if (fileId && await sendStoredImage(req, res, fileId)) {
+    return;
+  }
+
+  const legacy = blog
+    ? await Blog.findById(blog._id).select('+imageData.data')
+    : null;
+
+  if (!legacy || !legacy.imageData || !legacy.imageData.data) {
+    res.status(404).json({ 
+      success: false, 
+      message: 'Image not found' 
+    });
+    return;
+  }
+
+  sendLegacyImage(req, res, legacy.imageData, legacy._id.toString(), legacy.updatedAt);
+};
+
 // Serve blog image (handles old URL format)
 export const serveBlogImage = async (req: Request, res: Response) => {
   try {
@@ -335,18 +371,8 @@ export const serveBlogImage = async (req: Request, res: Response) => {
     
     // Find blog by image URL (exact match)
     const blog = await Blog.findOne({ image: `/uploads/blogs/${filename}` });
-    
-    if (!blog || !blog.imageData || !blog.imageData.data) {
-      return res.status(404).json({ 
-        success: false, 
-        message: 'Image not found' 
-      });
-    }
 
-    // Set proper headers and send the image
-    res.set('Content-Type', blog.imageData.contentType);
-    res.set('Cache-Control', 'public, max-age=31536000');
-    res.send(blog.imageData.data);
+    await sendBlogImage(req, res, blog);
   } catch (error: any) {
     console.error('Error serving blog image:', error);
     res.status(500).json({ 
@@ -364,23 +390,12 @@ export const getBlogImageById = async (req: Request, res: Response) => {
     let blog;
     
     if (mongoose.Types.ObjectId.isValid(id)) {
-      // Fetch blog with imageData
       blog = await Blog.findById(id);
     } else {
-      // Fetch blog with imageData
       blog = await Blog.findOne({ slug: id });
     }
-    
-    if (!blog || !blog.imageData || !blog.imageData.data) {
-      return res.status(404).json({ 
-        success: false, 
-        message: 'Image not found' 
-      });
-    }
 
-    res.set('Content-Type', blog.imageData.contentType);
-    res.set('Cache-Control', 'public, max-age=31536000');
-    res.send(blog.imageData.data);
+    await sendBlogImage(req, res, blog);
   } catch (error: any) {
     console.error('Error fetching blog image:', error);
     res.status(500).json({ 
@@ -390,8 +405,11 @@ export const getBlogImageById = async (req: Request, res: Response) => {
   }
 };
 
-// Create new blog (DEFAULT STATUS TO PENDING) - INCLUDES IMAGEDATA in response
+// Create new blog (DEFAULT STATUS TO PENDING)
 export const createBlog = async (req: Request, res: Response) => {
+  // Blobs stored for this request; removed again if the blog is never saved
+  let uploaded: StoredImage | undefined;
+
   try {
     const {
       title,
@@ -422,15 +440,14 @@ export const createBlog = async (req: Request, res: Response) => {
 
     // Handle image upload
     let image = '';
-    let imageData = undefined;
+    let imageFileId = undefined;
+    let imageVariants = undefined;
     
     if (req.file) {
-      // Store actual data
-      imageData = {
-        data: req.file.buffer,
-        contentType: req.file.mimetype,
-        fileName: req.file.originalname
-      };
+      // Store the stripped image and its resized variants in the blob store
+      uploaded = await saveUploadedImageWithVariants(req.file, 'blog-image');
+      imageFileId = uploaded.fileId;
+      imageVariants = uploaded.variants;
       
       // Keep old URL format for frontend compatibility
       image = `/uploads/blogs/${Date.now()}-${Math.random().toString(36).substring(2)}-${req.file.originalname}`;
@@ -471,7 +488,8 @@ export const createBlog = async (req: Request, res: Response) => {
       createdBy,
       slug,
       image, // Keep for frontend
-      imageData, // Store actual data
+      imageFileId, // Image bytes in the blob store
+      imageVariants,
       tags: tagsArray,
       metaTitle: metaTitle || title,
       metaDescription: metaDescription || description.substring(0, 150),
@@ -484,14 +502,18 @@ export const createBlog = async (req: Request, res: Response) => {
     });
 
     await newBlog.save();
+    uploaded = undefined; // The blog owns the image now
     
-    // Return with imageData for immediate display
     const populatedBlog = await Blog.findById(newBlog._id)
       .populate('createdBy', 'firstName lastName email avatar');
     
     successResponse(res, populatedBlog, 'Blog created successfully');
   } catch (error: any) {
     console.error('Error creating blog:', error);
+    await discardStoredImage(uploaded);
+    if (isInvalidImageError(error)) {
+      return errorResponse(res, 'Invalid image', 400);
+    }
     if (error.code === 11000) {
       return errorResponse(res, 'Blog with this slug already exists', 400);
     }
@@ -499,8 +521,11 @@ export const createBlog = async (req: Request, res: Response) => {
   }
 };
 
-// Update blog - INCLUDES IMAGEDATA in response
+// Update blog
 export const updateBlog = async (req: Request, res: Response) => {
+  // Blobs stored for this request; removed again if the update fails
+  let uploaded: StoredImage | undefined;
+
   try {
     const { id } = req.params;
     
@@ -529,14 +554,19 @@ export const updateBlog = async (req: Request, res: Response) => {
       delete req.body.approvalNotes;
     }
 
+    // Never let the client write image fields directly
+    delete req.body.imageData;
+    delete req.body.imageFileId;
+    delete req.body.imageVariants;
+
     // Handle image upload
+    const update: any = {};
     if (req.file) {
-      // Store actual data
-      req.body.imageData = {
-        data: req.file.buffer,
-        contentType: req.file.mimetype,
-        fileName: req.file.originalname
-      };
+      // Store the image and its variants in the blob store and drop any legacy embedded copy
+      uploaded = await saveUploadedImageWithVariants(req.file, 'blog-image');
+      req.body.imageFileId = uploaded.fileId;
+      req.body.imageVariants = uploaded.variants;
+      update.$unset = { imageData: 1 };
       
       // Keep old URL format
       req.body.image = `/uploads/blogs/${Date.now()}-${Math.random().toString(36).substring(2)}-${req.file.originalname}`;
@@ -585,15 +615,25 @@ export const updateBlog = async (req: Request, res: Response) => {
 
     const updatedBlog = await Blog.findByIdAndUpdate(
       id,
-      { ...req.body },
+      { ...req.body, ...update },
       { new: true, runValidators: true }
     )
     .populate('createdBy', 'firstName lastName email avatar')
     .populate('approvedBy', 'firstName lastName email avatar');
+    uploaded = undefined; // The blog owns the image now
+
+    // Remove the replaced image from the blob store
+    if (req.file) {
+      await deleteImageWithVariants(blog.imageFileId, blog.imageVariants);
+    }
 
     successResponse(res, updatedBlog, 'Blog updated successfully');
   } catch (error: any) {
     console.error('Error updating blog:', error);
+    await discardStoredImage(uploaded);
+    if (isInvalidImageError(error)) {
+      return errorResponse(res, 'Invalid image', 400);
+    }
     if (error.code === 11000) {
       return errorResponse(res, 'Blog with this slug already exists', 400);
     }
@@ -601,7 +641,7 @@ export const updateBlog = async (req: Request, res: Response) => {
   }
 };
 
-// Update blog status - INCLUDES IMAGEDATA in response
+// Update blog status
 export const updateBlogStatus = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -667,7 +707,7 @@ export const updateBlogStatus = async (req: Request, res: Response) => {
   }
 };
 
-// Toggle featured status - INCLUDES IMAGEDATA in response
+// Toggle featured status
 export const toggleFeatured = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -729,13 +769,15 @@ export const deleteBlog = async (req: Request, res: Response) => {
 
     await Blog.findByIdAndDelete(id);
 
+    await deleteImageWithVariants(blog.imageFileId, blog.imageVariants);
+
     successResponse(res, null, 'Blog deleted successfully');
   } catch (error: any) {
     errorResponse(res, error.message, 500);
   }
 };
 
-// Increment view count - INCLUDES IMAGEDATA
+// Increment view count
 export const incrementViews = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -766,7 +808,7 @@ export const incrementViews = async (req: Request, res: Response) => {
   }
 };
 
-// Get blog statistics - MODIFIED to include imageData in some queries
+// Get blog statistics
 export const getBlogStatistics = async (req: Request, res: Response) => {
   try {
     // Get user ID for filtering (if non-admin)
@@ -837,11 +879,11 @@ export const getBlogStatistics = async (req: Request, res: Response) => {
       { $sort: { '_id.year': 1, '_id.month': 1 } }
     ]);
 
-    // Top viewed blogs - INCLUDES IMAGEDATA for admin panel
+    // Top viewed blogs
     const topViewedBlogs = await Blog.find({ ...matchFilter, status: 'published' })
       .sort({ viewsCount: -1 })
       .limit(5)
-      .select('title viewsCount slug category image imageData')
+      .select('title viewsCount slug category image imageFileId')
       .lean();
 
     // Top authors (only for admin/moderator)
@@ -990,7 +1032,7 @@ export const getPublicFilterOptions = async (req: Request, res: Response) => {
   }
 };
 
-// Get related blogs - INCLUDES IMAGEDATA
+// Get related blogs
 export const getRelatedBlogs = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -1010,7 +1052,7 @@ export const getRelatedBlogs = async (req: Request, res: Response) => {
     })
     .sort({ viewsCount: -1, createdAt: -1 })
     .limit(4)
-    .select('title description image imageData slug viewsCount readingTime blogDate')
+    .select('title description image imageFileId slug viewsCount readingTime blogDate')
     .populate('createdBy', 'firstName lastName')
     .lean();
 
@@ -1020,7 +1062,7 @@ export const getRelatedBlogs = async (req: Request, res: Response) => {
   }
 };
 
-// Approve or reject blog - INCLUDES IMAGEDATA in response
+// Approve or reject blog
 export const approveBlog = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -1078,7 +1120,7 @@ export const approveBlog = async (req: Request, res: Response) => {
   }
 };
 
-// Get blogs for approval queue - INCLUDES IMAGEDATA
+// Get blogs for approval queue
 export const getApprovalQueue = async (req: Request, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
@@ -1114,7 +1156,6 @@ export const getApprovalQueue = async (req: Request, res: Response) => {
     const sort: any = {};
     sort[sortBy] = sortOrder;
 
-    // CHANGED: Include imageData for approval queue
     const blogs = await Blog.find(filter)
       .populate('createdBy', 'firstName lastName email avatar')
       .sort(sort)
@@ -0,0 +1,548 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Course from '../models/Course';
+import CourseCohort, { COHORT_STATUSES } from '../models/CourseCohort';
+import Enrollment from '../models/Enrollment';
+import Student from '../models/Student';
+import { successResponse, errorResponse } from '../utils/helpers';
+import {
+  canManageCourse,
+  canManageCourses,
+  computeFinalScore,
+  evaluateCohort,
+  missingPrerequisite,
+  syncStudentCourseFields,
+  writeCertificatePdf
+} from '../utils/courses';
+
+const COURSE_FIELDS = ['name', 'code', 'description', 'department', 'levels', 'isActive'] as const;
+const COHORT_FIELDS = ['name', 'church', 'instructor', 'startDate', 'endDate', 'capacity', 'status', 'assessments'] as const;
+
+const pick = (source: Record<string, any>, fields: readonly string[]) =>
+  Object.fromEntries(fields.filter(field => source[field] !== undefined).map(field => [field, source[field]]));
+
+// Load a cohort with its course, checking the caller may manage it
+const loadManagedCohort = async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    errorResponse(res, 'Invalid cohort ID', 400);
+    return null;
+  }
+
+  const cohort = await CourseCohort.findById(id);
+  const course = cohort && await Course.findById(cohort.course);
+  if (!cohort || !course) {
+    errorResponse(res, 'Cohort not found', 404);
+    return null;
+  }
+
+  if (!canManageCourse(req.user, course)) {
+    errorResponse(res, 'Only the course department or leadership can manage this cohort', 403);
+    return null;
+  }
+
+  return { cohort, course };
+};
+
+// List courses. ?department=&active=true
+export const getCourses = async (req: Request, res: Response) => {
+  try {
+    const filter: any = {};
+    if (req.query.department) filter.department = req.query.department;
+    if (req.query.active !== undefined) filter.isActive = req.query.active !== 'false';
+
+    const courses = await Course.find(filter).sort({ department: 1, name: 1 });
+
+    successResponse(res, courses, 'Courses retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching courses:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// One course with its cohorts and completion counts per level
+export const getCourse = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid course ID', 400);
+    }
+
+    const course = await Course.findById(id);
+    if (!course) {
+      return errorResponse(res, 'Course not found', 404);
+    }
+
+    const cohorts = await CourseCohort.find({ course: course._id }).sort({ level: 1, startDate: -1 });
+    const levelStats = await Enrollment.aggregate([
+      { $match: { course: course._id } },
+      { $group: { _id: { level: '$level', status: '$status' }, count: { $sum: 1 } } },
+      { $sort: { '_id.level': 1 } }
+    ]);
+
+    successResponse(res, {
+      course,
+      cohorts,
+      levelStats: levelStats.map(({ _id, count }) => ({ ..._id, count }))
+    }, 'Course retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching course:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const createCourse = async (req: Request, res: Response) => {
+  try {
+    if (!canManageCourses(req.user)) {
+      return errorResponse(res, 'Only leadership or department leaders can create courses', 403);
+    }
+
+    const course = new Course({ ...pick(req.body, COURSE_FIELDS), createdBy: req.user?._id });
+
+    if (!canManageCourse(req.user, course)) {
+      return errorResponse(res, 'You can only create courses for your own department', 403);
+    }
+
+    await course.save();
+
+    successResponse(res, course, 'Course created successfully', 201);
+  } catch (error: any) {
+    console.error('Error creating course:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'A course with this code already exists', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const updateCourse = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid course ID', 400);
+    }
+
+    const course = await Course.findById(id);
+    if (!course) {
+      return errorResponse(res, 'Course not found', 404);
+    }
+
+    if (!canManageCourse(req.user, course)) {
+      return errorResponse(res, 'Only the course department or leadership can edit this course', 403);
+    }
+
+    course.set(pick(req.body, COURSE_FIELDS));
+    if (!canManageCourse(req.user, course)) {
+      return errorResponse(res, 'You cannot move a course to another department', 403);
+    }
+
+    await course.save();
+
+    successResponse(res, course, 'Course updated successfully');
+  } catch (error: any) {
+    console.error('Error updating course:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'A course with this code already exists', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// List cohorts. ?course=&level=&status=
+export const getCohorts = async (req: Request, res: Response) => {
+  try {
+    const filter: any = {};
+    if (req.query.course && mongoose.Types.ObjectId.isValid(req.query.course as string)) {
+      filter.course = req.query.course;
+    }
+    if (req.query.level) filter.level = Number(req.query.level);
+    if (req.query.status) filter.status = req.query.status;
+
+    const cohorts = await CourseCohort.find(filter)
+      .populate('course', 'name code department')
+      .sort({ startDate: -1 });
+
+    const counts = await Enrollment.aggregate([
+      { $match: { cohort: { $in: cohorts.map(cohort => cohort._id) } } },
+      { $group: { _id: { cohort: '$cohort', status: '$status' }, count: { $sum: 1 } } }
+    ]);
+
+    successResponse(res, cohorts.map(cohort => ({
+      ...cohort.toJSON(),
+      enrollmentCounts: Object.fromEntries(
+        counts
+          .filter(item => item._id.cohort.toString() === cohort._id.toString())
+          .map(item => [item._id.status, item.count])
+      )
+    })), 'Cohorts retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching cohorts:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const createCohort = async (req: Request, res: Response) => {
+  try {
+    const { course: courseId, level } = req.body;
+
+    if (!courseId || !mongoose.Types.ObjectId.isValid(courseId)) {
+      return errorResponse(res, 'A valid course is required', 400);
+    }
+
+    const course = await Course.findById(courseId);
+    if (!course) {
+      return errorResponse(res, 'Course not found', 404);
+    }
+
+    if (!canManageCourse(req.user, course)) {
+      return errorResponse(res, 'Only the course department or leadership can open cohorts', 403);
+    }
+
+    if (!course.levels.some(item => item.level === Number(level))) {
+      return errorResponse(res, `Level must be one of: ${course.levels.map(item => item.level).join(', ')}`, 400);
+    }
+
+    const cohort = await CourseCohort.create({
+      ...pick(req.body, COHORT_FIELDS),
+      course: course._id,
+      level: Number(level),
+      createdBy: req.user?._id
+    });
+
+    successResponse(res, cohort, 'Cohort created successfully', 201);
+  } catch (error: any) {
+    console.error('Error creating cohort:', error);
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// One cohort with its enrollments and current scores
+export const getCohort = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid cohort ID', 400);
+    }
+
+    const cohort = await CourseCohort.findById(id).populate('course');
+    if (!cohort) {
+      return errorResponse(res, 'Cohort not found', 404);
+    }
+
+    const enrollments = await Enrollment.find({ cohort: cohort._id })
+      .populate('student', 'gibyGubayeId firstName middleName lastName phone batch')
+      .sort({ enrolledAt: 1 });
+
+    successResponse(res, {
+      cohort,
+      enrollments: enrollments.map(enrollment => ({
+        ...enrollment.toJSON(),
+        currentScore: enrollment.status === 'enrolled' ? computeFinalScore(cohort, enrollment) : enrollment.finalScore
+      }))
+    }, 'Cohort retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching cohort:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const updateCohort = async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadManagedCohort(req, res);
+    if (!loaded) return;
+    const { cohort } = loaded;
+
+    if (req.body.status && !COHORT_STATUSES.includes(req.body.status)) {
+      return errorResponse(res, `Status must be one of: ${COHORT_STATUSES.join(', ')}`, 400);
+    }
+
+    // Completion goes through the complete endpoint so outcomes are recorded
+    if (req.body.status === 'completed' && cohort.status !== 'completed') {
+      return errorResponse(res, 'Use the complete endpoint to finish a cohort', 400);
+    }
+
+    cohort.set(pick(req.body, COHORT_FIELDS));
+    await cohort.save();
+
+    successResponse(res, cohort, 'Cohort updated successfully');
+  } catch (error: any) {
+    console.error('Error updating cohort:', error);
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Enroll students: { students: [id], gibyGubayeIds: [..], force }.
+// Levels above the first need the previous level completed unless force is set.
+export const enrollStudents = async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadManagedCohort(req, res);
+    if (!loaded) return;
+    const { cohort, course } = loaded;
+
+    if (cohort.status === 'completed' || cohort.status === 'cancelled') {
+      return errorResponse(res, `Cohort is ${cohort.status}`, 409);
+    }
+
+    const ids: string[] = (Array.isArray(req.body.students) ? req.body.students : [])
+      .filter((id: string) => mongoose.Types.ObjectId.isValid(id));
+    const gibyGubayeIds: string[] = Array.isArray(req.body.gibyGubayeIds) ? req.body.gibyGubayeIds : [];
+
+    const students = await Student.find({
+      $or: [{ _id: { $in: ids } }, { gibyGubayeId: { $in: gibyGubayeIds } }],
+      anonymizedAt: { $exists: false }
+    }).select('_id gibyGubayeId');
+
+    if (students.length === 0) {
+      return errorResponse(res, 'No matching students found', 400);
+    }
+
+    const studentIds = students.map(student => student._id as mongoose.Types.ObjectId);
+    const already = new Set(
+      (await Enrollment.distinct('student', { cohort: cohort._id, student: { $in: studentIds } })).map(id => id.toString())
+    );
+    let candidates = studentIds.filter(id => !already.has(id.toString()));
+
+    const force = req.body.force === true || req.body.force === 'true';
+    const missing = force ? [] : await missingPrerequisite(course, cohort.level, candidates);
+    const missingSet = new Set(missing.map(id => id.toString()));
+    candidates = candidates.filter(id => !missingSet.has(id.toString()));
+
+    if (cohort.capacity) {
+      const current = await Enrollment.countDocuments({ cohort: cohort._id, status: { $ne: 'dropped' } });
+      if (current + candidates.length > cohort.capacity) {
+        return errorResponse(res, `Cohort capacity of ${cohort.capacity} would be exceeded`, 400);
+      }
+    }
+
+    await Enrollment.insertMany(candidates.map(student => ({
+      student,
+      cohort: cohort._id,
+      course: course._id,
+      level: cohort.level,
+      enrolledBy: req.user?._id
+    })));
+
+    if (cohort.status === 'planned' && candidates.length > 0 && cohort.startDate && cohort.startDate <= new Date()) {
+      cohort.status = 'running';
+      await cohort.save();
+    }
+
+    await syncStudentCourseFields(candidates, { actor: req.user });
+
+    const byId = new Map(students.map(student => [student._id.toString(), student.gibyGubayeId]));
+    successResponse(res, {
+      enrolled: candidates.map(id => byId.get(id.toString())),
+      alreadyEnrolled: [...already].map(id => byId.get(id)),
+      missingPrerequisite: missing.map(id => byId.get(id.toString()))
+    }, `${candidates.length} students enrolled`);
+  } catch (error: any) {
+    console.error('Error enrolling students:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Change one enrollment: { status: 'dropped' | 'enrolled', note }
+export const updateEnrollment = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status, note } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid enrollment ID', 400);
+    }
+
+    if (status && !['enrolled', 'dropped'].includes(status)) {
+      return errorResponse(res, 'Status can only be set to enrolled or dropped; completion is decided per cohort', 400);
+    }
+
+    const enrollment = await Enrollment.findById(id);
+    const course = enrollment && await Course.findById(enrollment.course);
+    if (!enrollment || !course) {
+      return errorResponse(res, 'Enrollment not found', 404);
+    }
+
+    if (!canManageCourse(req.user, course)) {
+      return errorResponse(res, 'Only the course department or leadership can change enrollments', 403);
+    }
+
+    if (enrollment.status === 'completed' || enrollment.status === 'failed') {
+      return errorResponse(res, `Enrollment is already ${enrollment.status}`, 409);
+    }
+
+    if (status) enrollment.status = status;
+    if (note !== undefined) enrollment.note = note;
+    await enrollment.save();
+
+    await syncStudentCourseFields([enrollment.student], { actor: req.user });
+
+    successResponse(res, enrollment, 'Enrollment updated successfully');
+  } catch (error: any) {
+    console.error('Error updating enrollment:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Record one assessment: { assessment, scores: [{ student, score }] }
+export const recordScores = async (req: Request, res: Response) => {
+  try {
+    const loaded = await loadManagedCohort(req, res);
+    if (!loaded) return;
+    const { cohort } = loaded;
+
+    const assessment = cohort.assessments.find(item => item._id.toString() === req.body.assessment);
+    if (!assessment) {
+      return errorResponse(res, 'Assessment not found in this cohort', 400);
+    }
+
+    const scores: { student: string; score: number }[] = Array.isArray(req.body.scores) ? req.body.scores : [];
+    const invalid = scores.filter(item =>
+      !mongoose.Types.ObjectId.isValid(item.student) || typeof item.score !== 'number' ||
+      item.score < 0 || item.score > assessment.maxScore
+    );
+    if (scores.length === 0 || invalid.length > 0) {
+      return errorResponse(res, `Scores must be numbers between 0 and ${assessment.maxScore} for valid students`, 400);
+    }
+
+    let updated = 0;
+    for (const item of scores) {
+      await Enrollment.updateOne(
+        { cohort: cohort._id, student: item.student, status: 'enrolled' },
+        { $pull: { scores: { assessment: assessment._id } } }
+      );
+      const result = await Enrollment.updateOne(
+        { cohort: cohort._id, student: item.student, status: 'enrolled' },
+        { $push: { scores: { assessment: assessment._id, score: item.score } } }
+      );
+      updated += result.modifiedCount;
+    }
+
+    successResponse(res, { assessment: assessment.title, updated, skipped: scores.length - updated }, 'Scores recorded successfully');
+  } catch (error: any) {
+    console.error('Error recording scores:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Finish a cohort: every open enrollment is completed (with a certificate
+// number) or failed. Defaults to a dry run; pass dryRun=false to save.
+export const completeCohort = async (req: Request, res: Response) => {
+  const dryRunParam = req.query.dryRun ?? req.body.dryRun;
+  const dryRun = !(dryRunParam === false || dryRunParam === 'false');
+  const session = await mongoose.startSession();
+
+  try {
+    const loaded = await loadManagedCohort(req, res);
+    if (!loaded) return;
+    const { cohort, course } = loaded;
+
+    if (cohort.status === 'completed' || cohort.status === 'cancelled') {
+      return errorResponse(res, `Cohort is already ${cohort.status}`, 409);
+    }
+
+    session.startTransaction();
+    const result = await evaluateCohort(cohort, course, { dryRun, actor: req.user, session });
+
+    if (dryRun) {
+      await session.abortTransaction();
+    } else {
+      await session.commitTransaction();
+    }
+
+    successResponse(
+      res,
+      { dryRun, ...result },
+      dryRun
+        ? `Dry run: ${result.completed} would complete, ${result.failed} would fail`
+        : `${result.completed} completed, ${result.failed} failed`
+    );
+  } catch (error: any) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    console.error('Error completing cohort:', error);
+    errorResponse(res, error.message, 500);
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Completion certificate PDF for a completed enrollment
+export const getCertificate = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid enrollment ID', 400);
+    }
+
+    const enrollment = await Enrollment.findById(id);
+    if (!enrollment) {
+      return errorResponse(res, 'Enrollment not found', 404);
+    }
+
+    if (enrollment.status !== 'completed' || !enrollment.certificateNumber) {
+      return errorResponse(res, 'No certificate has been issued for this enrollment', 400);
+    }
+
+    const [student, course, cohort] = await Promise.all([
+      Student.findById(enrollment.student).select('gibyGubayeId firstName middleName lastName'),
+      Course.findById(enrollment.course),
+      CourseCohort.findById(enrollment.cohort)
+    ]);
+    if (!student || !course || !cohort) {
+      return errorResponse(res, 'Certificate data is incomplete', 404);
+    }
+
+    const isSelf = req.user?.studentId?.toString() === student._id.toString();
+    if (!isSelf && !canManageCourse(req.user, course)) {
+      return errorResponse(res, 'Not allowed to print this certificate', 403);
+    }
+
+    res.set('Content-Type', 'application/pdf');
+    res.set('Content-Disposition', `inline; filename="${enrollment.certificateNumber}.pdf"`);
+    await writeCertificatePdf(res, { student, course, cohort, enrollment });
+  } catch (error: any) {
+    console.error('Error generating certificate:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// A student's enrollments across all courses
+export const getStudentEnrollments = async (req: Request, res: Response) => {
+  try {
+    const { studentId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(studentId)) {
+      return errorResponse(res, 'Invalid student ID', 400);
+    }
+
+    const enrollments = await Enrollment.find({ student: studentId })
+      .populate('course', 'name code department')
+      .populate('cohort', 'name church startDate endDate status')
+      .sort({ enrolledAt: -1 });
+
+    successResponse(res, enrollments, 'Student enrollments retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching student enrollments:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
@@ -0,0 +1,268 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Student from '../models/Student';
+import DepartmentApplication, { IDepartmentApplication } from '../models/DepartmentApplication';
+import { IUser } from '../models/User';
+import { successResponse, errorResponse } from '../utils/helpers';
+import { DEPARTMENT_CLASSES, assignStudentToClass, canApproveJobs, checkJobEligibility } from '../utils/jobPolicy';
+import { notifyRoles, notifyStudent } from '../utils/notifications';
+import { resolveTeam } from '../utils/teams';
+
+// The department's own leader, or leadership for every department
+const canReviewApplication = (user: IUser | undefined, application: IDepartmentApplication) =>
+  !!user && (user.role === application.class || canApproveJobs(user));
+
+// Apply to a department as the student linked to the caller's account.
+// Students the department's policy already excludes are told why up front.
+export const applyToDepartment = async (req: Request, res: Response) => {
+  try {
+    const studentId = req.user?.studentId;
+    if (!studentId) {
+      return errorResponse(res, 'Your account is not linked to a student record', 404);
+    }
+
+    const { class: className, sub_class, motivation } = req.body;
+    if (!DEPARTMENT_CLASSES.includes(className)) {
+      return errorResponse(res, 'Unknown department', 400);
+    }
+
+    const student = await Student.findById(studentId).select('gibyGubayeId firstName lastName isActive anonymizedAt numberOfJob batch gender');
+    if (!student) {
+      return errorResponse(res, 'Linked student record not found', 404);
+    }
+
+    const { eligible, reasons } = await checkJobEligibility(student, className);
+    if (!eligible) {
+      return errorResponse(res, reasons.map(reason => reason.message).join('; '), 400, reasons);
+    }
+
+    const application = await DepartmentApplication.create({
+      student: student._id,
+      applicant: req.user?._id,
+      class: className,
+      sub_class,
+      motivation
+    });
+
+    await notifyRoles([className], {
+      type: 'department_application',
+      title: 'New department application',
+      message: `${student.firstName} ${student.lastName} applied to join ${className}`,
+      data: { application: application._id, student: student._id }
+    });
+
+    successResponse(res, application, 'Application submitted successfully', 201);
+  } catch (error: any) {
+    console.error('Error submitting department application:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'You already have a pending application to this department', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// The caller's own applications
+export const getMyApplications = async (req: Request, res: Response) => {
+  try {
+    const studentId = req.user?.studentId;
+    if (!studentId) {
+      return errorResponse(res, 'Your account is not linked to a student record', 404);
+    }
+
+    const applications = await DepartmentApplication.find({ student: studentId })
+      .populate('reviewedBy', 'name role')
+      .sort({ createdAt: -1 });
+
+    successResponse(res, applications, 'Applications retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching own applications:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const withdrawApplication = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid application ID', 400);
+    }
+
+    const application = await DepartmentApplication.findById(id);
+    if (!application) {
+      return errorResponse(res, 'Application not found', 404);
+    }
+
+    if (application.student.toString() !== req.user?.studentId?.toString()) {
+      return errorResponse(res, 'You can only withdraw your own applications', 403);
+    }
+
+    if (application.status !== 'pending') {
+      return errorResponse(res, 'Only pending applications can be withdrawn', 400);
+    }
+
+    application.status = 'withdrawn';
+    await application.save();
+
+    successResponse(res, application, 'Application withdrawn successfully');
+  } catch (error: any) {
+    console.error('Error withdrawing application:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Review queue. Department leaders see their own class; leadership every
+// class or one with ?class=. ?status=pending|accepted|declined|withdrawn|all
+export const getApplicationQueue = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+    const status = (req.query.status as string) || 'pending';
+
+    const filter: any = {};
+    if (status !== 'all') filter.status = status;
+    if (!canApproveJobs(req.user)) {
+      filter.class = req.user?.role;
+    } else if (req.query.class) {
+      filter.class = req.query.class;
+    }
+
+    const applications = await DepartmentApplication.find(filter)
+      .populate('student', 'gibyGubayeId firstName middleName lastName gender batch college department numberOfJob photo photoFileId')
+      .populate('reviewedBy', 'name role')
+      .sort({ createdAt: 1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await DepartmentApplication.countDocuments(filter);
+
+    successResponse(res, {
+      applications,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        total,
+        limit
+      }
+    }, 'Application queue retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching application queue:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Accept or decline an application. Accepting assigns the job through the
+// same policy checks as a direct assignment; if those fail the application
+// stays pending. The student is notified either way.
+export const reviewApplication = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { decision, note, sub_class } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return errorResponse(res, 'Invalid application ID', 400);
+  }
+
+  if (!['accept', 'decline'].includes(decision)) {
+    return errorResponse(res, 'Decision must be accept or decline', 400);
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    const existing = await DepartmentApplication.findById(id);
+    if (!existing) {
+      return errorResponse(res, 'Application not found', 404);
+    }
+
+    if (!canReviewApplication(req.user, existing)) {
+      return errorResponse(res, 'Only the department leader can review this application', 403);
+    }
+
+    if (existing.status !== 'pending') {
+      return errorResponse(res, 'Only pending applications can be reviewed', 400);
+    }
+
+    // The leader's choice of team wins over the applicant's preference,
+    // which only places the member when such a team exists
+    const preferred = decision === 'accept' ? sub_class ?? existing.sub_class : null;
+    const team = preferred
+      ? await resolveTeam(existing.class, String(preferred), { create: sub_class !== undefined, actor: req.user })
+      : null;
+
+    session.startTransaction();
+
+    // Claim the application while it is still pending, so two reviewers
+    // accepting at once cannot both create a job
+    const application = await DepartmentApplication.findOneAndUpdate(
+      { _id: id, status: 'pending' },
+      {
+        $set: {
+          status: decision === 'accept' ? 'accepted' : 'declined',
+          reviewedBy: req.user?._id,
+          reviewedAt: new Date(),
+          reviewNote: note
+        }
+      },
+      { new: true, runValidators: true, session }
+    );
+    if (!application) {
+      await session.abortTransaction();
+      return errorResponse(res, 'Only pending applications can be reviewed', 400);
+    }
+
+    let approved = false;
+    if (decision === 'accept') {
+      const result = await assignStudentToClass(application.student, application.class, {
+        actor: req.user!,
+        team,
+        session
+      });
+      if (result.error) {
+        await session.abortTransaction();
+        return errorResponse(res, result.error, 404);
+      }
+      if (result.reasons) {
+        await session.abortTransaction();
+        return errorResponse(res, result.reasons.map(reason => reason.message).join('; '), 400, result.reasons);
+      }
+
+      application.job = result.job._id as mongoose.Types.ObjectId;
+      approved = result.approved;
+      await application.save({ session });
+    }
+
+    await session.commitTransaction();
+
+    await notifyStudent(application.student, {
+      type: 'department_application',
+      title: decision === 'accept' ? `Application to ${application.class} accepted` : `Application to ${application.class} declined`,
+      message: decision === 'decline'
+        ? `Your application to join ${application.class} was declined.${note ? ` ${note}` : ''}`
+        : approved
+          ? `You are now a member of ${application.class}.${note ? ` ${note}` : ''}`
+          : `Your application to join ${application.class} was accepted and awaits leadership approval.${note ? ` ${note}` : ''}`,
+      data: { application: application._id, job: application.job }
+    });
+
+    successResponse(
+      res,
+      application,
+      decision === 'accept' ? 'Application accepted' : 'Application declined'
+    );
+  } catch (error: any) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    console.error('Error reviewing application:', error);
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  } finally {
+    await session.endSession();
+  }
+};
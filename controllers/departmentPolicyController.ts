@@ -0,0 +1,94 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import DepartmentPolicy from '../models/DepartmentPolicy';
+import Job, { ACTIVE_JOB_FILTER } from '../models/Job';
+import { successResponse, errorResponse } from '../utils/helpers';
+import { DEFAULT_DEPARTMENT_RULES, getDepartmentRules, incompatibleClasses } from '../utils/jobPolicy';
+
+// Comma separated strings from forms are accepted for the list fields
+const toList = (value: any): string[] =>
+  (Array.isArray(value) ? value : String(value).split(','))
+    .map(item => String(item).trim())
+    .filter(Boolean);
+
+// Every stored policy; classes without one follow the defaults
+export const getDepartmentPolicies = async (req: Request, res: Response) => {
+  try {
+    const policies = await DepartmentPolicy.find()
+      .populate('updatedBy', 'name role')
+      .sort({ class: 1 });
+
+    successResponse(res, { policies, defaults: DEFAULT_DEPARTMENT_RULES }, 'Department policies retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching department policies:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// The rules in effect for one class, with its current size
+export const getDepartmentPolicy = async (req: Request, res: Response) => {
+  try {
+    const rules = await getDepartmentRules(req.params.class);
+    const [incompatible, members, pending] = await Promise.all([
+      incompatibleClasses(rules),
+      Job.countDocuments({ class: rules.class, ...ACTIVE_JOB_FILTER }),
+      Job.countDocuments({ class: rules.class, status: 'pending' })
+    ]);
+
+    successResponse(res, { ...rules, incompatible, members, pending }, 'Department policy retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching department policy:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Create or change a class's policy. Existing assignments are left as they
+// are; the rules apply to new assignments and approvals.
+export const updateDepartmentPolicy = async (req: Request, res: Response) => {
+  try {
+    const className = req.params.class;
+    const { maxMembers, maxJobsPerStudent, allowedBatches, allowedGenders, requiresApproval, incompatibleWith, preferences } = req.body;
+
+    const policy = await DepartmentPolicy.findOne({ class: className }) ||
+      new DepartmentPolicy({ class: className, ...DEFAULT_DEPARTMENT_RULES });
+
+    if (maxMembers !== undefined) {
+      policy.set('maxMembers', maxMembers === null || maxMembers === '' ? undefined : Number(maxMembers));
+    }
+    if (maxJobsPerStudent !== undefined) policy.maxJobsPerStudent = Number(maxJobsPerStudent);
+    if (allowedBatches !== undefined) policy.set('allowedBatches', toList(allowedBatches));
+    if (allowedGenders !== undefined) policy.set('allowedGenders', toList(allowedGenders));
+    if (requiresApproval !== undefined) policy.requiresApproval = requiresApproval === true || requiresApproval === 'true';
+    if (incompatibleWith !== undefined) policy.set('incompatibleWith', toList(incompatibleWith));
+    if (preferences && typeof preferences === 'object') {
+      for (const field of ['languages', 'courses', 'colleges', 'departments']) {
+        if (preferences[field] !== undefined) policy.set(`preferences.${field}`, toList(preferences[field]));
+      }
+    }
+    policy.updatedBy = req.user?._id as mongoose.Types.ObjectId;
+    await policy.save();
+
+    successResponse(res, policy, 'Department policy updated successfully');
+  } catch (error: any) {
+    console.error('Error updating department policy:', error);
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Drop a class's policy so it falls back to the defaults
+export const deleteDepartmentPolicy = async (req: Request, res: Response) => {
+  try {
+    const policy = await DepartmentPolicy.findOneAndDelete({ class: req.params.class });
+    if (!policy) {
+      return errorResponse(res, 'Department policy not found', 404);
+    }
+
+    successResponse(res, null, 'Department policy removed; defaults apply');
+  } catch (error: any) {
+    console.error('Error deleting department policy:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
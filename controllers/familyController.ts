@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import Family, { IFamily, IGrandParent, IFamilyMember, IFamilyChild } from '../models/Family';
 import User from '../models/User';
 import Student from '../models/Student';
+import { AdminAreaLevel } from '../models/AdminArea';
+import { sameArea } from '../utils/adminGeography';
 import mongoose from 'mongoose';
 
 // Helper functions
@@ -98,15 +100,15 @@ export const getAllFamilies = async (req: Request, res: Response) => {
       .populate('creator') // Populate virtual field for createdBy
       .populate({
         path: 'grandParents.grandFather grandParents.grandMother',
-        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
       })
       .populate({
         path: 'grandParents.families.father.student grandParents.families.mother.student',
-        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
       })
       .populate({
         path: 'grandParents.families.children.student',
-        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
       })
       .sort(sort)
       .skip(skip)
@@ -147,15 +149,15 @@ export const getFamily = async (req: Request, res: Response) => {
       .populate('creator') // Populate virtual field for createdBy
       .populate({
         path: 'grandParents.grandFather grandParents.grandMother',
-        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
       })
       .populate({
         path: 'grandParents.families.father.student grandParents.families.mother.student',
-        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
       })
       .populate({
         path: 'grandParents.families.children.student',
-        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
       });
 
     if (!family) {
@@ -179,7 +181,7 @@ export const getFamilyFilterOptions = async (req: Request, res: Response) => {
     );
 
     // Get all students for selection
-    const allStudents = await Student.find({}, '_id firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact')
+    const allStudents = await Student.find({}, '_id firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact')
       .sort({ firstName: 1 });
 
     // Get unique locations
@@ -559,15 +561,15 @@ export const createFamily = async (req: Request, res: Response) => {
       .populate('creator') // Populate virtual field
       .populate({
         path: 'grandParents.grandFather grandParents.grandMother',
-        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
       })
       .populate({
         path: 'grandParents.families.father.student grandParents.families.mother.student',
-        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
       })
       .populate({
         path: 'grandParents.families.children.student',
-        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+        select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
       });
 
     successResponse(res, populatedFamily, 'Family created successfully');
@@ -765,15 +767,15 @@ export const updateFamily = async (req: Request, res: Response) => {
     .populate('creator') // Populate virtual field
     .populate({
       path: 'grandParents.grandFather grandParents.grandMother',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
     })
     .populate({
       path: 'grandParents.families.father.student grandParents.families.mother.student',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
     })
     .populate({
       path: 'grandParents.families.children.student',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact'
     });
 
     successResponse(res, updatedFamily, 'Family updated successfully');
@@ -891,7 +893,7 @@ export const getStudentsForFamilySelection = async (req: Request, res: Response)
       filter.gender = 'female';
     }
     
-    const students = await Student.find(filter, '_id firstName middleName lastName gender gibyGubayeId phone email batch photo photoData motherName university college department region job dateOfBirth emergencyContact')
+    const students = await Student.find(filter, '_id firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId motherName university college department region job dateOfBirth emergencyContact')
       .sort({ firstName: 1, lastName: 1 })
       .skip(skip)
       .limit(limitNum);
@@ -969,15 +971,15 @@ export const updateFamilyStatus = async (req: Request, res: Response) => {
     .populate('creator') // Populate virtual field
     .populate({
       path: 'grandParents.grandFather grandParents.grandMother',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId'
     })
     .populate({
       path: 'grandParents.families.father.student grandParents.families.mother.student',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId'
     })
     .populate({
       path: 'grandParents.families.children.student',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId'
     });
 
     successResponse(res, updatedFamily, 'Family status updated successfully');
@@ -1097,15 +1099,15 @@ export const addChildrenToFamily = async (req: Request, res: Response) => {
     .populate('creator') // Populate virtual field
     .populate({
       path: 'grandParents.grandFather grandParents.grandMother',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId'
     })
     .populate({
       path: 'grandParents.families.father.student grandParents.families.mother.student',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId'
     })
     .populate({
       path: 'grandParents.families.children.student',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId'
     });
 
     successResponse(res, updatedFamily, 'Children added successfully');
@@ -1167,15 +1169,15 @@ export const removeChildFromFamily = async (req: Request, res: Response) => {
     .populate('creator') // Populate virtual field
     .populate({
       path: 'grandParents.grandFather grandParents.grandMother',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId'
     })
     .populate({
       path: 'grandParents.families.father.student grandParents.families.mother.student',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId'
     })
     .populate({
       path: 'grandParents.families.children.student',
-      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData'
+      select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId'
     });
 
     successResponse(res, updatedFamily, 'Child removed successfully');
@@ -1361,11 +1363,11 @@ export const autoAssignChildren = async (req: Request, res: Response) => {
       })
       .populate({
         path: 'grandParents.families.father.student grandParents.families.mother.student',
-        select: 'firstName lastName gender batch region zone wereda kebele dateOfBirth gibyGubayeId'
+        select: 'firstName lastName gender batch region zone wereda kebele regionId zoneId weredaId kebeleId dateOfBirth gibyGubayeId'
       })
       .populate({
         path: 'grandParents.families.children.student',
-        select: 'firstName lastName gender batch region zone wereda kebele dateOfBirth gibyGubayeId'
+        select: 'firstName lastName gender batch region zone wereda kebele regionId zoneId weredaId kebeleId dateOfBirth gibyGubayeId'
       })
       .lean();
 
@@ -1378,7 +1380,7 @@ export const autoAssignChildren = async (req: Request, res: Response) => {
       batch: targetBatch,
       isActive: true
     })
-    .select('firstName lastName gender batch region zone wereda kebele dateOfBirth gibyGubayeId')
+    .select('firstName lastName gender batch region zone wereda kebele regionId zoneId weredaId kebeleId dateOfBirth gibyGubayeId')
     .lean();
     
     if (allStudentsInBatch.length === 0) {
@@ -1399,6 +1401,10 @@ export const autoAssignChildren = async (req: Request, res: Response) => {
       zone?: string;
       wereda?: string;
       kebele?: string;
+      regionId?: mongoose.Types.ObjectId;
+      zoneId?: mongoose.Types.ObjectId;
+      weredaId?: mongoose.Types.ObjectId;
+      kebeleId?: mongoose.Types.ObjectId;
       dateOfBirth?: Date;
       gibyGubayeId?: string;
     };
@@ -1511,19 +1517,20 @@ export const autoAssignChildren = async (req: Request, res: Response) => {
               let commonAddressLevel: string | undefined = undefined;
               let commonAddressValue: string | undefined = undefined;
               
-              if (father.region && mother.region && father.region === mother.region) {
+              // Areas are compared by reference ID where available, so spelling variants still match
+              if (sameArea(father, mother, 'region')) {
                 commonAddressLevel = 'region';
                 commonAddressValue = father.region;
                 
-                if (father.zone && mother.zone && father.zone === mother.zone) {
+                if (sameArea(father, mother, 'zone')) {
                   commonAddressLevel = 'zone';
                   commonAddressValue = father.zone;
                   
-                  if (father.wereda && mother.wereda && father.wereda === mother.wereda) {
+                  if (sameArea(father, mother, 'wereda')) {
                     commonAddressLevel = 'wereda';
                     commonAddressValue = father.wereda;
                     
-                    if (father.kebele && mother.kebele && father.kebele === mother.kebele) {
+                    if (sameArea(father, mother, 'kebele')) {
                       commonAddressLevel = 'kebele';
                       commonAddressValue = father.kebele;
                     }
@@ -1615,22 +1622,22 @@ export const autoAssignChildren = async (req: Request, res: Response) => {
       let score = 0;
       
       // Different region (most diverse)
-      if (child.region !== father.region && child.region !== mother.region) {
+      if (!sameArea(child, father, 'region') && !sameArea(child, mother, 'region')) {
         score += 4;
       }
       // Same region, different zone
-      else if (child.region === father.region || child.region === mother.region) {
-        if (child.zone && (child.zone !== father.zone || child.zone !== mother.zone)) {
+      else {
+        if (child.zone && (!sameArea(child, father, 'zone') || !sameArea(child, mother, 'zone'))) {
           score += 3;
         }
         // Same zone, different wereda
-        else if (child.zone && child.zone === father.zone && child.zone === mother.zone) {
-          if (child.wereda && (child.wereda !== father.wereda || child.wereda !== mother.wereda)) {
+        else if (child.zone && sameArea(child, father, 'zone') && sameArea(child, mother, 'zone')) {
+          if (child.wereda && (!sameArea(child, father, 'wereda') || !sameArea(child, mother, 'wereda'))) {
             score += 2;
           }
           // Same wereda, different kebele
-          else if (child.wereda && child.wereda === father.wereda && child.wereda === mother.wereda) {
-            if (child.kebele && (child.kebele !== father.kebele || child.kebele !== mother.kebele)) {
+          else if (child.wereda && sameArea(child, father, 'wereda') && sameArea(child, mother, 'wereda')) {
+            if (child.kebele && (!sameArea(child, father, 'kebele') || !sameArea(child, mother, 'kebele'))) {
               score += 1;
             }
           }
@@ -1722,9 +1729,10 @@ export const autoAssignChildren = async (req: Request, res: Response) => {
           
           if (mode === 'homogeneous' && familyAssignment.commonAddressLevel) {
             // For homogeneous: match address level
-            const studentAddress = student[familyAssignment.commonAddressLevel as keyof StudentInfo] as string | undefined;
+            const commonLevel = familyAssignment.commonAddressLevel as AdminAreaLevel;
+            const studentAddress = student[commonLevel];
             
-            if (studentAddress && studentAddress === familyAssignment.commonAddressValue) {
+            if (studentAddress && sameArea(student, familyAssignment.father, commonLevel)) {
               score = 100; // Perfect match
               addressMatch = `Matched ${familyAssignment.commonAddressLevel}: ${studentAddress}`;
             } else {
@@ -1734,10 +1742,9 @@ export const autoAssignChildren = async (req: Request, res: Response) => {
               
               for (let j = currentLevelIndex + 1; j < levels.length; j++) {
                 const level = levels[j];
-                const studentValue = student[level as keyof StudentInfo] as string | undefined;
-                const familyValue = familyAssignment.father[level as keyof StudentInfo] as string | undefined;
+                const studentValue = student[level as AdminAreaLevel];
                 
-                if (studentValue && familyValue && studentValue === familyValue) {
+                if (sameArea(student, familyAssignment.father, level as AdminAreaLevel)) {
                   score = 50 - (j * 10); // Lower score for less specific match
                   addressMatch = `Matched ${level}: ${studentValue}`;
                   break;
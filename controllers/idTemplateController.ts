@@ -0,0 +1,114 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import IdTemplate, { ID_SEQUENCE_SCOPES } from '../models/IdTemplate';
+import { successResponse, errorResponse } from '../utils/helpers';
+import {
+  StudentIdTemplate,
+  checkStudentId,
+  getStudentIdTemplate,
+  previewStudentIds
+} from '../utils/generateStudentId';
+
+const TEMPLATE_FIELDS = ['prefix', 'format', 'scope', 'padding', 'checkDigit'] as const;
+
+// Template values sent in the body or query, coerced from form/query strings
+const templateOverrides = (source: Record<string, any>) => {
+  const overrides: Partial<StudentIdTemplate> = {};
+  for (const field of TEMPLATE_FIELDS) {
+    if (source[field] === undefined || source[field] === '') continue;
+
+    if (field === 'padding') {
+      overrides.padding = Number(source.padding);
+    } else if (field === 'checkDigit') {
+      overrides.checkDigit = source.checkDigit === true || source.checkDigit === 'true';
+    } else {
+      (overrides as any)[field] = String(source[field]);
+    }
+  }
+  return overrides;
+};
+
+// Get the student ID template currently in use
+export const getIdTemplate = async (req: Request, res: Response) => {
+  try {
+    const template = await getStudentIdTemplate();
+    successResponse(res, { ...template, scopes: ID_SEQUENCE_SCOPES }, 'ID template retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching ID template:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Change the template. Only newly issued IDs follow it; existing IDs are kept.
+export const updateIdTemplate = async (req: Request, res: Response) => {
+  try {
+    const current = await getStudentIdTemplate();
+
+    const template = await IdTemplate.findOne({ name: 'student' }) ||
+      new IdTemplate({ name: 'student', ...current });
+
+    template.set(templateOverrides(req.body));
+    template.updatedBy = req.user?._id as mongoose.Types.ObjectId;
+    await template.save();
+
+    successResponse(res, template, 'ID template updated successfully');
+  } catch (error: any) {
+    console.error('Error updating ID template:', error);
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Next IDs for ?batch=, without reserving them. Template fields in the query
+// (prefix, format, scope, padding, checkDigit) preview an unsaved change.
+export const previewIdTemplate = async (req: Request, res: Response) => {
+  try {
+    const batch = req.query.batch as string;
+    const count = Math.min(Math.max(parseInt(req.query.count as string) || 3, 1), 20);
+
+    if (!batch) {
+      return errorResponse(res, 'Batch is required', 400);
+    }
+
+    const draft = new IdTemplate({ name: 'student', ...(await getStudentIdTemplate()), ...templateOverrides(req.query) });
+    const validationError = draft.validateSync();
+    if (validationError) {
+      return errorResponse(res, validationError.message, 400);
+    }
+
+    const template: StudentIdTemplate = {
+      prefix: draft.prefix,
+      format: draft.format,
+      scope: draft.scope,
+      padding: draft.padding,
+      checkDigit: draft.checkDigit
+    };
+
+    const preview = await previewStudentIds(template, batch, count);
+
+    successResponse(res, { template, batch, ...preview }, 'ID preview generated successfully');
+  } catch (error: any) {
+    console.error('Error previewing ID template:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Check ?id= against the current template, its check digit and the legacy format
+export const checkId = async (req: Request, res: Response) => {
+  try {
+    const id = req.query.id as string;
+
+    if (!id) {
+      return errorResponse(res, 'ID is required', 400);
+    }
+
+    const result = checkStudentId(id, await getStudentIdTemplate());
+
+    successResponse(res, { id, ...result }, result.valid ? 'ID is valid' : 'ID does not match the template');
+  } catch (error: any) {
+    console.error('Error checking ID:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
@@ -1,7 +1,23 @@
 import { Request, Response } from 'express';
-import Job, { IJob } from '../models/Job';
+import Job, { ACTIVE_JOB_FILTER, IJob, isActiveJob } from '../models/Job';
 import Student from '../models/Student';
 import mongoose from 'mongoose';
+import {
+  assignStudentToClass,
+  buildEligibilityContext,
+  canApproveJobs,
+  checkJobEligibility,
+  eligibleStudentQuery,
+  evaluateEligibility,
+  getDepartmentRules,
+} from '../utils/jobPolicy';
+import { findServiceYear, getOpenServiceYear, serviceYearJobFilter } from '../utils/serviceYear';
+import { resolveTeam, teamDepartment } from '../utils/teams';
+import { MAX_BULK_STUDENTS, bulkAssign, bulkRemove, bulkTransfer, summarizeBulkItems } from '../utils/bulkJobs';
+import { recommendCandidates } from '../utils/jobRecommendations';
+import { ITeam } from '../models/Team';
+
+const JOB_STUDENT_FIELDS = 'firstName middleName lastName motherName phone email gender block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages attendsCourse courseName courseChurch dateOfBirth emergencyContact photo photoFileId isActive createdAt updatedAt numberOfJob gibyGubayeId';
 
 // Get all job assignments for the current user's class
 export const getJobs = async (req: Request, res: Response) => {
@@ -22,7 +38,10 @@ export const getJobs = async (req: Request, res: Response) => {
       limit = 10, 
       search = '', 
       sub_class: subClassStatusFilter = '',  // For status: "assigned" or "not_assigned"
-      sub_class_value = ''                    // For specific value like "Timhrt", "Mikikir"
+      sub_class_value = '',                   // For specific value like "Timhrt", "Mikikir"
+      team = '',                              // Team id
+      status = 'active',                      // "active", "pending", "ended", "rejected" or "all"
+      serviceYear = ''                        // Terms of one service year
     } = req.query;
     
     const skip = (Number(page) - 1) * Number(limit);
@@ -30,8 +49,21 @@ export const getJobs = async (req: Request, res: Response) => {
     // Build query - only show jobs for current user's class
     let query: any = { class: userRole };
 
-    // Handle specific sub-class value filter
-    if (sub_class_value && sub_class_value !== '') {
+    // Current assignments by default; ended and rejected ones are kept as history
+    if (status === 'ended' || status === 'pending' || status === 'rejected') {
+      query.status = status;
+    } else if (status !== 'all') {
+      Object.assign(query, ACTIVE_JOB_FILTER);
+    }
+
+    if (serviceYear && mongoose.Types.ObjectId.isValid(serviceYear as string)) {
+      query.serviceYear = serviceYear;
+    }
+
+    // Handle specific team or sub-class value filter
+    if (team && mongoose.Types.ObjectId.isValid(team as string)) {
+      query.team = team;
+    } else if (sub_class_value && sub_class_value !== '') {
       query.sub_class = sub_class_value;
     }
     // Handle sub-class status filter (only if no specific value is provided)
@@ -75,7 +107,7 @@ export const getJobs = async (req: Request, res: Response) => {
     const jobs = await Job.find(query)
       .populate({
         path: 'studentId',
-        select: 'firstName middleName lastName motherName phone email gender block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages attendsCourse courseName courseChurch dateOfBirth emergencyContact photo photoData isActive createdAt updatedAt numberOfJob gibyGubayeId'
+        select: 'firstName middleName lastName motherName phone email gender block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages attendsCourse courseName courseChurch dateOfBirth emergencyContact photo photoFileId isActive createdAt updatedAt numberOfJob gibyGubayeId'
       })
       .sort({ createdAt: -1 })
       .skip(skip)
@@ -107,11 +139,12 @@ export const getJobs = async (req: Request, res: Response) => {
   }
 };
 
-// Get students eligible for job assignment (less than 3 jobs and not already assigned current class)
+// Get students eligible for job assignment under the class's department policy.
+// Pass includeIneligible=true to also list the others with the reasons they are excluded.
 export const getEligibleStudents = async (req: Request, res: Response) => {
   try {
     const userRole = (req as any).user?.role;
-    const { search = '' } = req.query;
+    const { search = '', includeIneligible } = req.query;
 
     if (!userRole) {
       return res.status(403).json({
@@ -120,8 +153,11 @@ export const getEligibleStudents = async (req: Request, res: Response) => {
       });
     }
 
-    // Find students with numberOfJob < 3
-    let query: any = { numberOfJob: { $lt: 3 } };
+    const rules = await getDepartmentRules(userRole);
+    const withIneligible = includeIneligible === 'true';
+
+    // Rules a query can express narrow the search up front
+    let query: any = withIneligible ? {} : eligibleStudentQuery(rules);
 
     // Search filter
     if (search) {
@@ -136,21 +172,25 @@ export const getEligibleStudents = async (req: Request, res: Response) => {
     }
 
     const students = await Student.find(query)
-      .select('firstName middleName lastName phone email college department photo photoData numberOfJob gibyGubayeId')
+      .select('firstName middleName lastName phone email gender batch college department photo photoFileId numberOfJob isActive anonymizedAt gibyGubayeId')
       .sort({ firstName: 1 })
       .limit(50);
 
-    // Filter out students already assigned to current class
-    const jobs = await Job.find({ class: userRole }).select('studentId');
-    const assignedStudentIds = jobs.map(job => job.studentId.toString());
-
-    const eligibleStudents = students.filter(
-      student => !assignedStudentIds.includes(student._id.toString())
+    // Existing assignments, incompatible departments and capacity are checked per student
+    const context = await buildEligibilityContext(
+      rules,
+      students.map(student => student._id as mongoose.Types.ObjectId)
     );
 
+    const evaluated = students.map(student => ({
+      ...student.toObject(),
+      ...evaluateEligibility(student, context),
+    }));
+
     res.json({
       success: true,
-      data: eligibleStudents,
+      data: withIneligible ? evaluated : evaluated.filter(student => student.eligible),
+      policy: rules,
     });
   } catch (error: any) {
     console.error('Error fetching eligible students:', error);
@@ -161,21 +201,53 @@ export const getEligibleStudents = async (req: Request, res: Response) => {
   }
 };
 
-// Assign job to student
-export const assignJob = async (req: Request, res: Response) => {
+// Eligible students ranked for the current user's class, each with the
+// reasons behind its score. ?limit=&search=, leadership may pass ?class=
+export const getRecommendations = async (req: Request, res: Response) => {
   try {
-    const userRole = (req as any).user?.role;
-    const { studentId } = req.body;
+    const user = (req as any).user;
+    const className = canApproveJobs(user) && req.query.class ? (req.query.class as string) : user?.role;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
 
-    if (!userRole) {
+    if (!className) {
       return res.status(403).json({
         success: false,
         message: 'User role not found',
       });
     }
 
-    // Check if student exists
-    const student = await Student.findById(studentId);
+    const rules = await getDepartmentRules(className);
+    const result = await recommendCandidates(rules, { limit, search: req.query.search as string });
+
+    res.json({
+      success: true,
+      data: result,
+      policy: rules,
+    });
+  } catch (error: any) {
+    console.error('Error ranking job candidates:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+// Explain whether one student can join the current user's class
+export const getStudentEligibility = async (req: Request, res: Response) => {
+  try {
+    const userRole = (req as any).user?.role;
+    const { studentId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(studentId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid student ID format',
+      });
+    }
+
+    const className = (req.query.class as string) || userRole;
+    const student = await Student.findById(studentId).select('gibyGubayeId isActive anonymizedAt numberOfJob batch gender');
     if (!student) {
       return res.status(404).json({
         success: false,
@@ -183,55 +255,195 @@ export const assignJob = async (req: Request, res: Response) => {
       });
     }
 
-    // Check if student already has 3 jobs
-    if (student.numberOfJob >= 3) {
+    const { rules, eligible, reasons } = await checkJobEligibility(student, className);
+
+    res.json({
+      success: true,
+      data: {
+        student: student._id,
+        gibyGubayeId: student.gibyGubayeId,
+        class: className,
+        eligible,
+        reasons,
+        policy: rules,
+      },
+    });
+  } catch (error: any) {
+    console.error('Error checking job eligibility:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+// Assign job to student. In departments requiring approval the assignment
+// waits for a leader unless a leader makes it.
+export const assignJob = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const userRole = user?.role;
+    const { studentId } = req.body;
+
+    if (!userRole) {
+      return res.status(403).json({
+        success: false,
+        message: 'User role not found',
+      });
+    }
+
+    const result = await assignStudentToClass(studentId, userRole, { actor: user });
+    if (result.error) {
+      return res.status(404).json({
+        success: false,
+        message: result.error,
+      });
+    }
+    if (result.reasons) {
       return res.status(400).json({
         success: false,
-        message: 'Student already has maximum 3 job assignments',
+        message: result.reasons.map(reason => reason.message).join('; '),
+        data: { reasons: result.reasons },
       });
     }
 
-    // Check if student already has job with same class
-    const existingJob = await Job.findOne({
-      studentId,
-      class: userRole,
+    const { job, approved } = result;
+
+    // Populate student data for response - UPDATED TO INCLUDE ALL FIELDS
+    const populatedJob = await Job.findById(job._id).populate({
+      path: 'studentId',
+      select: JOB_STUDENT_FIELDS
+    });
+
+    res.status(201).json({
+      success: true,
+      data: populatedJob,
+      message: approved ? 'Job assigned successfully' : 'Job assignment submitted for leader approval',
+    });
+  } catch (error: any) {
+    console.error('Error assigning job:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
+// Assignments awaiting approval. Leaders see every department, others their own.
+export const getPendingJobs = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    const query: any = { status: 'pending' };
+    if (!canApproveJobs(user)) {
+      query.class = user?.role;
+    } else if (req.query.class) {
+      query.class = req.query.class;
+    }
+
+    const jobs = await Job.find(query)
+      .populate({ path: 'studentId', select: JOB_STUDENT_FIELDS })
+      .populate('requestedBy', 'name role')
+      .sort({ createdAt: 1 });
+
+    res.json({
+      success: true,
+      data: jobs,
     });
+  } catch (error: any) {
+    console.error('Error fetching pending jobs:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
 
-    if (existingJob) {
+// Approve or reject a pending assignment. Approval checks the policy again,
+// since the department or the student may have changed in the meantime.
+export const reviewJob = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { id } = req.params;
+    const { decision, reason } = req.body;
+
+    if (!canApproveJobs(user)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to review job assignments',
+      });
+    }
+
+    if (!['approve', 'reject'].includes(decision)) {
       return res.status(400).json({
         success: false,
-        message: 'Student already assigned to this class',
+        message: 'Decision must be approve or reject',
       });
     }
 
-    // Create job assignment
-    const job = new Job({
-      studentId,
-      class: userRole,
-      sub_class: null,
-      type: 'member', // Default type
-      background: null,
-    });
+    const job = await Job.findById(id);
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Job assignment not found',
+      });
+    }
 
-    await job.save();
+    if (job.status !== 'pending') {
+      return res.status(400).json({
+        success: false,
+        message: 'Only pending job assignments can be reviewed',
+      });
+    }
 
-    // Update student's numberOfJob
-    student.numberOfJob += 1;
-    await student.save();
+    if (decision === 'approve') {
+      const student = await Student.findById(job.studentId);
+      if (!student) {
+        return res.status(404).json({
+          success: false,
+          message: 'Student not found',
+        });
+      }
+
+      const { eligible, reasons } = await checkJobEligibility(student, job.class, {
+        excludeJob: job._id as mongoose.Types.ObjectId,
+      });
+      if (!eligible) {
+        return res.status(400).json({
+          success: false,
+          message: reasons.map(item => item.message).join('; '),
+          data: { reasons },
+        });
+      }
+
+      // The term starts once approved, in the year open at that time
+      const serviceYear = await getOpenServiceYear();
+      job.status = 'active';
+      job.serviceYear = serviceYear?._id as mongoose.Types.ObjectId | undefined;
+      job.startDate = new Date();
+      student.numberOfJob += 1;
+      await student.save();
+    } else {
+      job.status = 'rejected';
+      job.endReason = reason;
+    }
+
+    job.reviewedBy = user._id;
+    job.reviewedAt = new Date();
+    await job.save();
 
-    // Populate student data for response - UPDATED TO INCLUDE ALL FIELDS
     const populatedJob = await Job.findById(job._id).populate({
       path: 'studentId',
-      select: 'firstName middleName lastName motherName phone email gender block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages attendsCourse courseName courseChurch dateOfBirth emergencyContact photo photoData isActive createdAt updatedAt numberOfJob gibyGubayeId'
+      select: JOB_STUDENT_FIELDS
     });
 
-    res.status(201).json({
+    res.json({
       success: true,
       data: populatedJob,
-      message: 'Job assigned successfully',
+      message: decision === 'approve' ? 'Job assignment approved' : 'Job assignment rejected',
     });
   } catch (error: any) {
-    console.error('Error assigning job:', error);
+    console.error('Error reviewing job:', error);
     res.status(500).json({
       success: false,
       message: error.message,
@@ -239,16 +451,17 @@ export const assignJob = async (req: Request, res: Response) => {
   }
 };
 
-// Update job sub-class, type, and background
+// Update job team (sub-class), type, and background
 export const updateJob = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
     const { sub_class, type, background } = req.body;
-    const userRole = (req as any).user?.role;
+    const user = (req as any).user;
+    const userRole = user?.role;
 
     const job = await Job.findById(id).populate({
       path: 'studentId',
-      select: 'firstName middleName lastName motherName phone email gender block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages attendsCourse courseName courseChurch dateOfBirth emergencyContact photo photoData isActive createdAt updatedAt numberOfJob gibyGubayeId'
+      select: 'firstName middleName lastName motherName phone email gender block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages attendsCourse courseName courseChurch dateOfBirth emergencyContact photo photoFileId isActive createdAt updatedAt numberOfJob gibyGubayeId'
     });
     
     if (!job) {
@@ -266,26 +479,59 @@ export const updateJob = async (req: Request, res: Response) => {
       });
     }
 
+    if (job.status === 'ended' || job.status === 'rejected') {
+      return res.status(400).json({
+        success: false,
+        message: `${job.status === 'ended' ? 'Ended' : 'Rejected'} job assignments cannot be changed`,
+      });
+    }
+
+    // team takes a team id; sub_class a team name or id. Names without a team create one.
+    const teamRef = req.body.team !== undefined ? req.body.team : sub_class;
+    let team: ITeam | null | undefined;
+    if (teamRef !== undefined) {
+      team = teamRef ? await resolveTeam(userRole, String(teamRef), { create: true, actor: user }) : null;
+      if (teamRef && !team) {
+        return res.status(404).json({
+          success: false,
+          message: 'Team not found in this department',
+        });
+      }
+
+      if (team?.capacity && String(job.team || '') !== team._id.toString()) {
+        const members = await Job.countDocuments({ team: team._id, ...ACTIVE_JOB_FILTER });
+        if (members >= team.capacity) {
+          return res.status(400).json({
+            success: false,
+            message: `${team.name} is full (${team.capacity} members)`,
+          });
+        }
+      }
+    }
+
     // Check for duplicate type in same sub-class
-    if (sub_class && type && type !== 'member') {
+    const targetTeam = team !== undefined ? team?._id : job.team;
+    const targetType = type ?? job.type;
+    if (targetTeam && targetType && targetType !== 'member') {
       // For leader, sub_leader, Secretary - only one allowed per sub-class
       const existingJobWithSameType = await Job.findOne({
         _id: { $ne: id }, // Exclude current job
         class: userRole,
-        sub_class: sub_class,
-        type: type,
+        team: targetTeam,
+        type: targetType,
+        ...ACTIVE_JOB_FILTER,
       });
 
       if (existingJobWithSameType) {
         return res.status(400).json({
           success: false,
-          message: `${type} already exists in this sub-class. Only one ${type} is allowed per sub-class.`,
+          message: `${targetType} already exists in this sub-class. Only one ${targetType} is allowed per sub-class.`,
         });
       }
     }
 
     // Update fields
-    if (sub_class !== undefined) job.sub_class = sub_class;
+    if (team !== undefined) job.set({ team: team?._id, sub_class: team?.name ?? null });
     if (type !== undefined) job.type = type;
     if (background !== undefined) job.background = background;
 
@@ -305,6 +551,59 @@ export const updateJob = async (req: Request, res: Response) => {
   }
 };
 
+// End a term before the service year closes. The record is kept as history.
+export const endJob = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const userRole = (req as any).user?.role;
+
+    const job = await Job.findById(id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        message: 'Job assignment not found',
+      });
+    }
+
+    // Verify job belongs to user's class
+    if (job.class !== userRole) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to end this job',
+      });
+    }
+
+    if (!isActiveJob(job)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Only active job assignments can be ended',
+      });
+    }
+
+    job.status = 'ended';
+    job.endedAt = new Date();
+    job.endReason = req.body.reason;
+    await job.save();
+
+    await Student.findByIdAndUpdate(job.studentId, {
+      $inc: { numberOfJob: -1 },
+    });
+
+    res.json({
+      success: true,
+      data: job,
+      message: 'Job term ended successfully',
+    });
+  } catch (error: any) {
+    console.error('Error ending job:', error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  }
+};
+
 // Delete job assignment
 export const deleteJob = async (req: Request, res: Response) => {
   try {
@@ -331,10 +630,12 @@ export const deleteJob = async (req: Request, res: Response) => {
     // Delete the job
     await Job.findByIdAndDelete(id);
 
-    // Decrement student's numberOfJob
-    await Student.findByIdAndUpdate(job.studentId, {
-      $inc: { numberOfJob: -1 },
-    });
+    // Decrement student's numberOfJob - only active jobs were counted
+    if (isActiveJob(job)) {
+      await Student.findByIdAndUpdate(job.studentId, {
+        $inc: { numberOfJob: -1 },
+      });
+    }
 
     res.json({
       success: true,
@@ -365,14 +666,14 @@ export const getAllJobsByStudentId = async (req: Request, res: Response) => {
     const jobs = await Job.find({ studentId })
       .populate({
         path: 'studentId',
-        select: 'firstName middleName lastName motherName phone email gender block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages attendsCourse courseName courseChurch dateOfBirth emergencyContact photo photoData isActive createdAt updatedAt numberOfJob gibyGubayeId'
+        select: 'firstName middleName lastName motherName phone email gender block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages attendsCourse courseName courseChurch dateOfBirth emergencyContact photo photoFileId isActive createdAt updatedAt numberOfJob gibyGubayeId'
       })
       .sort({ createdAt: -1 })
       .exec();
 
     // Get student info
     const student = await Student.findById(studentId)
-      .select('firstName middleName lastName motherName phone email gender block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages attendsCourse courseName courseChurch dateOfBirth emergencyContact photo photoData isActive createdAt updatedAt numberOfJob gibyGubayeId');
+      .select('firstName middleName lastName motherName phone email gender block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages attendsCourse courseName courseChurch dateOfBirth emergencyContact photo photoFileId isActive createdAt updatedAt numberOfJob gibyGubayeId');
     
     if (!student) {
       return res.status(404).json({
@@ -397,27 +698,40 @@ export const getAllJobsByStudentId = async (req: Request, res: Response) => {
   }
 };
 
-// Get job statistics
+// Get job statistics for the current service year, or a past one with ?serviceYear=<id or name>
 export const getJobStats = async (req: Request, res: Response) => {
   try {
     const userRole = (req as any).user?.role;
 
-    const totalJobs = await Job.countDocuments({ class: userRole });
+    let year = null;
+    if (req.query.serviceYear) {
+      year = await findServiceYear(req.query.serviceYear as string);
+      if (!year) {
+        return res.status(404).json({
+          success: false,
+          message: 'Service year not found',
+        });
+      }
+    }
+
+    const match = { class: userRole, ...serviceYearJobFilter(year) };
+
+    const totalJobs = await Job.countDocuments(match);
     const assignedWithSubClass = await Job.countDocuments({
-      class: userRole,
+      ...match,
       sub_class: { $ne: null, $exists: true },
     });
 
     // Count by sub_class
     const subClassStats = await Job.aggregate([
-      { $match: { class: userRole, sub_class: { $ne: null, $exists: true } } },
+      { $match: { ...match, sub_class: { $ne: null, $exists: true } } },
       { $group: { _id: '$sub_class', count: { $sum: 1 } } },
       { $sort: { count: -1 } },
     ]);
 
     // Count by type
     const typeStats = await Job.aggregate([
-      { $match: { class: userRole } },
+      { $match: match },
       { $group: { _id: '$type', count: { $sum: 1 } } },
       { $sort: { count: -1 } },
     ]);
@@ -425,6 +739,7 @@ export const getJobStats = async (req: Request, res: Response) => {
     res.json({
       success: true,
       data: {
+        serviceYear: year ? { _id: year._id, name: year.name, status: year.status } : null,
         totalJobs,
         assignedWithSubClass,
         withoutSubClass: totalJobs - assignedWithSubClass,
@@ -439,4 +754,163 @@ export const getJobStats = async (req: Request, res: Response) => {
       message: error.message,
     });
   }
-};
\ No newline at end of file
+};
+
+// Run a bulk job operation in one transaction. Defaults to a dry run, which
+// builds the full report and then rolls back; pass dryRun=false to apply.
+const runBulkJobOperation = async (
+  req: Request,
+  res: Response,
+  action: string,
+  operation: (session: mongoose.ClientSession) => Promise<ReturnType<typeof summarizeBulkItems> | { status: number; message: string }>
+) => {
+  const dryRunParam = req.query.dryRun ?? req.body.dryRun;
+  const dryRun = !(dryRunParam === false || dryRunParam === 'false');
+  const session = await mongoose.startSession();
+
+  try {
+    session.startTransaction();
+
+    const report = await operation(session);
+    if ('status' in report) {
+      await session.abortTransaction();
+      return res.status(report.status).json({
+        success: false,
+        message: report.message,
+      });
+    }
+
+    if (dryRun) {
+      await session.abortTransaction();
+    } else {
+      await session.commitTransaction();
+    }
+
+    res.json({
+      success: true,
+      data: { dryRun, ...report },
+      message: dryRun
+        ? `Dry run: ${report.total - report.failed} of ${report.total} students would be ${action}`
+        : `${report.total - report.failed} of ${report.total} students ${action}`,
+    });
+  } catch (error: any) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    console.error(`Error in bulk job operation (${action}):`, error);
+    res.status(500).json({
+      success: false,
+      message: error.message,
+    });
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Assign a list of students to the current user's class. Leadership may pass class.
+// Body: { students: [...], team, dryRun }
+export const bulkAssignJobs = async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  const className = teamDepartment(user, req.body.class);
+  const { students, team: teamRef } = req.body;
+
+  if (!className || !Array.isArray(students) || students.length === 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'A list of students is required',
+    });
+  }
+
+  if (students.length > MAX_BULK_STUDENTS) {
+    return res.status(400).json({
+      success: false,
+      message: `At most ${MAX_BULK_STUDENTS} students can be handled at once`,
+    });
+  }
+
+  await runBulkJobOperation(req, res, 'assigned', async session => {
+    const team = teamRef ? await resolveTeam(className, String(teamRef), { session }) : null;
+    if (teamRef && !team) return { status: 404, message: 'Team not found in this department' };
+
+    return bulkAssign(className, students, { actor: user, team, session });
+  });
+};
+
+// End a list of students' assignments in the current user's class
+// Body: { students: [...], reason, dryRun }
+export const bulkRemoveJobs = async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  const className = teamDepartment(user, req.body.class);
+  const { students, reason } = req.body;
+
+  if (!className || !Array.isArray(students) || students.length === 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'A list of students is required',
+    });
+  }
+
+  if (students.length > MAX_BULK_STUDENTS) {
+    return res.status(400).json({
+      success: false,
+      message: `At most ${MAX_BULK_STUDENTS} students can be handled at once`,
+    });
+  }
+
+  await runBulkJobOperation(req, res, 'removed', session =>
+    bulkRemove(className, students, { reason, session })
+  );
+};
+
+// Move members between classes or teams. Body: { from: { class, team },
+// to: { class, team }, students, dryRun }. Without students every member of
+// the source moves. Transfers across classes are for leadership.
+export const bulkTransferJobs = async (req: Request, res: Response) => {
+  const user = (req as any).user;
+  const { from = {}, to = {}, students } = req.body;
+  const fromClass = from.class || user?.role;
+  const toClass = to.class || fromClass;
+
+  if (students !== undefined && !Array.isArray(students)) {
+    return res.status(400).json({
+      success: false,
+      message: 'Students must be a list',
+    });
+  }
+
+  if (students && students.length > MAX_BULK_STUDENTS) {
+    return res.status(400).json({
+      success: false,
+      message: `At most ${MAX_BULK_STUDENTS} students can be handled at once`,
+    });
+  }
+
+  if (fromClass === toClass && !from.team && !to.team) {
+    return res.status(400).json({
+      success: false,
+      message: 'Source and target are the same',
+    });
+  }
+
+  const allowed = canApproveJobs(user) || (fromClass === user?.role && toClass === user?.role);
+  if (!allowed) {
+    return res.status(403).json({
+      success: false,
+      message: 'Only leadership can transfer members between departments',
+    });
+  }
+
+  await runBulkJobOperation(req, res, 'transferred', async session => {
+    const fromTeam = from.team ? await resolveTeam(fromClass, String(from.team), { session }) : null;
+    const toTeam = to.team ? await resolveTeam(toClass, String(to.team), { session }) : null;
+    if ((from.team && !fromTeam) || (to.team && !toTeam)) {
+      return { status: 404, message: 'Team not found' };
+    }
+
+    return bulkTransfer(
+      { class: fromClass, team: fromTeam },
+      { class: toClass, team: toTeam },
+      { students, actor: user, session }
+    );
+  });
+};
@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Notification from '../models/Notification';
+import { successResponse, errorResponse } from '../utils/helpers';
+
+// The caller's notifications, newest first. ?unread=true for unread only
+export const getMyNotifications = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const filter: any = { user: req.user?._id };
+    if (req.query.unread === 'true') filter.readAt = { $exists: false };
+
+    const [notifications, total, unread] = await Promise.all([
+      Notification.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      Notification.countDocuments(filter),
+      Notification.countDocuments({ user: req.user?._id, readAt: { $exists: false } })
+    ]);
+
+    successResponse(res, {
+      notifications,
+      unread,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        total,
+        limit
+      }
+    }, 'Notifications retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching notifications:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const markNotificationRead = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid notification ID', 400);
+    }
+
+    const notification = await Notification.findOneAndUpdate(
+      { _id: id, user: req.user?._id },
+      { $set: { readAt: new Date() } },
+      { new: true }
+    );
+    if (!notification) {
+      return errorResponse(res, 'Notification not found', 404);
+    }
+
+    successResponse(res, notification, 'Notification marked as read');
+  } catch (error: any) {
+    console.error('Error marking notification read:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const markAllNotificationsRead = async (req: Request, res: Response) => {
+  try {
+    const result = await Notification.updateMany(
+      { user: req.user?._id, readAt: { $exists: false } },
+      { $set: { readAt: new Date() } }
+    );
+
+    successResponse(res, { updated: result.modifiedCount }, 'Notifications marked as read');
+  } catch (error: any) {
+    console.error('Error marking notifications read:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
@@ -0,0 +1,32 @@
+import { Request, Response } from 'express';
+import { successResponse, errorResponse } from '../utils/helpers';
+import { buildOrgChart, renderDot, renderMermaid } from '../utils/orgChart';
+
+// Fellowship org chart. ?format=json (default), mermaid or dot;
+// ?families=false leaves out family leadership.
+export const getOrgChart = async (req: Request, res: Response) => {
+  try {
+    const format = ((req.query.format as string) || 'json').toLowerCase();
+    if (!['json', 'mermaid', 'dot'].includes(format)) {
+      return errorResponse(res, 'Format must be json, mermaid or dot', 400);
+    }
+
+    const chart = await buildOrgChart({ includeFamilies: req.query.families !== 'false' });
+
+    if (format === 'mermaid') {
+      res.set('Content-Type', 'text/plain; charset=utf-8');
+      res.set('Content-Disposition', 'inline; filename="org-chart.mmd"');
+      return res.send(renderMermaid(chart));
+    }
+    if (format === 'dot') {
+      res.set('Content-Type', 'text/vnd.graphviz; charset=utf-8');
+      res.set('Content-Disposition', 'inline; filename="org-chart.dot"');
+      return res.send(renderDot(chart));
+    }
+
+    successResponse(res, chart, 'Org chart retrieved successfully');
+  } catch (error: any) {
+    console.error('Error building org chart:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
@@ -0,0 +1,353 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Student, { IStudent } from '../models/Student';
+import ProfileUpdateRequest from '../models/ProfileUpdateRequest';
+import Enrollment from '../models/Enrollment';
+import { ADMIN_AREA_LEVELS } from '../models/AdminArea';
+import { successResponse, errorResponse } from '../utils/helpers';
+import { currentFieldValue, diffStudent, recordStudentChange } from '../utils/studentHistory';
+import { describeUnresolved, hasAddressInput, resolveAddress, syncAddressIds } from '../utils/adminGeography';
+
+// Fields a student may propose for their own record. Identity, academic
+// placement and lifecycle fields stay with the leaders.
+const SELF_EDITABLE_FIELDS = [
+  'phone',
+  'email',
+  'block',
+  'dorm',
+  'region',
+  'zone',
+  'wereda',
+  'kebele',
+  'church',
+  'motherTongue',
+  'additionalLanguages',
+  'attendsCourse',
+  'courseName',
+  'courseChurch',
+  'emergencyContact'
+];
+
+const COURSE_FIELDS = ['attendsCourse', 'courseName', 'courseChurch'];
+
+// Form submissions send arrays and booleans as strings
+const coerceValue = (field: string, value: any) => {
+  if (field === 'additionalLanguages' && typeof value === 'string') {
+    return value.split(',').map(lang => lang.trim()).filter(Boolean);
+  }
+  if (field === 'attendsCourse' && typeof value === 'string') {
+    return value === 'true';
+  }
+  return value;
+};
+
+const findUniqueConflict = async (studentId: mongoose.Types.ObjectId, field: string, value: any) => {
+  if ((field !== 'phone' && field !== 'email') || !value) {
+    return false;
+  }
+  return !!(await Student.exists({ [field]: value, _id: { $ne: studentId } }));
+};
+
+// Get the caller's own student record and profile requests
+export const getMyProfile = async (req: Request, res: Response) => {
+  try {
+    const studentId = req.user?.studentId;
+    if (!studentId) {
+      return errorResponse(res, 'Your account is not linked to a student record', 404);
+    }
+
+    const student = await Student.findById(studentId);
+    if (!student) {
+      return errorResponse(res, 'Linked student record not found', 404);
+    }
+
+    const requests = await ProfileUpdateRequest.find({ student: studentId })
+      .populate('reviewedBy', 'name email role')
+      .sort({ createdAt: -1 })
+      .limit(20);
+
+    successResponse(res, {
+      student,
+      editableFields: SELF_EDITABLE_FIELDS,
+      requests
+    }, 'Profile retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching own profile:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Submit proposed edits to the caller's own student record
+export const submitProfileRequest = async (req: Request, res: Response) => {
+  try {
+    const studentId = req.user?.studentId;
+    const { changes, note } = req.body;
+
+    if (!studentId) {
+      return errorResponse(res, 'Your account is not linked to a student record', 404);
+    }
+
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes) || Object.keys(changes).length === 0) {
+      return errorResponse(res, 'Changes must be an object of field values', 400);
+    }
+
+    const notAllowed = Object.keys(changes).filter(field => !SELF_EDITABLE_FIELDS.includes(field));
+    if (notAllowed.length > 0) {
+      return errorResponse(res, `These fields cannot be changed through a request: ${notAllowed.join(', ')}`, 400);
+    }
+
+    const student = await Student.findById(studentId);
+    if (!student) {
+      return errorResponse(res, 'Linked student record not found', 404);
+    }
+
+    // Course fields are derived from enrollments once the student is in the course catalog
+    const courseFields = Object.keys(changes).filter(field => COURSE_FIELDS.includes(field));
+    if (courseFields.length > 0 && await Enrollment.exists({ student: student._id })) {
+      return errorResponse(res, `These fields follow your course enrollments: ${courseFields.join(', ')}`, 400);
+    }
+
+    const pending = await ProfileUpdateRequest.exists({ student: student._id, status: 'pending' });
+    if (pending) {
+      return errorResponse(res, 'You already have a pending request. Cancel it before submitting a new one.', 400);
+    }
+
+    // Validate against the schema on a copy so nothing is saved yet
+    const draft = Student.hydrate(student.toObject());
+    const fields = Object.keys(changes);
+    for (const field of fields) {
+      draft.set(field, coerceValue(field, changes[field]));
+    }
+
+    const validationError = draft.validateSync(fields);
+    if (validationError) {
+      return errorResponse(res, validationError.message, 400);
+    }
+
+    // Proposed address parts must match the reference geography; close spellings are corrected
+    if (hasAddressInput(changes)) {
+      const address = await resolveAddress(draft);
+      if (!address.resolved) {
+        return errorResponse(res, describeUnresolved(address).join(' '), 400);
+      }
+      for (const level of ADMIN_AREA_LEVELS) {
+        if (fields.includes(level)) {
+          draft.set(level, address.values[level]);
+        }
+      }
+    }
+
+    const proposedChanges = [];
+    for (const field of fields) {
+      const current = currentFieldValue(student, field);
+      const proposed = currentFieldValue(draft, field);
+
+      if (JSON.stringify(current) === JSON.stringify(proposed)) continue;
+
+      if (await findUniqueConflict(student._id as mongoose.Types.ObjectId, field, proposed)) {
+        return errorResponse(res, `Another student already uses this ${field}`, 400);
+      }
+
+      proposedChanges.push({ field, current, proposed });
+    }
+
+    if (proposedChanges.length === 0) {
+      return errorResponse(res, 'The proposed values match your current profile', 400);
+    }
+
+    const request = await ProfileUpdateRequest.create({
+      student: student._id,
+      requestedBy: req.user?._id,
+      changes: proposedChanges,
+      note
+    });
+
+    successResponse(res, request, 'Profile update request submitted for review', 201);
+  } catch (error: any) {
+    console.error('Error submitting profile request:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Withdraw one of the caller's own pending requests
+export const cancelProfileRequest = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid request ID', 400);
+    }
+
+    const request = await ProfileUpdateRequest.findOne({ _id: id, requestedBy: req.user?._id });
+    if (!request) {
+      return errorResponse(res, 'Profile request not found', 404);
+    }
+
+    if (request.status !== 'pending') {
+      return errorResponse(res, `Request is already ${request.status}`, 400);
+    }
+
+    request.status = 'cancelled';
+    await request.save();
+
+    successResponse(res, request, 'Profile request cancelled');
+  } catch (error: any) {
+    console.error('Error cancelling profile request:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Get profile requests for review, oldest first
+export const getProfileRequestQueue = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as string || 'pending';
+    const search = req.query.search as string || '';
+    const skip = (page - 1) * limit;
+
+    const filter: any = {};
+    if (status !== 'all') {
+      filter.status = status;
+    }
+
+    if (search) {
+      const students = await Student.find({
+        $or: [
+          { gibyGubayeId: { $regex: search, $options: 'i' } },
+          { firstName: { $regex: search, $options: 'i' } },
+          { lastName: { $regex: search, $options: 'i' } }
+        ]
+      }).select('_id');
+      filter.student = { $in: students.map(student => student._id) };
+    }
+
+    const requests = await ProfileUpdateRequest.find(filter)
+      .populate('student', 'firstName middleName lastName gibyGubayeId batch department photo photoFileId')
+      .populate('requestedBy', 'name email phone')
+      .populate('reviewedBy', 'name email role')
+      .sort({ createdAt: status === 'pending' ? 1 : -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const totalRequests = await ProfileUpdateRequest.countDocuments(filter);
+    const totalPages = Math.ceil(totalRequests / limit);
+
+    successResponse(res, {
+      requests,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalRequests,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    }, 'Profile request queue retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching profile request queue:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Approve (apply) or reject a pending request. Approving with { fields: [...] }
+// applies only those fields. Fields edited by a leader since submission are
+// still applied but reported back as conflicts.
+export const reviewProfileRequest = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { decision, reviewNote, fields } = req.body;
+
+    if (!['approved', 'rejected'].includes(decision)) {
+      return errorResponse(res, 'Decision must be approved or rejected', 400);
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid request ID', 400);
+    }
+
+    if (decision === 'rejected' && !reviewNote) {
+      return errorResponse(res, 'A note is required when rejecting a request', 400);
+    }
+
+    const request = await ProfileUpdateRequest.findById(id);
+    if (!request) {
+      return errorResponse(res, 'Profile request not found', 404);
+    }
+
+    if (request.status !== 'pending') {
+      return errorResponse(res, `Request is already ${request.status}`, 400);
+    }
+
+    let student: IStudent | null = null;
+    let conflicts: { field: string; submittedAgainst: any; current: any }[] = [];
+    let skipped: string[] = [];
+
+    if (decision === 'approved') {
+      const target = await Student.findById(request.student);
+      if (!target) {
+        return errorResponse(res, 'Student not found', 404);
+      }
+      student = target;
+
+      let selected = Array.isArray(fields) && fields.length > 0
+        ? request.changes.filter(change => fields.includes(change.field))
+        : request.changes;
+
+      if (selected.length === 0) {
+        return errorResponse(res, 'None of the selected fields are part of this request', 400);
+      }
+
+      // The member may have enrolled since submitting; course fields then
+      // follow the enrollments and the requested values are dropped
+      if (selected.some(change => COURSE_FIELDS.includes(change.field)) && await Enrollment.exists({ student: target._id })) {
+        skipped = selected.filter(change => COURSE_FIELDS.includes(change.field)).map(change => change.field);
+        selected = selected.filter(change => !COURSE_FIELDS.includes(change.field));
+
+        if (selected.length === 0) {
+          return errorResponse(res, `These fields follow the member's course enrollments: ${skipped.join(', ')}`, 400);
+        }
+      }
+
+      conflicts = selected
+        .filter(change => JSON.stringify(currentFieldValue(target, change.field)) !== JSON.stringify(change.current))
+        .map(change => ({
+          field: change.field,
+          submittedAgainst: change.current,
+          current: currentFieldValue(target, change.field)
+        }));
+
+      const before = target.toObject();
+      for (const change of selected) {
+        target.set(change.field, change.proposed ?? undefined);
+      }
+      await syncAddressIds(target);
+      await target.save();
+
+      await recordStudentChange(target._id as mongoose.Types.ObjectId, diffStudent(before, target), {
+        action: 'update',
+        actor: req.user,
+        note: `Approved profile request ${request._id}`
+      });
+
+      request.appliedFields = selected.map(change => change.field);
+    }
+
+    request.status = decision;
+    request.reviewedBy = req.user?._id as mongoose.Types.ObjectId;
+    request.reviewedAt = new Date();
+    request.reviewNote = reviewNote || '';
+    await request.save();
+
+    successResponse(res, { request, student, conflicts, skipped }, `Profile request ${decision} successfully`);
+  } catch (error: any) {
+    console.error('Error reviewing profile request:', error);
+    if (error.code === 11000) {
+      const field = Object.keys(error.keyPattern)[0];
+      return errorResponse(res, `Another student already uses this ${field}`, 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import RetentionPolicy from '../models/RetentionPolicy';
+import RetentionRun from '../models/RetentionRun';
+import { successResponse, errorResponse } from '../utils/helpers';
+import { findRetentionCandidates, getRetentionPolicy, runRetention } from '../utils/dataRetention';
+
+// Get the retention policy and how many members it currently covers
+export const getPolicy = async (req: Request, res: Response) => {
+  try {
+    const policy = await getRetentionPolicy();
+    const { cutoff, students } = await findRetentionCandidates(policy);
+
+    successResponse(res, { ...policy, cutoff, eligibleNow: students.length }, 'Retention policy retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching retention policy:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const updatePolicy = async (req: Request, res: Response) => {
+  try {
+    const { enabled, statuses, retentionDays } = req.body;
+    const current = await getRetentionPolicy();
+
+    const policy = await RetentionPolicy.findOne({ name: 'students' }) ||
+      new RetentionPolicy({ name: 'students', ...current });
+
+    if (enabled !== undefined) policy.enabled = enabled === true || enabled === 'true';
+    if (Array.isArray(statuses)) policy.set('statuses', statuses);
+    if (retentionDays !== undefined) policy.retentionDays = Number(retentionDays);
+    policy.updatedBy = req.user?._id as mongoose.Types.ObjectId;
+    await policy.save();
+
+    successResponse(res, policy, 'Retention policy updated successfully');
+  } catch (error: any) {
+    console.error('Error updating retention policy:', error);
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Run the policy now. Defaults to a dry run; pass dryRun=false to anonymize.
+export const startRun = async (req: Request, res: Response) => {
+  try {
+    const dryRunParam = req.query.dryRun ?? req.body.dryRun;
+    const dryRun = !(dryRunParam === false || dryRunParam === 'false');
+
+    const run = await runRetention({ trigger: 'manual', dryRun, actor: req.user });
+
+    successResponse(
+      res,
+      run,
+      dryRun
+        ? `Dry run: ${run.eligible} students would be anonymized`
+        : `${run.anonymized} students anonymized, ${run.failed} failed`
+    );
+  } catch (error: any) {
+    console.error('Error running retention policy:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Past runs without their item lists
+export const getRuns = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    const runs = await RetentionRun.find()
+      .select('-items')
+      .populate('startedBy', 'name role')
+      .sort({ startedAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await RetentionRun.countDocuments();
+
+    successResponse(res, {
+      runs,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalRuns: total,
+        hasNext: page * limit < total,
+        hasPrev: page > 1
+      }
+    }, 'Retention runs retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching retention runs:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// One run with the students it processed
+export const getRun = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid run ID', 400);
+    }
+
+    const run = await RetentionRun.findById(id).populate('startedBy', 'name role');
+    if (!run) {
+      return errorResponse(res, 'Retention run not found', 404);
+    }
+
+    successResponse(res, run, 'Retention run retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching retention run:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
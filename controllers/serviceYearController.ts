@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import ServiceYear from '../models/ServiceYear';
+import Job, { ACTIVE_JOB_FILTER } from '../models/Job';
+import { successResponse, errorResponse } from '../utils/helpers';
+import {
+  CarrySelection,
+  findServiceYear,
+  getOpenServiceYear,
+  recomputeJobCounts,
+  rolloverServiceYear,
+  serviceYearJobFilter
+} from '../utils/serviceYear';
+
+const toIds = (value: any): string[] | undefined =>
+  Array.isArray(value) ? value.map(String) : undefined;
+
+export const getServiceYears = async (req: Request, res: Response) => {
+  try {
+    const years = await ServiceYear.find()
+      .populate('closedBy', 'name role')
+      .sort({ startDate: -1 });
+
+    successResponse(res, years, 'Service years retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching service years:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// One year by id or name, with its terms per class
+export const getServiceYear = async (req: Request, res: Response) => {
+  try {
+    const year = req.params.id === 'current' ? await getOpenServiceYear() : await findServiceYear(req.params.id);
+    if (!year) {
+      return errorResponse(res, 'Service year not found', 404);
+    }
+
+    const classes = await Job.aggregate([
+      { $match: serviceYearJobFilter(year) },
+      { $group: { _id: '$class', terms: { $sum: 1 }, carriedOver: { $sum: { $cond: [{ $ifNull: ['$carriedFrom', false] }, 1, 0] } } } },
+      { $sort: { _id: 1 } }
+    ]);
+
+    successResponse(res, { ...year.toJSON(), classes }, 'Service year retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching service year:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Open the first service year. Current assignments made before years
+// existed become its terms, starting when they were assigned.
+export const createServiceYear = async (req: Request, res: Response) => {
+  try {
+    const { name, startDate, endDate } = req.body;
+
+    if (await getOpenServiceYear()) {
+      return errorResponse(res, 'A service year is already open; use rollover to start the next one', 400);
+    }
+
+    const year = new ServiceYear({ name, startDate, endDate, status: 'open', createdBy: req.user?._id });
+    await year.save();
+
+    const adopted = await Job.updateMany(
+      { serviceYear: { $exists: false }, status: { $nin: ['ended', 'rejected'] } },
+      [{ $set: { serviceYear: year._id, startDate: { $ifNull: ['$startDate', '$createdAt'] } } }]
+    );
+
+    successResponse(res, { year, termsAdopted: adopted.modifiedCount }, 'Service year opened successfully', 201);
+  } catch (error: any) {
+    console.error('Error creating service year:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'A service year with this name already exists', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Rename or re-date a year; closed years are history and stay as they are
+export const updateServiceYear = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid service year ID', 400);
+    }
+
+    const year = await ServiceYear.findById(id);
+    if (!year) {
+      return errorResponse(res, 'Service year not found', 404);
+    }
+    if (year.status === 'closed') {
+      return errorResponse(res, 'Closed service years cannot be changed', 400);
+    }
+
+    for (const field of ['name', 'startDate', 'endDate'] as const) {
+      if (req.body[field] !== undefined) year.set(field, req.body[field]);
+    }
+    await year.save();
+
+    successResponse(res, year, 'Service year updated successfully');
+  } catch (error: any) {
+    console.error('Error updating service year:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'A service year with this name already exists', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Close the open year and open the next one. Defaults to a dry run; pass
+// dryRun=false to apply. Body: { name, startDate, endDate, carry: { all, jobs, students, classes, types } }
+export const rollover = async (req: Request, res: Response) => {
+  const dryRunParam = req.query.dryRun ?? req.body.dryRun;
+  const dryRun = !(dryRunParam === false || dryRunParam === 'false');
+  const { name, startDate, endDate, carry = {} } = req.body;
+
+  if (!name || !startDate || !endDate) {
+    return errorResponse(res, 'Name, start date and end date of the next service year are required', 400);
+  }
+
+  const selection: CarrySelection = {
+    all: carry.all === true || carry.all === 'true',
+    jobs: toIds(carry.jobs),
+    students: toIds(carry.students),
+    classes: toIds(carry.classes),
+    types: toIds(carry.types)
+  };
+
+  const session = await mongoose.startSession();
+
+  try {
+    session.startTransaction();
+
+    const current = await getOpenServiceYear(session);
+    if (!current) {
+      await session.abortTransaction();
+      return errorResponse(res, 'No service year is open', 400);
+    }
+
+    const report = await rolloverServiceYear(current, {
+      next: { name, startDate: new Date(startDate), endDate: new Date(endDate) },
+      carry: selection,
+      dryRun,
+      actor: req.user,
+      session
+    });
+
+    if (dryRun) {
+      await session.abortTransaction();
+    } else {
+      await session.commitTransaction();
+    }
+
+    successResponse(
+      res,
+      report,
+      dryRun
+        ? `Dry run: ${report.termsClosed} terms would close and ${report.termsCarried} carry over`
+        : `Service year ${current.name} closed; ${report.termsCarried} terms carried into ${name}`
+    );
+  } catch (error: any) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    console.error('Error rolling over service year:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'A service year with this name already exists', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Repair numberOfJob for every student from their active terms
+export const recountJobs = async (req: Request, res: Response) => {
+  try {
+    const studentsCounted = await recomputeJobCounts();
+    const activeTerms = await Job.countDocuments(ACTIVE_JOB_FILTER);
+
+    successResponse(res, { studentsCounted, activeTerms }, 'Job counts recomputed successfully');
+  } catch (error: any) {
+    console.error('Error recomputing job counts:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
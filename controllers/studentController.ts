@@ -1,6 +1,70 @@
 import { Request, Response } from 'express';
-import Student, { IStudent } from '../models/Student';
-import { generateStudentId } from '../utils/generateStudentId';
+import Student, { IStudent, STUDENT_STATUSES } from '../models/Student';
+import StudentHistory from '../models/StudentHistory';
+import Enrollment from '../models/Enrollment';
+import { generateStudentId, reserveStudentIds } from '../utils/generateStudentId';
+import { ImportRowReport, parseStudentSpreadsheet, validateStudentRows } from '../utils/studentImport';
+import {
+  EXPORT_FORMATS,
+  EXPORT_SELECT,
+  ExportFormat,
+  writeStudentsCsv,
+  writeStudentsPdf,
+  writeStudentsXlsx
+} from '../utils/studentExport';
+import { findDuplicateCandidates, mergeStudentRecords } from '../utils/studentMerge';
+import { ID_CARD_LAYOUTS, ID_CARD_SELECT, IdCardLayout, writeIdCardsPdf } from '../utils/idCard';
+import { verifyMemberCode } from '../utils/memberQr';
+import { buildMemberProfile } from '../utils/memberProfile';
+import { anonymizeStudentById, countStudentReferences } from '../utils/dataRetention';
+import {
+  buildPiiContext,
+  canSearchSensitive,
+  createExposure,
+  logSensitiveAccess,
+  maskStudentCursor
+} from '../utils/piiPolicy';
+import {
+  NON_REVERTIBLE_FIELDS,
+  currentFieldValue,
+  diffStudent,
+  recordBulkStudentChanges,
+  recordStudentChange
+} from '../utils/studentHistory';
+import {
+  TERMINAL_STATUSES,
+  applyStatusChange,
+  endStudentAssignments,
+  graduateBatch,
+  isStudentStatus
+} from '../utils/studentLifecycle';
+import { sendLegacyImage, sendStoredImage } from '../utils/imageDelivery';
+import { detectCalendar } from '../middleware/calendar';
+import {
+  describeUnresolvedPlacement,
+  getCatalogTree,
+  getPlacementStatistics,
+  hasPlacementInput,
+  placementFields,
+  resolvePlacement,
+  syncPlacementIds
+} from '../utils/academicCatalog';
+import {
+  addressFields,
+  describeUnresolved,
+  hasAddressInput,
+  resolveAddress,
+  syncAddressIds
+} from '../utils/adminGeography';
+import {
+  StoredImage,
+  deleteImageWithVariants,
+  discardStoredImage,
+  isInvalidImageError,
+  parseImageSize,
+  saveUploadedImageWithVariants,
+  selectImageFile
+} from '../utils/imageVariants';
 import mongoose from 'mongoose';
 
 // Helper functions
@@ -19,60 +83,115 @@ const errorResponse = (res: Response, message: string = 'Error', statusCode: num
   });
 };
 
-// Get all students with pagination and filtering - INCLUDES PHOTODATA
+// Build the student filter shared by the list and export endpoints.
+// Searching by phone, email or mother name is only allowed when the caller
+// may see those fields, otherwise matches would reveal masked values.
+const buildStudentFilter = (query: Request['query'], sensitiveSearch: boolean = true) => {
+  const search = query.search as string || '';
+  const university = query.university as string || '';
+  const college = query.college as string || '';
+  const department = query.department as string || '';
+  const batch = query.batch as string || '';
+  const gender = query.gender as string || '';
+  const status = query.status as string || '';
+  const region = query.region as string || '';
+  const block = query.block as string || '';
+  const dorm = query.dorm as string || '';
+
+  const filter: any = {};
+  
+  if (search) {
+    filter.$or = [
+      { gibyGubayeId: { $regex: search, $options: 'i' } },
+      { firstName: { $regex: search, $options: 'i' } },
+      { lastName: { $regex: search, $options: 'i' } },
+      ...(sensitiveSearch ? [
+        { email: { $regex: search, $options: 'i' } },
+        { phone: { $regex: search, $options: 'i' } },
+        { motherName: { $regex: search, $options: 'i' } }
+      ] : [])
+    ];
+  }
+  
+  if (university) {
+    filter.university = university;
+  }
+  
+  if (college) {
+    filter.college = college;
+  }
+  
+  if (department) {
+    filter.department = department;
+  }
+
+  // Catalog selections match every student linked to the entry, whatever the spelling
+  for (const field of ['universityId', 'collegeId', 'departmentId']) {
+    const value = query[field] as string;
+    if (value && mongoose.Types.ObjectId.isValid(value)) {
+      filter[field] = value;
+    }
+  }
+  
+  if (batch) {
+    filter.batch = batch;
+  }
+  
+  if (gender) {
+    filter.gender = gender;
+  }
+  
+  // 'active'/'inactive' keep their old meaning; other values match a lifecycle state
+  if (status === 'active' || status === 'inactive') {
+    filter.isActive = status === 'active';
+  } else if (status) {
+    filter.status = status;
+  }
+
+  if (region) {
+    filter.region = region;
+  }
+
+  if (block) {
+    filter.block = block;
+  }
+
+  if (dorm) {
+    filter.dorm = dorm;
+  }
+
+  // Students who completed a course level: ?completedCourse=<id or code>&completedLevel=2
+  const completedCourse = query.completedCourse as string || '';
+  const completedLevel = parseInt(query.completedLevel as string);
+  if (completedCourse || !isNaN(completedLevel)) {
+    const match: any = {};
+    if (completedCourse) {
+      if (mongoose.Types.ObjectId.isValid(completedCourse)) {
+        match.course = new mongoose.Types.ObjectId(completedCourse);
+      } else {
+        match.code = completedCourse.toUpperCase();
+      }
+    }
+    if (!isNaN(completedLevel)) {
+      match.level = completedLevel;
+    }
+    filter.completedCourses = { $elemMatch: match };
+  }
+
+  return filter;
+};
+
+// Get all students with pagination and filtering
 export const getAllStudents = async (req: Request, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    const search = req.query.search as string || '';
-    const university = req.query.university as string || '';
-    const college = req.query.college as string || '';
-    const department = req.query.department as string || '';
-    const batch = req.query.batch as string || '';
-    const gender = req.query.gender as string || '';
-    const status = req.query.status as string || '';
 
     const skip = (page - 1) * limit;
 
     // Build filter object
-    const filter: any = {};
-    
-    if (search) {
-      filter.$or = [
-        { gibyGubayeId: { $regex: search, $options: 'i' } },
-        { firstName: { $regex: search, $options: 'i' } },
-        { lastName: { $regex: search, $options: 'i' } },
-        { email: { $regex: search, $options: 'i' } },
-        { phone: { $regex: search, $options: 'i' } },
-        { motherName: { $regex: search, $options: 'i' } }
-      ];
-    }
-    
-    if (university) {
-      filter.university = university;
-    }
-    
-    if (college) {
-      filter.college = college;
-    }
-    
-    if (department) {
-      filter.department = department;
-    }
-    
-    if (batch) {
-      filter.batch = batch;
-    }
-    
-    if (gender) {
-      filter.gender = gender;
-    }
-    
-    if (status) {
-      filter.isActive = status === 'active';
-    }
+    const filter = buildStudentFilter(req.query, canSearchSensitive(req.user));
 
-    // CHANGED: Include photoData for admin panel
     const students = await Student.find(filter)
       .sort({ createdAt: -1 })
       .skip(skip)
@@ -97,7 +216,7 @@ export const getAllStudents = async (req: Request, res: Response) => {
   }
 };
 
-// Get single student - INCLUDES PHOTODATA
+// Get single student
 export const getStudent = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -110,13 +229,11 @@ export const getStudent = async (req: Request, res: Response) => {
 
     // Check if the ID is a valid MongoDB ObjectId
     if (mongoose.Types.ObjectId.isValid(id)) {
-      // CHANGED: Include photoData for single student view
       student = await Student.findById(id);
     }
     
     // If not found by _id, try by gibyGubayeId
     if (!student) {
-      // CHANGED: Include photoData for single student view
       student = await Student.findOne({ 
         gibyGubayeId: id
       });
@@ -133,8 +250,11 @@ export const getStudent = async (req: Request, res: Response) => {
   }
 };
 
-// Create new student - INCLUDES PHOTODATA in response
+// Create new student
 export const createStudent = async (req: Request, res: Response) => {
+  // Blobs stored for this request; removed again if the student is never saved
+  let uploaded: StoredImage | undefined;
+
   try {
     const {
       firstName,
@@ -177,20 +297,30 @@ export const createStudent = async (req: Request, res: Response) => {
       return errorResponse(res, 'Student with this email already exists', 400);
     }
 
+    // Match the placement against the academic catalog and the address against the reference geography
+    const placement = await resolvePlacement({ university, college, department });
+    if (!placement.resolved) {
+      return errorResponse(res, describeUnresolvedPlacement(placement).join(' '), 400);
+    }
+
+    const address = await resolveAddress({ region, zone, wereda, kebele });
+    if (!address.resolved) {
+      return errorResponse(res, describeUnresolved(address).join(' '), 400);
+    }
+
     // Generate student ID
     const gibyGubayeId = await generateStudentId(batch);
 
     // Handle photo upload
     let photo = '';
-    let photoData = undefined;
+    let photoFileId = undefined;
+    let photoVariants = undefined;
     
     if (req.file) {
-      // Store actual data in photoData field
-      photoData = {
-        data: req.file.buffer,
-        contentType: req.file.mimetype,
-        fileName: req.file.originalname
-      };
+      // Store the stripped image and its resized variants in the blob store
+      uploaded = await saveUploadedImageWithVariants(req.file, 'student-photo');
+      photoFileId = uploaded.fileId;
+      photoVariants = uploaded.variants;
       
       // Keep the old URL format for frontend compatibility
       photo = `/uploads/students/${Date.now()}-${Math.random().toString(36).substring(2)}-${req.file.originalname}`;
@@ -217,14 +347,9 @@ export const createStudent = async (req: Request, res: Response) => {
       gender,
       block,
       dorm,
-      university,
-      college,
-      department,
+      ...placementFields(placement),
       batch,
-      region,
-      zone,
-      wereda,
-      kebele,
+      ...addressFields(address),
       church,
       authority,
       job,
@@ -237,16 +362,26 @@ export const createStudent = async (req: Request, res: Response) => {
       dateOfBirth: new Date(dateOfBirth),
       emergencyContact,
       photo, // Keep for frontend
-      photoData, // Store actual data
+      photoFileId, // Image bytes in the blob store
+      photoVariants,
       isActive: true
     });
 
     await newStudent.save();
+    uploaded = undefined; // The student owns the photo now
+
+    await recordStudentChange(newStudent._id as mongoose.Types.ObjectId, diffStudent({}, newStudent), {
+      action: 'create',
+      actor: req.user
+    });
     
-    // CHANGED: Return with photoData for immediate display
     successResponse(res, newStudent, 'Student created successfully');
   } catch (error: any) {
     console.error('Error creating student:', error);
+    await discardStoredImage(uploaded);
+    if (isInvalidImageError(error)) {
+      return errorResponse(res, 'Invalid image', 400);
+    }
     if (error.code === 11000) {
       const field = Object.keys(error.keyPattern)[0];
       return errorResponse(res, `Student with this ${field} already exists`, 400);
@@ -255,8 +390,11 @@ export const createStudent = async (req: Request, res: Response) => {
   }
 };
 
-// Update student - INCLUDES PHOTODATA in response
+// Update student
 export const updateStudent = async (req: Request, res: Response) => {
+  // Blobs stored for this request; removed again if the update fails
+  let uploaded: StoredImage | undefined;
+
   try {
     const { id } = req.params;
     
@@ -269,6 +407,10 @@ export const updateStudent = async (req: Request, res: Response) => {
       return errorResponse(res, 'Student not found', 404);
     }
 
+    if (student.anonymizedAt) {
+      return errorResponse(res, 'Anonymized students cannot be edited', 409);
+    }
+
     // Check for duplicate phone/email if changed
     const { phone, email } = req.body;
     
@@ -286,14 +428,83 @@ export const updateStudent = async (req: Request, res: Response) => {
       }
     }
 
+    // Never let the client write image fields directly
+    delete req.body.photoData;
+    delete req.body.photoFileId;
+    delete req.body.photoVariants;
+
+    // Lifecycle changes go through updateStudentStatus so they are recorded
+    delete req.body.status;
+    delete req.body.statusHistory;
+    delete req.body.statusEffectiveDate;
+    delete req.body.statusReason;
+    delete req.body.isActive;
+
+    // Catalog and area IDs are derived from the placement and address text
+    delete req.body.universityId;
+    delete req.body.collegeId;
+    delete req.body.departmentId;
+    delete req.body.regionId;
+    delete req.body.zoneId;
+    delete req.body.weredaId;
+    delete req.body.kebeleId;
+
+    // Assigned by the system: the ID at creation, the job count by job
+    // assignments, the anonymization marker by the retention tools
+    delete req.body.gibyGubayeId;
+    delete req.body.numberOfJob;
+    delete req.body.anonymizedAt;
+    delete req.body.anonymizationReason;
+
     // Handle photo upload
+    const update: any = {};
+
+    if (hasPlacementInput(req.body)) {
+      const placement = await resolvePlacement({
+        university: req.body.university ?? student.university,
+        college: req.body.college ?? student.college,
+        department: req.body.department ?? student.department
+      });
+      if (!placement.resolved) {
+        return errorResponse(res, describeUnresolvedPlacement(placement).join(' '), 400);
+      }
+
+      for (const [field, value] of Object.entries(placementFields(placement))) {
+        if (value !== undefined) {
+          req.body[field] = value;
+        } else {
+          update.$unset = { ...update.$unset, [field]: 1 };
+        }
+      }
+    }
+
+    if (hasAddressInput(req.body)) {
+      const address = await resolveAddress({
+        region: req.body.region ?? student.region,
+        zone: req.body.zone ?? student.zone,
+        wereda: req.body.wereda ?? student.wereda,
+        kebele: req.body.kebele ?? student.kebele
+      });
+      if (!address.resolved) {
+        return errorResponse(res, describeUnresolved(address).join(' '), 400);
+      }
+
+      const fields = addressFields(address);
+      for (const [field, value] of Object.entries(fields)) {
+        if (value !== undefined) {
+          req.body[field] = value;
+        } else {
+          update.$unset = { ...update.$unset, [field]: 1 };
+        }
+      }
+    }
+
     if (req.file) {
-      // Store actual data
-      req.body.photoData = {
-        data: req.file.buffer,
-        contentType: req.file.mimetype,
-        fileName: req.file.originalname
-      };
+      // Store the image and its variants in the blob store and drop any legacy embedded copy
+      uploaded = await saveUploadedImageWithVariants(req.file, 'student-photo');
+      req.body.photoFileId = uploaded.fileId;
+      req.body.photoVariants = uploaded.variants;
+      update.$unset = { ...update.$unset, photoData: 1 };
       
       // Keep old URL format
       req.body.photo = `/uploads/students/${Date.now()}-${Math.random().toString(36).substring(2)}-${req.file.originalname}`;
@@ -311,21 +522,43 @@ export const updateStudent = async (req: Request, res: Response) => {
       }
     }
 
+    // Course fields follow the enrollments once a student is in the course catalog
+    delete req.body.completedCourses;
+    if (await Enrollment.exists({ student: student._id })) {
+      delete req.body.attendsCourse;
+      delete req.body.courseName;
+      delete req.body.courseChurch;
+    }
+
     // Handle attendsCourse
     if (req.body.attendsCourse !== undefined) {
       req.body.attendsCourse = req.body.attendsCourse === 'true' || req.body.attendsCourse === true;
     }
 
-    // CHANGED: Include photoData in response
     const updatedStudent = await Student.findByIdAndUpdate(
       id,
-      { ...req.body },
+      { ...req.body, ...update },
       { new: true, runValidators: true }
     );
+    uploaded = undefined; // The student owns the photo now
+
+    await recordStudentChange(student._id as mongoose.Types.ObjectId, diffStudent(student, updatedStudent), {
+      action: 'update',
+      actor: req.user
+    });
+
+    // Remove the replaced image from the blob store
+    if (req.file) {
+      await deleteImageWithVariants(student.photoFileId, student.photoVariants);
+    }
 
     successResponse(res, updatedStudent, 'Student updated successfully');
   } catch (error: any) {
     console.error('Error updating student:', error);
+    await discardStoredImage(uploaded);
+    if (isInvalidImageError(error)) {
+      return errorResponse(res, 'Invalid image', 400);
+    }
     if (error.code === 11000) {
       const field = Object.keys(error.keyPattern)[0];
       return errorResponse(res, `Student with this ${field} already exists`, 400);
@@ -334,6 +567,39 @@ export const updateStudent = async (req: Request, res: Response) => {
   }
 };
 
+// Stream a student's photo from the blob store, falling back to the
+// embedded legacy buffer for records the migration has not reached yet
+const sendStudentPhoto = async (req: Request, res: Response, student: IStudent | null) => {
+  const size = parseImageSize(req.query.size);
+  if (!size) {
+    errorResponse(res, 'Size must be one of thumb, medium or original', 400);
+    return;
+  }
+
+  const fileId = selectImageFile(req, size, student?.photoFileId, student?.photoVariants);
+  if (size !== 'original') {
+    res.set('Vary', 'Accept');
+  }
+
+  if (fileId && await sendStoredImage(req, res, fileId)) {
+    return;
+  }
+
+  const legacy = student
+    ? await Student.findById(student._id).select('+photoData.data')
+    : null;
+
+  if (!legacy || !legacy.photoData || !legacy.photoData.data) {
+    res.status(404).json({ 
+      success: false, 
+      message: 'Photo not found' 
+    });
+    return;
+  }
+
+  sendLegacyImage(req, res, legacy.photoData, legacy._id.toString(), legacy.updatedAt);
+};
+
 // Serve student photo (handles old URL format)
 export const serveStudentPhoto = async (req: Request, res: Response) => {
   try {
@@ -341,18 +607,8 @@ export const serveStudentPhoto = async (req: Request, res: Response) => {
     
     // Find student by photo URL (exact match)
     const student = await Student.findOne({ photo: `/uploads/students/${filename}` });
-    
-    if (!student || !student.photoData || !student.photoData.data) {
-      return res.status(404).json({ 
-        success: false, 
-        message: 'Photo not found' 
-      });
-    }
 
-    // Set proper headers and send the image
-    res.set('Content-Type', student.photoData.contentType);
-    res.set('Cache-Control', 'public, max-age=31536000'); // Cache for 1 year
-    res.send(student.photoData.data);
+    await sendStudentPhoto(req, res, student);
   } catch (error: any) {
     console.error('Error serving student photo:', error);
     res.status(500).json({ 
@@ -366,19 +622,14 @@ export const serveStudentPhoto = async (req: Request, res: Response) => {
 export const getStudentPhotoById = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid student ID', 400);
+    }
     
     const student = await Student.findById(id);
-    
-    if (!student || !student.photoData || !student.photoData.data) {
-      return res.status(404).json({ 
-        success: false, 
-        message: 'Photo not found' 
-      });
-    }
 
-    res.set('Content-Type', student.photoData.contentType);
-    res.set('Cache-Control', 'public, max-age=31536000');
-    res.send(student.photoData.data);
+    await sendStudentPhoto(req, res, student);
   } catch (error: any) {
     console.error('Error fetching student photo:', error);
     res.status(500).json({ 
@@ -388,33 +639,124 @@ export const getStudentPhotoById = async (req: Request, res: Response) => {
   }
 };
 
-// Update student status - INCLUDES PHOTODATA
+// Update student status. Accepts { status, effectiveDate, reason } or the
+// legacy { isActive } toggle. Graduating, transferring or recording a death
+// ends the student's job assignments and family roles.
 export const updateStudentStatus = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { isActive } = req.body;
+    const { isActive, effectiveDate, reason } = req.body;
+    let { status } = req.body;
 
-    if (typeof isActive !== 'boolean') {
-      return errorResponse(res, 'isActive must be a boolean value', 400);
+    if (status === undefined && typeof isActive === 'boolean') {
+      status = isActive ? 'active' : 'inactive';
+    }
+
+    if (!isStudentStatus(status)) {
+      return errorResponse(res, `Status must be one of: ${STUDENT_STATUSES.join(', ')}`, 400);
     }
 
     if (!mongoose.Types.ObjectId.isValid(id)) {
       return errorResponse(res, 'Invalid student ID', 400);
     }
 
-    // CHANGED: Include photoData in response
-    const student = await Student.findByIdAndUpdate(
-      id,
-      { isActive },
-      { new: true, runValidators: true }
-    );
+    const effective = effectiveDate ? new Date(effectiveDate) : new Date();
+    if (isNaN(effective.getTime())) {
+      return errorResponse(res, 'Invalid effective date', 400);
+    }
 
-    if (!student) {
-      return errorResponse(res, 'Student not found', 404);
+    const session = await mongoose.startSession();
+
+    try {
+      session.startTransaction();
+
+      const student = await Student.findById(id).session(session);
+      if (!student) {
+        await session.abortTransaction();
+        return errorResponse(res, 'Student not found', 404);
+      }
+
+      // isActive is checked too - records not yet migrated default to 'active'
+      if (student.status === status && student.isActive === (status === 'active')) {
+        await session.abortTransaction();
+        return errorResponse(res, `Student is already ${status}`, 400);
+      }
+
+      const before = student.toObject();
+      applyStatusChange(student, {
+        status,
+        effectiveDate: effective,
+        reason,
+        changedBy: (req as any).user?._id
+      });
+      await student.save({ session });
+
+      await recordStudentChange(student._id as mongoose.Types.ObjectId, diffStudent(before, student), {
+        action: 'status',
+        actor: req.user,
+        session
+      });
+
+      let ended = null;
+      if (TERMINAL_STATUSES.includes(status)) {
+        ended = await endStudentAssignments([student._id as mongoose.Types.ObjectId], {
+          endedAt: effective,
+          reason: reason || `Student ${status}`,
+          session
+        });
+        student.numberOfJob = 0;
+      }
+
+      await session.commitTransaction();
+
+      successResponse(res, { student, ended }, `Student status changed to ${status}`);
+    } catch (error: any) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
     }
+  } catch (error: any) {
+    errorResponse(res, error.message, 500);
+  }
+};
 
-    successResponse(res, student, `Student ${isActive ? 'activated' : 'deactivated'} successfully`);
+// Graduate all active students of a batch, ending their job assignments and family roles
+export const graduateStudentBatch = async (req: Request, res: Response) => {
+  try {
+    const { batch, effectiveDate, reason } = req.body;
+
+    if (!batch) {
+      return errorResponse(res, 'Batch is required', 400);
+    }
+
+    const effective = effectiveDate ? new Date(effectiveDate) : new Date();
+    if (isNaN(effective.getTime())) {
+      return errorResponse(res, 'Invalid effective date', 400);
+    }
+
+    const session = await mongoose.startSession();
+
+    try {
+      session.startTransaction();
+
+      const result = await graduateBatch(String(batch), {
+        effectiveDate: effective,
+        reason,
+        actor: req.user
+      }, session);
+
+      await session.commitTransaction();
+
+      successResponse(res, result, `${result.graduated} students graduated from batch ${batch}`);
+    } catch (error: any) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      session.endSession();
+    }
   } catch (error: any) {
+    console.error('Error graduating batch:', error);
     errorResponse(res, error.message, 500);
   }
 };
@@ -433,53 +775,79 @@ export const deleteStudent = async (req: Request, res: Response) => {
       return errorResponse(res, 'Student not found', 404);
     }
 
+    // Deleting would leave dangling jobs, family slots and agenda contributors
+    const references = await countStudentReferences(student._id as mongoose.Types.ObjectId);
+    if (references.total > 0) {
+      return res.status(409).json({
+        success: false,
+        message: 'Student is referenced by jobs, families, agendas, attendance, enrollments, department applications or team leads. Anonymize the record instead.',
+        data: references
+      });
+    }
+
     await Student.findByIdAndDelete(id);
 
+    await deleteImageWithVariants(student.photoFileId, student.photoVariants);
+
     successResponse(res, null, 'Student deleted successfully');
   } catch (error: any) {
     errorResponse(res, error.message, 500);
   }
 };
 
-// Get student statistics - MODIFIED to include photoData in some queries
+// Scrub a member's personal data and photo on request, keeping the record
+// for referential integrity and statistics
+export const anonymizeStudentData = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const reason = (req.body.reason as string || '').trim() || 'Erasure requested by member';
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid student ID', 400);
+    }
+
+    const student = await Student.findById(id).select('anonymizedAt');
+    if (!student) {
+      return errorResponse(res, 'Student not found', 404);
+    }
+
+    if (student.anonymizedAt) {
+      return errorResponse(res, 'Student is already anonymized', 409);
+    }
+
+    const summary = await anonymizeStudentById(id, { reason, actor: req.user });
+
+    successResponse(res, summary, 'Student anonymized successfully');
+  } catch (error: any) {
+    console.error('Error anonymizing student:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Get student statistics
 export const getStudentStatistics = async (req: Request, res: Response) => {
   try {
     const totalStudents = await Student.countDocuments();
     const activeStudents = await Student.countDocuments({ isActive: true });
     const inactiveStudents = await Student.countDocuments({ isActive: false });
-    
-    // Group by university
-    const universityStats = await Student.aggregate([
-      {
-        $group: {
-          _id: '$university',
-          count: { $sum: 1 }
-        }
-      },
-      { $sort: { count: -1 } }
-    ]);
 
-    // Group by college
-    const collegeStats = await Student.aggregate([
+    // Count per lifecycle state; records saved before status existed fall back to isActive
+    const statusAggregate = await Student.aggregate([
       {
         $group: {
-          _id: '$college',
+          _id: { $ifNull: ['$status', { $cond: ['$isActive', 'active', 'inactive'] }] },
           count: { $sum: 1 }
         }
-      },
-      { $sort: { count: -1 } }
-    ]);
-
-    // Group by department
-    const departmentStats = await Student.aggregate([
-      {
-        $group: {
-          _id: '$department',
-          count: { $sum: 1 }
-        }
-      },
-      { $sort: { count: -1 } }
+      }
     ]);
+    const statusCounts: Record<string, number> = Object.fromEntries(STUDENT_STATUSES.map(status => [status, 0]));
+    for (const { _id, count } of statusAggregate) {
+      statusCounts[_id] = count;
+    }
+    
+    // Group by university, college and department, counting spelling variants
+    // of the same catalog entry together
+    const { universityStats, collegeStats, departmentStats } = await getPlacementStatistics();
 
     // Group by batch
     const batchStats = await Student.aggregate([
@@ -513,16 +881,17 @@ export const getStudentStatistics = async (req: Request, res: Response) => {
       { $sort: { count: -1 } }
     ]);
 
-    // Recent students - INCLUDES PHOTODATA for admin panel
+    // Recent students
     const recentStudents = await Student.find()
       .sort({ createdAt: -1 })
       .limit(5)
-      .select('firstName lastName gibyGubayeId photo photoData createdAt isActive');
+      .select('firstName lastName gibyGubayeId photo photoFileId createdAt isActive');
 
     successResponse(res, {
       totalStudents,
       activeStudents,
       inactiveStudents,
+      statusCounts,
       universityStats,
       collegeStats,
       departmentStats,
@@ -539,20 +908,540 @@ export const getStudentStatistics = async (req: Request, res: Response) => {
 // Get unique values for filters
 export const getFilterOptions = async (req: Request, res: Response) => {
   try {
-    const universities = await Student.distinct('university');
-    const colleges = await Student.distinct('college');
-    const departments = await Student.distinct('department');
+    // Placement options come from the catalog once it has entries
+    const catalog = await getCatalogTree();
+    const universities = catalog.length > 0
+      ? catalog.map(university => university.name)
+      : await Student.distinct('university');
+    const colleges = catalog.length > 0
+      ? catalog.flatMap(university => university.colleges.map(college => college.name))
+      : await Student.distinct('college');
+    const departments = catalog.length > 0
+      ? catalog.flatMap(university => university.colleges.flatMap(college => college.departments.map(department => department.name)))
+      : await Student.distinct('department');
     const batches = await Student.distinct('batch');
     const regions = await Student.distinct('region');
+    const blocks = await Student.distinct('block');
+    const dorms = await Student.distinct('dorm');
 
     successResponse(res, {
-      universities: universities.filter(Boolean).sort(),
-      colleges: colleges.filter(Boolean).sort(),
-      departments: departments.filter(Boolean).sort(),
+      universities: Array.from(new Set(universities.filter(Boolean))).sort(),
+      colleges: Array.from(new Set(colleges.filter(Boolean))).sort(),
+      departments: Array.from(new Set(departments.filter(Boolean))).sort(),
+      catalog,
       batches: batches.filter(Boolean).sort(),
-      regions: regions.filter(Boolean).sort()
+      regions: regions.filter(Boolean).sort(),
+      blocks: blocks.filter(Boolean).sort(),
+      dorms: dorms.filter(Boolean).sort()
     }, 'Filter options retrieved successfully');
   } catch (error: any) {
     errorResponse(res, error.message, 500);
   }
-};
\ No newline at end of file
+};
+// Bulk import students from a CSV/XLSX file. Runs as a dry run unless dryRun=false is sent,
+// in which case every valid row is committed in one batch and invalid rows are skipped.
+export const importStudents = async (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      return errorResponse(res, 'A CSV or XLSX file is required', 400);
+    }
+
+    const dryRunParam = (req.query.dryRun ?? req.body.dryRun) as string | boolean | undefined;
+    const dryRun = !(dryRunParam === false || dryRunParam === 'false');
+
+    const { rows, unknownHeaders } = await parseStudentSpreadsheet(req.file);
+
+    if (rows.length === 0) {
+      return errorResponse(res, 'The uploaded file does not contain any student rows', 400);
+    }
+
+    // ?calendar=ethiopian reads dateOfBirth and batch columns as Ethiopian
+    const reports = await validateStudentRows(rows, detectCalendar(req));
+    const validReports = reports.filter(report => report.valid);
+
+    const summary = {
+      totalRows: reports.length,
+      validRows: validReports.length,
+      invalidRows: reports.length - validReports.length,
+      unknownHeaders
+    };
+
+    const errorReport = reports
+      .filter(report => !report.valid)
+      .map(({ row, errors }) => ({ row, errors }));
+
+    if (dryRun || validReports.length === 0) {
+      return successResponse(res, {
+        dryRun,
+        summary,
+        errors: errorReport
+      }, dryRun ? 'Import validated successfully' : 'No valid rows to import');
+    }
+
+    // Reserve IDs in one step per batch so each batch gets a consecutive range
+    const rowsByBatch = new Map<string, ImportRowReport[]>();
+    for (const report of validReports) {
+      rowsByBatch.set(report.data.batch, [...(rowsByBatch.get(report.data.batch) || []), report]);
+    }
+
+    const reservedIds = new Map<ImportRowReport, string>();
+    for (const [batch, batchReports] of rowsByBatch) {
+      const ids = await reserveStudentIds(batch, batchReports.length);
+      batchReports.forEach((report, index) => reservedIds.set(report, ids[index]));
+    }
+
+    const docs = validReports.map(report => ({
+      ...report.data,
+      gibyGubayeId: reservedIds.get(report)
+    }));
+
+    let inserted: any[] = [];
+    const failed: { row: number; errors: string[] }[] = [];
+
+    try {
+      inserted = await Student.insertMany(docs, { ordered: false });
+    } catch (error: any) {
+      if (!error.writeErrors) {
+        throw error;
+      }
+
+      inserted = error.insertedDocs || [];
+      for (const writeError of error.writeErrors) {
+        failed.push({
+          row: validReports[writeError.index].row,
+          errors: [writeError.errmsg || writeError.err?.errmsg || 'Failed to insert row']
+        });
+      }
+    }
+
+    await recordBulkStudentChanges(
+      inserted.map((student: any) => ({ student: student._id, changes: diffStudent({}, student) })),
+      { action: 'import', actor: req.user, note: req.file.originalname }
+    );
+
+    successResponse(res, {
+      dryRun,
+      summary: {
+        ...summary,
+        importedRows: inserted.length,
+        failedRows: failed.length
+      },
+      errors: [...errorReport, ...failed].sort((a, b) => a.row - b.row),
+      imported: inserted.map((student: any) => ({
+        _id: student._id,
+        gibyGubayeId: student.gibyGubayeId,
+        firstName: student.firstName,
+        lastName: student.lastName
+      }))
+    }, `${inserted.length} students imported successfully`, 201);
+  } catch (error: any) {
+    console.error('Error importing students:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Export a filtered student roster as CSV, XLSX or a printable PDF.
+// Accepts the same filters as getAllStudents and streams the result.
+export const exportStudents = async (req: Request, res: Response) => {
+  let studentCursor: mongoose.Cursor<any, any> | undefined;
+
+  try {
+    const format = (req.query.format as string || 'csv').toLowerCase() as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return errorResponse(res, `Format must be one of: ${EXPORT_FORMATS.join(', ')}`, 400);
+    }
+
+    const filter = buildStudentFilter(req.query, canSearchSensitive(req.user));
+    const exposure = createExposure();
+    const queryCursor = Student.find(filter)
+      .select(EXPORT_SELECT)
+      .sort({ batch: 1, firstName: 1, lastName: 1 })
+      .lean()
+      .cursor();
+    studentCursor = queryCursor;
+    const cursor = maskStudentCursor(
+      queryCursor,
+      await buildPiiContext(req.user),
+      exposure
+    );
+
+    const fileName = `students-${new Date().toISOString().slice(0, 10)}.${format}`;
+    res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+
+    if (format === 'csv') {
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      await writeStudentsCsv(cursor, res);
+    } else if (format === 'xlsx') {
+      res.set('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      await writeStudentsXlsx(cursor, res);
+    } else {
+      const appliedFilters = ['university', 'college', 'department', 'batch', 'gender', 'status', 'region', 'block', 'dorm']
+        .filter(key => req.query[key])
+        .map(key => `${key}: ${req.query[key]}`);
+
+      res.set('Content-Type', 'application/pdf');
+      await writeStudentsPdf(
+        cursor,
+        res,
+        'Giby Gubaye Student Roster',
+        appliedFilters.length > 0 ? appliedFilters.join(' | ') : 'All students'
+      );
+    }
+
+    logSensitiveAccess(req, exposure);
+  } catch (error: any) {
+    console.error('Error exporting students:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    errorResponse(res, error.message, 500);
+  } finally {
+    // A client that left mid-export stops the loop early; free the server cursor
+    await studentCursor?.close().catch(() => undefined);
+  }
+};
+
+// Print a single member ID card. ?layout=card (default) or sheet
+export const getStudentIdCard = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const layout = (req.query.layout as string || 'card') as IdCardLayout;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid student ID', 400);
+    }
+
+    if (!ID_CARD_LAYOUTS.includes(layout)) {
+      return errorResponse(res, `Layout must be one of: ${ID_CARD_LAYOUTS.join(', ')}`, 400);
+    }
+
+    const student = await Student.findById(id).select(ID_CARD_SELECT).lean();
+    if (!student) {
+      return errorResponse(res, 'Student not found', 404);
+    }
+
+    if (!student.isActive) {
+      return errorResponse(res, 'ID cards can only be issued to active students', 400);
+    }
+
+    const fileName = `id-card-${student.gibyGubayeId.replace(/\//g, '-')}.pdf`;
+    res.set('Content-Type', 'application/pdf');
+    res.set('Content-Disposition', `inline; filename="${fileName}"`);
+    await writeIdCardsPdf([student], res, layout);
+  } catch (error: any) {
+    console.error('Error generating ID card:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Print ID cards for a whole batch. Accepts the list filters; batch is required
+// and only active students are included unless ?status= says otherwise.
+export const getBatchIdCards = async (req: Request, res: Response) => {
+  try {
+    const batch = req.query.batch as string || '';
+    const layout = (req.query.layout as string || 'sheet') as IdCardLayout;
+
+    if (!batch) {
+      return errorResponse(res, 'Batch is required', 400);
+    }
+
+    if (!ID_CARD_LAYOUTS.includes(layout)) {
+      return errorResponse(res, `Layout must be one of: ${ID_CARD_LAYOUTS.join(', ')}`, 400);
+    }
+
+    const filter = buildStudentFilter({ status: 'active', ...req.query });
+    const cursor = Student.find(filter)
+      .select(ID_CARD_SELECT)
+      .sort({ firstName: 1, lastName: 1 })
+      .lean()
+      .cursor();
+
+    res.set('Content-Type', 'application/pdf');
+    res.set('Content-Disposition', `attachment; filename="id-cards-${batch}.pdf"`);
+    await writeIdCardsPdf(cursor, res, layout);
+  } catch (error: any) {
+    console.error('Error generating batch ID cards:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Public check of a scanned ID card QR code. Only confirms identity and
+// membership status - no contact details are returned.
+export const verifyMemberCard = async (req: Request, res: Response) => {
+  try {
+    const code = req.query.code as string || '';
+
+    if (!code) {
+      return errorResponse(res, 'Code is required', 400);
+    }
+
+    const gibyGubayeId = verifyMemberCode(code);
+    if (!gibyGubayeId) {
+      return errorResponse(res, 'Invalid or tampered member code', 400);
+    }
+
+    const student = await Student.findOne({ gibyGubayeId })
+      .select('gibyGubayeId firstName middleName lastName department batch isActive photoFileId');
+
+    if (!student) {
+      return errorResponse(res, 'Member not found', 404);
+    }
+
+    successResponse(res, {
+      valid: true,
+      active: student.isActive,
+      gibyGubayeId: student.gibyGubayeId,
+      name: [student.firstName, student.middleName, student.lastName].filter(Boolean).join(' '),
+      department: student.department,
+      batch: student.batch,
+      photoUrl: student.photoFileId ? `/api/students/${student._id}/photo?size=thumb` : null
+    }, student.isActive ? 'Active member' : 'Member is not active');
+  } catch (error: any) {
+    console.error('Error verifying member card:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Get one member's record with their account, jobs, family positions, agenda
+// contributions and transactions. Sections follow the caller's role.
+export const getStudentProfile = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid student ID', 400);
+    }
+
+    const profile = await buildMemberProfile(new mongoose.Types.ObjectId(id), req.user);
+    if (!profile) {
+      return errorResponse(res, 'Student not found', 404);
+    }
+
+    successResponse(res, profile, 'Member profile retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching member profile:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Get the change history of a student, newest first. ?field= narrows to one field.
+export const getStudentHistory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const field = req.query.field as string || '';
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid student ID', 400);
+    }
+
+    const filter: any = { student: id };
+    if (field) {
+      filter['changes.field'] = field;
+    }
+
+    const entries = await StudentHistory.find(filter)
+      .populate('changedBy', 'name email role')
+      .sort({ version: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean();
+
+    const total = await StudentHistory.countDocuments(filter);
+
+    // Only show the requested field inside each entry
+    const history = field
+      ? entries.map(entry => ({ ...entry, changes: entry.changes.filter(change => change.field === field) }))
+      : entries;
+
+    successResponse(res, {
+      history,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        totalEntries: total,
+        hasNext: page * limit < total,
+        hasPrev: page > 1
+      }
+    }, 'Student history retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching student history:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Restore the "before" values of a history entry. Send { fields: [...] } to
+// revert only some of them. A field that changed again since the entry is a
+// conflict and needs { force: true }.
+export const revertStudentHistory = async (req: Request, res: Response) => {
+  try {
+    const { id, historyId } = req.params;
+    const { force } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(historyId)) {
+      return errorResponse(res, 'Invalid student or history ID', 400);
+    }
+
+    const entry = await StudentHistory.findOne({ _id: historyId, student: id });
+    if (!entry) {
+      return errorResponse(res, 'History entry not found', 404);
+    }
+
+    if (entry.action === 'create' || entry.action === 'import') {
+      return errorResponse(res, 'A creation entry cannot be reverted', 400);
+    }
+
+    const student = await Student.findById(id);
+    if (!student) {
+      return errorResponse(res, 'Student not found', 404);
+    }
+
+    if (student.anonymizedAt) {
+      return errorResponse(res, 'Anonymized students cannot be reverted', 409);
+    }
+
+    const requested: string[] = Array.isArray(req.body.fields) && req.body.fields.length > 0
+      ? req.body.fields
+      : entry.changes.map(change => change.field);
+
+    const unknown = requested.filter(field => !entry.changes.some(change => change.field === field));
+    if (unknown.length > 0) {
+      return errorResponse(res, `Fields not changed in this entry: ${unknown.join(', ')}`, 400);
+    }
+
+    const blocked = requested.filter(field => NON_REVERTIBLE_FIELDS.includes(field));
+    const changes = entry.changes.filter(change =>
+      requested.includes(change.field) && !NON_REVERTIBLE_FIELDS.includes(change.field)
+    );
+
+    if (changes.length === 0) {
+      return errorResponse(res, `None of the requested fields can be reverted: ${blocked.join(', ')}`, 400);
+    }
+
+    const conflicts = changes
+      .filter(change => JSON.stringify(currentFieldValue(student, change.field)) !== JSON.stringify(change.after))
+      .map(change => ({
+        field: change.field,
+        expected: change.after,
+        current: currentFieldValue(student, change.field)
+      }));
+
+    if (conflicts.length > 0 && !force) {
+      return res.status(409).json({
+        success: false,
+        message: 'Some fields have changed since this entry. Send force: true to revert anyway.',
+        data: { conflicts }
+      });
+    }
+
+    const before = student.toObject();
+    for (const change of changes) {
+      student.set(change.field, change.before ?? undefined);
+    }
+    await syncPlacementIds(student);
+    await syncAddressIds(student);
+    await student.save();
+
+    const revertEntry = await recordStudentChange(student._id as mongoose.Types.ObjectId, diffStudent(before, student), {
+      action: 'revert',
+      actor: req.user,
+      revertOf: entry._id as mongoose.Types.ObjectId,
+      note: `Reverted version ${entry.version}`
+    });
+
+    successResponse(res, {
+      student,
+      reverted: changes.map(change => change.field),
+      skipped: blocked,
+      conflicts,
+      history: revertEntry
+    }, 'Student fields reverted successfully');
+  } catch (error: any) {
+    console.error('Error reverting student history:', error);
+    if (error.code === 11000) {
+      const field = Object.keys(error.keyPattern)[0];
+      return errorResponse(res, `Another student already uses this ${field}`, 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Get likely duplicate registrations using fuzzy name and birth date matching
+export const getDuplicateCandidates = async (req: Request, res: Response) => {
+  try {
+    const threshold = Math.min(Math.max(parseFloat(req.query.threshold as string) || 0.85, 0.5), 1);
+    const limit = parseInt(req.query.limit as string) || 100;
+
+    const filter = buildStudentFilter(req.query, canSearchSensitive(req.user));
+    const candidates = await findDuplicateCandidates(filter, threshold);
+
+    successResponse(res, {
+      threshold,
+      totalCandidates: candidates.length,
+      candidates: candidates.slice(0, limit)
+    }, 'Duplicate candidates retrieved successfully');
+  } catch (error: any) {
+    console.error('Error finding duplicate students:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Merge a duplicate student into the surviving record
+export const mergeStudents = async (req: Request, res: Response) => {
+  try {
+    const { survivorId, duplicateId } = req.body;
+
+    if (!mongoose.Types.ObjectId.isValid(survivorId) || !mongoose.Types.ObjectId.isValid(duplicateId)) {
+      return errorResponse(res, 'Valid survivorId and duplicateId are required', 400);
+    }
+
+    if (survivorId === duplicateId) {
+      return errorResponse(res, 'Cannot merge a student into itself', 400);
+    }
+
+    const session = await mongoose.startSession();
+
+    try {
+      session.startTransaction();
+
+      const result = await mergeStudentRecords(survivorId, duplicateId, session, req.user);
+      if (!result) {
+        await session.abortTransaction();
+        return errorResponse(res, 'Both students must exist to merge', 404);
+      }
+
+      await session.commitTransaction();
+
+      // The duplicate's photo files when the survivor kept its own
+      const { photo, ...merged } = result;
+      await deleteImageWithVariants(photo.fileId, photo.variants);
+
+      successResponse(res, merged, 'Students merged successfully');
+    } catch (error: any) {
+      if (session.inTransaction()) {
+        await session.abortTransaction();
+      }
+      throw error;
+    } finally {
+      session.endSession();
+    }
+  } catch (error: any) {
+    console.error('Error merging students:', error);
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
@@ -0,0 +1,286 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Team from '../models/Team';
+import Job, { ACTIVE_JOB_FILTER } from '../models/Job';
+import { successResponse, errorResponse } from '../utils/helpers';
+import {
+  canManageTeam,
+  moveJobsToTeam,
+  resolveTeam,
+  syncTeamsFromSubClasses,
+  teamDepartment,
+  teamMemberCounts
+} from '../utils/teams';
+
+const TEAM_FIELDS = ['name', 'description', 'lead', 'capacity', 'meetingSchedule'] as const;
+
+const TEAM_MEMBER_FIELDS = 'gibyGubayeId firstName middleName lastName gender batch college department photo photoFileId';
+
+const pick = (source: Record<string, any>, fields: readonly string[]) =>
+  Object.fromEntries(fields.filter(field => source[field] !== undefined).map(field => [field, source[field]]));
+
+// The lead must be a current member of the team's department
+const validateLead = async (className: string, lead: any) => {
+  if (lead === undefined || lead === null || lead === '') return null;
+  if (!mongoose.Types.ObjectId.isValid(lead)) return 'Invalid team lead';
+  const member = await Job.exists({ studentId: lead, class: className, ...ACTIVE_JOB_FILTER });
+  return member ? null : 'The team lead must be a member of the department';
+};
+
+// Teams of the caller's department (?class= for leadership) with member counts
+export const getTeams = async (req: Request, res: Response) => {
+  try {
+    const className = teamDepartment(req.user, req.query.class as string);
+    const filter: any = { class: className };
+    if (req.query.includeInactive !== 'true') filter.isActive = true;
+
+    const teams = await Team.find(filter)
+      .populate('lead', 'gibyGubayeId firstName lastName photo photoFileId')
+      .sort({ name: 1 });
+    const counts = await teamMemberCounts(teams.map(team => team._id as mongoose.Types.ObjectId));
+
+    successResponse(res, teams.map(team => ({
+      ...team.toJSON(),
+      members: counts.get(team._id.toString()) || 0
+    })), 'Teams retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching teams:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const getTeam = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid team ID', 400);
+    }
+
+    const team = await Team.findById(id).populate('lead', 'gibyGubayeId firstName lastName photo photoFileId');
+    if (!team) {
+      return errorResponse(res, 'Team not found', 404);
+    }
+    if (!canManageTeam(req.user, team)) {
+      return errorResponse(res, 'Not authorized to view this team', 403);
+    }
+
+    const members = await Job.find({ team: team._id, ...ACTIVE_JOB_FILTER })
+      .populate('studentId', TEAM_MEMBER_FIELDS)
+      .sort({ type: 1, createdAt: 1 });
+
+    successResponse(res, { team, members }, 'Team retrieved successfully');
+  } catch (error: any) {
+    console.error('Error fetching team:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
+
+export const createTeam = async (req: Request, res: Response) => {
+  try {
+    const className = teamDepartment(req.user, req.body.class);
+
+    const leadError = await validateLead(className!, req.body.lead);
+    if (leadError) {
+      return errorResponse(res, leadError, 400);
+    }
+
+    const team = new Team({
+      ...pick(req.body, TEAM_FIELDS),
+      class: className,
+      createdBy: req.user?._id
+    });
+    await team.save();
+
+    successResponse(res, team, 'Team created successfully', 201);
+  } catch (error: any) {
+    console.error('Error creating team:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'A team with this name already exists in the department', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Edit a team. A rename is carried to its members' sub_class.
+export const updateTeam = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return errorResponse(res, 'Invalid team ID', 400);
+    }
+
+    const team = await Team.findById(id);
+    if (!team) {
+      return errorResponse(res, 'Team not found', 404);
+    }
+    if (!canManageTeam(req.user, team)) {
+      return errorResponse(res, 'Not authorized to edit this team', 403);
+    }
+    if (!team.isActive) {
+      return errorResponse(res, 'Merged teams cannot be changed', 400);
+    }
+
+    const leadError = await validateLead(team.class, req.body.lead);
+    if (leadError) {
+      return errorResponse(res, leadError, 400);
+    }
+
+    team.set(pick(req.body, TEAM_FIELDS));
+    if (req.body.lead === '' || req.body.lead === null) team.set('lead', undefined);
+    if (req.body.capacity === '' || req.body.capacity === null) team.set('capacity', undefined);
+    const renamed = team.isModified('name');
+    await team.save();
+
+    let jobsRenamed = 0;
+    if (renamed) {
+      const result = await Job.updateMany({ team: team._id }, { $set: { sub_class: team.name } });
+      jobsRenamed = result.modifiedCount;
+    }
+
+    successResponse(res, { team, jobsRenamed }, 'Team updated successfully');
+  } catch (error: any) {
+    console.error('Error updating team:', error);
+    if (error.code === 11000) {
+      return errorResponse(res, 'A team with this name already exists in the department', 400);
+    }
+    if (error.name === 'ValidationError') {
+      return errorResponse(res, error.message, 400);
+    }
+    errorResponse(res, error.message, 500);
+  }
+};
+
+// Merge a team into another of the same department. Every job, ended ones
+// included, moves to the target; the source is kept inactive as history.
+// Capacity is not enforced here, the result reports when it is exceeded.
+export const mergeTeam = async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const { into } = req.body;
+
+  if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(into)) {
+    return errorResponse(res, 'Valid source and target team IDs are required', 400);
+  }
+  if (id === into) {
+    return errorResponse(res, 'A team cannot be merged into itself', 400);
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    session.startTransaction();
+
+    // One at a time: a transaction's session cannot run operations in parallel
+    const source = await Team.findById(id).session(session);
+    const target = await Team.findById(into).session(session);
+
+    if (!source || !target || !source.isActive || !target.isActive) {
+      await session.abortTransaction();
+      return errorResponse(res, 'Both teams must exist and be active', 404);
+    }
+    if (source.class !== target.class) {
+      await session.abortTransaction();
+      return errorResponse(res, 'Only teams of the same department can be merged', 400);
+    }
+    if (!canManageTeam(req.user, source)) {
+      await session.abortTransaction();
+      return errorResponse(res, 'Not authorized to merge these teams', 403);
+    }
+
+    const moved = await Job.updateMany(
+      { team: source._id },
+      { $set: { team: target._id, sub_class: target.name } },
+      { session }
+    );
+
+    source.isActive = false;
+    source.mergedInto = target._id as mongoose.Types.ObjectId;
+    await source.save({ session });
+
+    await session.commitTransaction();
+
+    const members = (await teamMemberCounts([target._id as mongoose.Types.ObjectId])).get(target._id.toString()) || 0;
+    const warnings = target.capacity && members > target.capacity
+      ? [`${target.name} now has ${members} members, over its capacity of ${target.capacity}`]
+      : [];
+
+    successResponse(res, { team: target, jobsMoved: moved.modifiedCount, members, warnings }, `${source.name} merged into ${target.name}`);
+  } catch (error: any) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    console.error('Error merging teams:', error);
+    errorResponse(res, error.message, 500);
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Move members between teams in bulk. Body: { team: id or null, jobs: [...] }
+// or students: [...] to pick the students' jobs in the department.
+export const moveMembers = async (req: Request, res: Response) => {
+  const className = teamDepartment(req.user, req.body.class);
+  const { team: teamId, jobs = [], students = [] } = req.body;
+
+  if (!Array.isArray(jobs) || !Array.isArray(students) || jobs.length + students.length === 0) {
+    return errorResponse(res, 'Jobs or students to move are required', 400);
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    session.startTransaction();
+
+    let team = null;
+    if (teamId) {
+      team = await resolveTeam(className!, String(teamId), { session });
+      if (!team) {
+        await session.abortTransaction();
+        return errorResponse(res, 'Team not found in this department', 404);
+      }
+    }
+
+    const studentJobs = students.length > 0
+      ? await Job.find({
+        class: className,
+        studentId: { $in: students.filter((id: string) => mongoose.Types.ObjectId.isValid(id)) },
+        status: { $nin: ['ended', 'rejected'] }
+      }).select('_id').session(session)
+      : [];
+    const jobIds: string[] = Array.from(new Set([...jobs.map(String), ...studentJobs.map(job => job._id.toString())]));
+
+    const report = await moveJobsToTeam(className!, jobIds, team, session);
+    await session.commitTransaction();
+
+    successResponse(
+      res,
+      { team: team ? { _id: team._id, name: team.name } : null, ...report },
+      `${report.moved} members moved, ${report.failed} failed`
+    );
+  } catch (error: any) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    console.error('Error moving team members:', error);
+    errorResponse(res, error.message, 500);
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Turn the department's existing free-text sub-classes into teams
+export const syncTeams = async (req: Request, res: Response) => {
+  try {
+    const className = teamDepartment(req.user, req.body.class || req.query.class);
+    const result = await syncTeamsFromSubClasses(className!, req.user);
+
+    successResponse(res, result, `${result.teamsCreated} teams created, ${result.jobsLinked} jobs linked`);
+  } catch (error: any) {
+    console.error('Error syncing teams:', error);
+    errorResponse(res, error.message, 500);
+  }
+};
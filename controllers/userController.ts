@@ -48,7 +48,7 @@ export const getAllUsers = async (req: Request, res: Response) => {
     const users = await User.find(query)
       .populate({
         path: 'studentId',
-        select: 'firstName middleName lastName phone email gender motherName block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages dateOfBirth emergencyContact attendsCourse courseName courseChurch isActive createdAt updatedAt photo photoData gibyGubayeId'
+        select: 'firstName middleName lastName phone email gender motherName block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages dateOfBirth emergencyContact attendsCourse courseName courseChurch isActive createdAt updatedAt photo photoFileId gibyGubayeId'
       })
       .sort({ createdAt: -1 })
       .skip(skip)
@@ -94,7 +94,7 @@ export const getUser = async (req: Request, res: Response) => {
     const user = await User.findById(userId)
       .populate({
         path: 'studentId',
-        select: 'firstName middleName lastName phone email gender motherName block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages dateOfBirth emergencyContact attendsCourse courseName courseChurch isActive createdAt updatedAt photo photoData gibyGubayeId'
+        select: 'firstName middleName lastName phone email gender motherName block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages dateOfBirth emergencyContact attendsCourse courseName courseChurch isActive createdAt updatedAt photo photoFileId gibyGubayeId'
       });
 
     if (!user) {
@@ -171,7 +171,7 @@ export const createUser = async (req: Request, res: Response) => {
     const populatedUser = await User.findById(user._id)
       .populate({
         path: 'studentId',
-        select: 'firstName middleName lastName phone email gender motherName block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages dateOfBirth emergencyContact attendsCourse courseName courseChurch isActive createdAt updatedAt photo photoData gibyGubayeId'
+        select: 'firstName middleName lastName phone email gender motherName block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages dateOfBirth emergencyContact attendsCourse courseName courseChurch isActive createdAt updatedAt photo photoFileId gibyGubayeId'
       });
 
     res.status(201).json({
@@ -200,7 +200,7 @@ export const updateUserStatus = async (req: Request, res: Response) => {
       { new: true }
     ).populate({
       path: 'studentId',
-      select: 'firstName middleName lastName phone email gender motherName block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages dateOfBirth emergencyContact attendsCourse courseName courseChurch isActive createdAt updatedAt photo photoData gibyGubayeId'
+      select: 'firstName middleName lastName phone email gender motherName block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages dateOfBirth emergencyContact attendsCourse courseName courseChurch isActive createdAt updatedAt photo photoFileId gibyGubayeId'
     });
 
     if (!user) {
@@ -286,7 +286,7 @@ export const updateUser = async (req: Request, res: Response) => {
       { new: true }
     ).populate({
       path: 'studentId',
-      select: 'firstName middleName lastName phone email gender motherName block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages dateOfBirth emergencyContact attendsCourse courseName courseChurch isActive createdAt updatedAt photo photoData gibyGubayeId'
+      select: 'firstName middleName lastName phone email gender motherName block dorm university college department batch region zone wereda kebele church authority job motherTongue additionalLanguages dateOfBirth emergencyContact attendsCourse courseName courseChurch isActive createdAt updatedAt photo photoFileId gibyGubayeId'
     });
 
     res.json({
@@ -389,7 +389,7 @@ export const getUserStatistics = async (req: Request, res: Response) => {
       .limit(5)
       .populate({
         path: 'studentId',
-        select: 'firstName lastName photo photoData gibyGubayeId'
+        select: 'firstName lastName photo photoFileId gibyGubayeId'
       });
 
     res.json({
@@ -16,8 +16,23 @@ import transactionRoutes from './routes/transactions';
 import walletRoutes from './routes/wallet';
 import feedbackRoutes from './routes/feedback';
 import familyRoutes from './routes/familyRoutes';
+import profileRequestRoutes from './routes/profileRequestRoutes';
+import adminAreaRoutes from './routes/adminAreaRoutes';
+import academicUnitRoutes from './routes/academicUnitRoutes';
+import idTemplateRoutes from './routes/idTemplateRoutes';
+import accessLogRoutes from './routes/accessLogRoutes';
+import retentionRoutes from './routes/retentionRoutes';
+import attendanceRoutes from './routes/attendanceRoutes';
+import courseRoutes from './routes/courseRoutes';
+import departmentPolicyRoutes from './routes/departmentPolicyRoutes';
+import serviceYearRoutes from './routes/serviceYearRoutes';
+import departmentApplicationRoutes from './routes/departmentApplicationRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import teamRoutes from './routes/teamRoutes';
+import orgChartRoutes from './routes/orgChartRoutes';
 import { connectDB } from './config/database';
 import { errorHandler } from './middleware/errorHandler';
+import { scheduleRetention } from './utils/dataRetention';
 import { serveStudentPhoto } from './controllers/studentController';
 import { serveBlogImage } from './controllers/blogController';
 
@@ -61,7 +76,7 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 // BACKWARD COMPATIBILITY ROUTES - Keep frontend URLs working
-// These routes intercept the old upload URLs and serve images from database
+// These routes intercept the old upload URLs and stream images from the blob store
 app.get('/uploads/students/:filename', serveStudentPhoto);
 app.get('/uploads/blogs/:filename', serveBlogImage);
 
@@ -78,6 +93,20 @@ app.use('/api/agent', agentRoutes);
 app.use('/api/feedback', feedbackRoutes);
 app.use('/api/accountants', accountantRoutes);
 app.use('/api/families', familyRoutes);
+app.use('/api/profile-requests', profileRequestRoutes);
+app.use('/api/admin-areas', adminAreaRoutes);
+app.use('/api/academic-units', academicUnitRoutes);
+app.use('/api/id-template', idTemplateRoutes);
+app.use('/api/access-logs', accessLogRoutes);
+app.use('/api/retention', retentionRoutes);
+app.use('/api/attendance', attendanceRoutes);
+app.use('/api/courses', courseRoutes);
+app.use('/api/department-policies', departmentPolicyRoutes);
+app.use('/api/service-years', serviceYearRoutes);
+app.use('/api/department-applications', departmentApplicationRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/org-chart', orgChartRoutes);
 
 // Enhanced health check endpoint
 app.get('/api/health', (req, res) => {
@@ -87,7 +116,7 @@ app.get('/api/health', (req, res) => {
     cors: `Restricted to: ${CLIENT_URL}`,
     timestamp: new Date().toISOString(),
     origin: req.headers.origin || 'Unknown',
-    imageStorage: 'database',
+    imageStorage: 'gridfs',
     compatibility: 'frontend URLs unchanged'
   });
 });
@@ -98,13 +127,16 @@ app.use(errorHandler);
 // Connect to database
 connectDB();
 
+// Daily anonymization of departed members, when the retention policy is enabled
+scheduleRetention();
+
 const PORT = process.env.PORT || 3001;
 
 server.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`);
   console.log(`🌐 CORS: Restricted to ${CLIENT_URL}`);
   console.log(`🔧 Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log(`💾 Images stored in: MongoDB Database`);
+  console.log(`💾 Images stored in: MongoDB GridFS`);
   console.log(`🔗 Frontend compatibility: URLs unchanged`);
   console.log(`✅ Health check: http://localhost:${PORT}/api/health`);
   console.log(`📱 Mobile apps must connect from: ${CLIENT_URL}`);
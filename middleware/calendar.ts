@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  CalendarType,
+  ethiopianBatchToGregorian,
+  parseEthiopianDate
+} from '../utils/ethiopianCalendar';
+
+declare global {
+  namespace Express {
+    interface Request {
+      calendar?: CalendarType;
+    }
+  }
+}
+
+// Read the input calendar from ?calendar= or the X-Calendar header. Defaults to Gregorian.
+export const detectCalendar = (req: Request): CalendarType => {
+  const value = ((req.query.calendar as string) || req.header('X-Calendar') || '').toLowerCase();
+  return value === 'ethiopian' || value === 'ec' ? 'ethiopian' : 'gregorian';
+};
+
+const toIsoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// Convert Ethiopian input to the Gregorian values stored in the database.
+// `dateFields` and `batchFields` are looked up in both the body and the query string.
+export const ethiopianInput = (options: { dateFields?: string[]; batchFields?: string[] }) => {
+  const dateFields = options.dateFields || [];
+  const batchFields = options.batchFields || [];
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    req.calendar = detectCalendar(req);
+
+    if (req.calendar !== 'ethiopian') {
+      return next();
+    }
+
+    const invalid: string[] = [];
+
+    for (const source of [req.body, req.query] as Record<string, any>[]) {
+      if (!source || typeof source !== 'object') continue;
+
+      for (const field of dateFields) {
+        const value = source[field];
+        if (typeof value !== 'string' || value === '') continue;
+
+        const converted = parseEthiopianDate(value);
+        if (converted) {
+          source[field] = toIsoDay(converted);
+        } else {
+          invalid.push(field);
+        }
+      }
+
+      for (const field of batchFields) {
+        const value = source[field];
+        if (typeof value === 'string' && value !== '') {
+          source[field] = ethiopianBatchToGregorian(value);
+        }
+      }
+    }
+
+    if (invalid.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid Ethiopian date for: ${invalid.join(', ')} (expected YYYY-MM-DD)`
+      });
+    }
+
+    next();
+  };
+};
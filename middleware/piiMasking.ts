@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  buildPiiContext,
+  createExposure,
+  logSensitiveAccess,
+  maskStudentsDeep
+} from '../utils/piiPolicy';
+
+// Mask sensitive student fields in every JSON response of the router
+// according to the caller's role, and log what was returned unmasked.
+// Students populated into jobs, families and agendas are covered too.
+export const maskStudentPii = (req: Request, res: Response, next: NextFunction) => {
+  const send = res.json.bind(res);
+
+  res.json = ((body: any) => {
+    const exposure = createExposure();
+
+    buildPiiContext(req.user)
+      .catch(error => {
+        // Fail closed: without the caller's member list everything stays masked
+        console.error('Error building PII context:', error);
+        return { user: req.user, policy: { all: 'none' as const }, ownMembers: new Set<string>() };
+      })
+      .then(context => {
+        let masked: any;
+        try {
+          masked = maskStudentsDeep(body, context, exposure);
+        } catch (error) {
+          console.error('Error masking response:', error);
+          res.status(500);
+          return send({ success: false, message: 'Error preparing response' });
+        }
+
+        logSensitiveAccess(req, exposure);
+        return send(masked);
+      });
+
+    return res;
+  }) as Response['json'];
+
+  next();
+};
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Catalog hierarchy used for student placement, from widest to narrowest
+export const ACADEMIC_UNIT_LEVELS = ['university', 'college', 'department'] as const;
+export type AcademicUnitLevel = typeof ACADEMIC_UNIT_LEVELS[number];
+
+export interface IAcademicUnit extends Document {
+  name: string;
+  shortName?: string;
+  level: AcademicUnitLevel;
+  parent?: mongoose.Types.ObjectId;
+  aliases: string[]; // Other spellings accepted as exact matches, including merged variants
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const academicUnitSchema = new Schema<IAcademicUnit>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true
+  },
+  shortName: {
+    type: String,
+    trim: true
+  },
+  level: {
+    type: String,
+    enum: ACADEMIC_UNIT_LEVELS,
+    required: [true, 'Level is required']
+  },
+  parent: {
+    type: Schema.Types.ObjectId,
+    ref: 'AcademicUnit'
+  },
+  aliases: {
+    type: [String],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true,
+});
+
+// A university has no parent; colleges and departments must have one
+academicUnitSchema.pre('validate', function(next) {
+  if (this.level === 'university' && this.parent) {
+    this.invalidate('parent', 'A university cannot have a parent unit');
+  } else if (this.level !== 'university' && !this.parent) {
+    this.invalidate('parent', `A ${this.level} must belong to a parent unit`);
+  }
+  next();
+});
+
+academicUnitSchema.index({ level: 1, parent: 1, name: 1 }, { unique: true });
+academicUnitSchema.index({ parent: 1, isActive: 1 });
+
+export default mongoose.model<IAcademicUnit>('AcademicUnit', academicUnitSchema);
@@ -0,0 +1,71 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Ethiopian administrative hierarchy, from widest to narrowest.
+// City administrations (Addis Ababa, Dire Dawa) store their sub-cities at the zone level.
+export const ADMIN_AREA_LEVELS = ['region', 'zone', 'wereda', 'kebele'] as const;
+export type AdminAreaLevel = typeof ADMIN_AREA_LEVELS[number];
+
+export interface IAdminArea extends Document {
+  name: string;
+  nameAmharic?: string;
+  code: string;
+  level: AdminAreaLevel;
+  parent?: mongoose.Types.ObjectId;
+  aliases: string[]; // Other spellings accepted as exact matches
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const adminAreaSchema = new Schema<IAdminArea>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true
+  },
+  nameAmharic: {
+    type: String,
+    trim: true
+  },
+  code: {
+    type: String,
+    required: [true, 'Code is required'],
+    unique: true,
+    trim: true,
+    uppercase: true
+  },
+  level: {
+    type: String,
+    enum: ADMIN_AREA_LEVELS,
+    required: [true, 'Level is required']
+  },
+  parent: {
+    type: Schema.Types.ObjectId,
+    ref: 'AdminArea'
+  },
+  aliases: {
+    type: [String],
+    default: []
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true,
+});
+
+// A region has no parent; every other level must have one
+adminAreaSchema.pre('validate', function(next) {
+  if (this.level === 'region' && this.parent) {
+    this.invalidate('parent', 'A region cannot have a parent area');
+  } else if (this.level !== 'region' && !this.parent) {
+    this.invalidate('parent', `A ${this.level} must belong to a parent area`);
+  }
+  next();
+});
+
+adminAreaSchema.index({ level: 1, parent: 1, name: 1 }, { unique: true });
+adminAreaSchema.index({ parent: 1, isActive: 1 });
+
+export default mongoose.model<IAdminArea>('AdminArea', adminAreaSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { describeEthiopian } from '../utils/ethiopianCalendar';
 
 export interface IAgendaDiscussion {
   question: string;
@@ -140,6 +141,15 @@ agendaSchema.index({ draftDate: -1 });
 agendaSchema.index({ meetingDate: -1 });
 agendaSchema.index({ approvedBy: 1 });
 
+// Ethiopian calendar representations
+agendaSchema.virtual('draftDateEthiopian').get(function() {
+  return describeEthiopian(this.draftDate);
+});
+
+agendaSchema.virtual('meetingDateEthiopian').get(function() {
+  return describeEthiopian(this.meetingDate);
+});
+
 // Virtual for creator information
 agendaSchema.virtual('creator', {
   ref: 'User',
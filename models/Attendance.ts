@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// present and late count as attended; excused is left out of the rate
+export const ATTENDANCE_STATUSES = ['present', 'late', 'excused', 'absent'] as const;
+export type AttendanceStatus = typeof ATTENDANCE_STATUSES[number];
+
+export const ATTENDED_STATUSES: AttendanceStatus[] = ['present', 'late'];
+
+export interface IAttendance extends Document {
+  session: mongoose.Types.ObjectId;
+  student: mongoose.Types.ObjectId;
+  status: AttendanceStatus;
+  method: 'qr' | 'bulk';
+  checkedInAt: Date;
+  recordedBy?: mongoose.Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attendanceSchema = new Schema<IAttendance>({
+  session: {
+    type: Schema.Types.ObjectId,
+    ref: 'AttendanceSession',
+    required: true
+  },
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student',
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ATTENDANCE_STATUSES,
+    default: 'present'
+  },
+  method: {
+    type: String,
+    enum: ['qr', 'bulk'],
+    required: true
+  },
+  checkedInAt: {
+    type: Date,
+    default: Date.now
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  note: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true,
+});
+
+// One record per member and session
+attendanceSchema.index({ session: 1, student: 1 }, { unique: true });
+attendanceSchema.index({ student: 1, createdAt: -1 });
+
+export default mongoose.model<IAttendance>('Attendance', attendanceSchema);
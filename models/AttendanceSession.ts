@@ -0,0 +1,120 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { describeEthiopian } from '../utils/ethiopianCalendar';
+
+// What a session belongs to: an agenda meeting, a department (Job class) gathering,
+// a fellowship program open to all members, or a class of a course cohort
+export const ATTENDANCE_SESSION_KINDS = ['agenda', 'department', 'program', 'cohort'] as const;
+export type AttendanceSessionKind = typeof ATTENDANCE_SESSION_KINDS[number];
+
+export interface IAttendanceSession extends Document {
+  title: string;
+  kind: AttendanceSessionKind;
+  agenda?: mongoose.Types.ObjectId;
+  cohort?: mongoose.Types.ObjectId;
+  department?: string; // Job class; taken from the agenda's meetingClass or the course for linked sessions
+  program?: string;
+  batch?: string; // Optionally limits a program session to one batch
+  date: Date;
+  location?: string;
+  status: 'open' | 'closed';
+  expectedStudents: mongoose.Types.ObjectId[]; // Members expected to attend, refreshed when the session closes
+  createdBy: mongoose.Types.ObjectId;
+  closedAt?: Date;
+  closedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attendanceSessionSchema = new Schema<IAttendanceSession>({
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true
+  },
+  kind: {
+    type: String,
+    enum: ATTENDANCE_SESSION_KINDS,
+    required: [true, 'Session kind is required']
+  },
+  agenda: {
+    type: Schema.Types.ObjectId,
+    ref: 'Agenda'
+  },
+  cohort: {
+    type: Schema.Types.ObjectId,
+    ref: 'CourseCohort'
+  },
+  department: {
+    type: String,
+    trim: true
+  },
+  program: {
+    type: String,
+    trim: true
+  },
+  batch: {
+    type: String,
+    trim: true
+  },
+  date: {
+    type: Date,
+    required: [true, 'Date is required']
+  },
+  location: {
+    type: String,
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['open', 'closed'],
+    default: 'open'
+  },
+  expectedStudents: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Student'
+  }],
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  closedAt: {
+    type: Date
+  },
+  closedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+});
+
+// Each kind needs its link
+attendanceSessionSchema.pre('validate', function(next) {
+  if (this.kind === 'agenda' && !this.agenda) {
+    this.invalidate('agenda', 'Agenda is required for agenda sessions');
+  } else if (this.kind === 'department' && !this.department) {
+    this.invalidate('department', 'Department is required for department sessions');
+  } else if (this.kind === 'program' && !this.program) {
+    this.invalidate('program', 'Program is required for program sessions');
+  } else if (this.kind === 'cohort' && !this.cohort) {
+    this.invalidate('cohort', 'Cohort is required for cohort sessions');
+  }
+  next();
+});
+
+attendanceSessionSchema.index({ kind: 1, date: -1 });
+attendanceSessionSchema.index({ department: 1, date: -1 });
+attendanceSessionSchema.index({ program: 1, date: -1 });
+attendanceSessionSchema.index({ agenda: 1 });
+attendanceSessionSchema.index({ cohort: 1, date: 1 });
+attendanceSessionSchema.index({ expectedStudents: 1 });
+
+attendanceSessionSchema.virtual('dateEthiopian').get(function() {
+  return describeEthiopian(this.date);
+});
+
+attendanceSessionSchema.set('toJSON', { virtuals: true });
+attendanceSessionSchema.set('toObject', { virtuals: true });
+
+export default mongoose.model<IAttendanceSession>('AttendanceSession', attendanceSessionSchema);
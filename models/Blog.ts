@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { describeEthiopian } from '../utils/ethiopianCalendar';
 
 export interface IBlog extends Document {
   title: string;
@@ -9,7 +10,12 @@ export interface IBlog extends Document {
     data: Buffer;
     contentType: string;
     fileName: string;
-  }; // Store actual image data
+  }; // Legacy embedded image data, moved to the blob store by the migration
+  imageFileId?: mongoose.Types.ObjectId; // Image bytes in the blob store (GridFS)
+  imageVariants?: {
+    thumb?: { webp?: mongoose.Types.ObjectId; jpeg?: mongoose.Types.ObjectId };
+    medium?: { webp?: mongoose.Types.ObjectId; jpeg?: mongoose.Types.ObjectId };
+  }; // Resized copies served with ?size=thumb|medium
   category: string;
   createdBy: mongoose.Types.ObjectId;
   blogDate: Date;
@@ -53,10 +59,24 @@ const blogSchema = new Schema<IBlog>({
     default: ''
   },
   imageData: {
-    data: Buffer,
+    // Never loaded unless explicitly selected with '+imageData.data'
+    data: { type: Buffer, select: false },
     contentType: String,
     fileName: String
   },
+  imageFileId: {
+    type: Schema.Types.ObjectId
+  },
+  imageVariants: {
+    thumb: {
+      webp: Schema.Types.ObjectId,
+      jpeg: Schema.Types.ObjectId
+    },
+    medium: {
+      webp: Schema.Types.ObjectId,
+      jpeg: Schema.Types.ObjectId
+    }
+  },
   category: {
     type: String,
     required: [true, 'Category is required'],
@@ -139,6 +159,7 @@ blogSchema.index({ blogDate: -1 });
 blogSchema.index({ viewsCount: -1 });
 blogSchema.index({ tags: 1 });
 blogSchema.index({ approvedBy: 1 });
+blogSchema.index({ image: 1 });
 
 // Generate slug from title before saving
 blogSchema.pre('save', function(next) {
@@ -172,6 +193,11 @@ blogSchema.pre('save', function(next) {
 });
 
 // Virtual for author information
+// Ethiopian calendar representation
+blogSchema.virtual('blogDateEthiopian').get(function() {
+  return describeEthiopian(this.blogDate);
+});
+
 blogSchema.virtual('author', {
   ref: 'User',
   localField: 'createdBy',
@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { DEPARTMENT_CLASSES } from '../utils/jobPolicy';
+
+export interface ICourseLevel {
+  level: number;
+  title: string;
+  passMark: number; // Final score (percent) needed to complete the level
+  minAttendance: number; // Share of cohort sessions (0-1) needed to complete the level
+}
+
+export interface ICourse extends Document {
+  name: string;
+  code: string;
+  description?: string;
+  department: string; // Job class running the course, one of DEPARTMENT_CLASSES
+  levels: ICourseLevel[];
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CourseLevelSchema = new Schema<ICourseLevel>({
+  level: {
+    type: Number,
+    required: true,
+    min: [1, 'Levels start at 1']
+  },
+  title: {
+    type: String,
+    required: [true, 'Level title is required'],
+    trim: true
+  },
+  passMark: {
+    type: Number,
+    default: 50,
+    min: [0, 'Pass mark cannot be negative'],
+    max: [100, 'Pass mark cannot exceed 100']
+  },
+  minAttendance: {
+    type: Number,
+    default: 0.75,
+    min: [0, 'Minimum attendance cannot be negative'],
+    max: [1, 'Minimum attendance is a share between 0 and 1']
+  }
+}, { _id: false });
+
+const courseSchema = new Schema<ICourse>({
+  name: {
+    type: String,
+    required: [true, 'Course name is required'],
+    trim: true
+  },
+  code: {
+    type: String,
+    required: [true, 'Course code is required'],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z0-9-]+$/, 'Code may only contain letters, digits and dashes']
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  department: {
+    type: String,
+    default: 'Timhrt',
+    trim: true,
+    enum: {
+      values: DEPARTMENT_CLASSES,
+      message: '{VALUE} is not a department'
+    }
+  },
+  levels: {
+    type: [CourseLevelSchema],
+    default: [],
+    validate: {
+      validator: (levels: ICourseLevel[]) => new Set(levels.map(level => level.level)).size === levels.length,
+      message: 'Level numbers must be unique'
+    }
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+});
+
+courseSchema.index({ department: 1, isActive: 1 });
+
+export default mongoose.model<ICourse>('Course', courseSchema);
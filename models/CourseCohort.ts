@@ -0,0 +1,101 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const COHORT_STATUSES = ['planned', 'running', 'completed', 'cancelled'] as const;
+export type CohortStatus = typeof COHORT_STATUSES[number];
+
+export interface ICohortAssessment {
+  _id: mongoose.Types.ObjectId;
+  title: string;
+  maxScore: number;
+  weight: number; // Relative weight in the final score
+}
+
+// One run of a course level, e.g. "Level 2, 2024 intake at St. Mary"
+export interface ICourseCohort extends Document {
+  course: mongoose.Types.ObjectId;
+  level: number;
+  name: string;
+  church?: string;
+  instructor?: string;
+  startDate?: Date;
+  endDate?: Date;
+  capacity?: number;
+  status: CohortStatus;
+  assessments: ICohortAssessment[];
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const CohortAssessmentSchema = new Schema<ICohortAssessment>({
+  title: {
+    type: String,
+    required: [true, 'Assessment title is required'],
+    trim: true
+  },
+  maxScore: {
+    type: Number,
+    default: 100,
+    min: [1, 'Maximum score must be positive']
+  },
+  weight: {
+    type: Number,
+    default: 1,
+    min: [0, 'Weight cannot be negative']
+  }
+});
+
+const courseCohortSchema = new Schema<ICourseCohort>({
+  course: {
+    type: Schema.Types.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  level: {
+    type: Number,
+    required: [true, 'Level is required']
+  },
+  name: {
+    type: String,
+    required: [true, 'Cohort name is required'],
+    trim: true
+  },
+  church: {
+    type: String,
+    trim: true
+  },
+  instructor: {
+    type: String,
+    trim: true
+  },
+  startDate: {
+    type: Date
+  },
+  endDate: {
+    type: Date
+  },
+  capacity: {
+    type: Number,
+    min: [1, 'Capacity must be positive']
+  },
+  status: {
+    type: String,
+    enum: COHORT_STATUSES,
+    default: 'planned'
+  },
+  assessments: {
+    type: [CohortAssessmentSchema],
+    default: []
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+});
+
+courseCohortSchema.index({ course: 1, level: 1, startDate: -1 });
+courseCohortSchema.index({ status: 1 });
+
+export default mongoose.model<ICourseCohort>('CourseCohort', courseCohortSchema);
@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const APPLICATION_STATUSES = ['pending', 'accepted', 'declined', 'withdrawn'] as const;
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+// A student asking to join a department (a job class)
+export interface IDepartmentApplication extends Document {
+  student: mongoose.Types.ObjectId;
+  applicant: mongoose.Types.ObjectId; // User account that applied
+  class: string;
+  sub_class?: string; // Preferred sub-class, a suggestion for the leader
+  motivation?: string;
+  status: ApplicationStatus;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  job?: mongoose.Types.ObjectId; // Assignment created on acceptance
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const departmentApplicationSchema = new Schema<IDepartmentApplication>({
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student',
+    required: true
+  },
+  applicant: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  class: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  sub_class: {
+    type: String,
+    trim: true
+  },
+  motivation: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Motivation cannot exceed 1000 characters']
+  },
+  status: {
+    type: String,
+    enum: APPLICATION_STATUSES,
+    default: 'pending'
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  reviewNote: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Review note cannot exceed 500 characters']
+  },
+  job: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job'
+  }
+}, {
+  timestamps: true,
+});
+
+// One open application per student and department
+departmentApplicationSchema.index(
+  { student: 1, class: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' }, name: 'student_1_class_1_pending' }
+);
+departmentApplicationSchema.index({ class: 1, status: 1, createdAt: 1 });
+
+export default mongoose.model<IDepartmentApplication>('DepartmentApplication', departmentApplicationSchema);
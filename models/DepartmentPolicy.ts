@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// What the department looks for when candidates are ranked. Empty lists
+// fall back to what its current members have in common.
+export interface IRecommendationPreferences {
+  languages: string[];
+  courses: string[]; // Course codes or names
+  colleges: string[];
+  departments: string[]; // Academic departments
+}
+
+export interface IDepartmentPolicy extends Document {
+  class: string; // Job class the policy applies to, the department's role name
+  maxMembers?: number; // Active members at most; unset means no limit
+  maxJobsPerStudent: number; // Active jobs a student may hold when joining this class
+  allowedBatches: string[]; // Empty means every batch
+  allowedGenders: ('male' | 'female')[]; // Empty means both
+  requiresApproval: boolean; // Assignments wait for leader approval before they count
+  incompatibleWith: string[]; // Classes a member of this class may not hold at the same time
+  preferences: IRecommendationPreferences;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const departmentPolicySchema = new Schema<IDepartmentPolicy>({
+  class: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  maxMembers: {
+    type: Number,
+    min: [1, 'Maximum members must be at least 1']
+  },
+  maxJobsPerStudent: {
+    type: Number,
+    default: 3,
+    min: [1, 'Job cap must be at least 1']
+  },
+  allowedBatches: [{
+    type: String,
+    trim: true
+  }],
+  allowedGenders: [{
+    type: String,
+    enum: ['male', 'female']
+  }],
+  requiresApproval: {
+    type: Boolean,
+    default: false
+  },
+  incompatibleWith: {
+    type: [{ type: String, trim: true }],
+    validate: {
+      validator: function(this: IDepartmentPolicy, classes: string[]) {
+        return !classes.includes(this.class);
+      },
+      message: 'A department cannot be incompatible with itself'
+    }
+  },
+  preferences: {
+    languages: [{ type: String, trim: true }],
+    courses: [{ type: String, trim: true }],
+    colleges: [{ type: String, trim: true }],
+    departments: [{ type: String, trim: true }]
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+});
+
+departmentPolicySchema.index({ incompatibleWith: 1 });
+
+export default mongoose.model<IDepartmentPolicy>('DepartmentPolicy', departmentPolicySchema);
@@ -0,0 +1,113 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// enrolled is the only active state; the others are final outcomes
+export const ENROLLMENT_STATUSES = ['enrolled', 'completed', 'failed', 'dropped'] as const;
+export type EnrollmentStatus = typeof ENROLLMENT_STATUSES[number];
+
+export interface IAssessmentScore {
+  assessment: mongoose.Types.ObjectId; // CourseCohort.assessments entry
+  score: number;
+}
+
+export interface IEnrollment extends Document {
+  student: mongoose.Types.ObjectId;
+  cohort: mongoose.Types.ObjectId;
+  course: mongoose.Types.ObjectId; // Copied from the cohort for level queries
+  level: number;
+  status: EnrollmentStatus;
+  scores: IAssessmentScore[];
+  finalScore?: number;
+  attendanceRate?: number;
+  enrolledAt: Date;
+  completedAt?: Date;
+  certificateNumber?: string;
+  certificateIssuedAt?: Date;
+  note?: string;
+  enrolledBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AssessmentScoreSchema = new Schema<IAssessmentScore>({
+  assessment: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  score: {
+    type: Number,
+    required: true,
+    min: [0, 'Score cannot be negative']
+  }
+}, { _id: false });
+
+const enrollmentSchema = new Schema<IEnrollment>({
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student',
+    required: true
+  },
+  cohort: {
+    type: Schema.Types.ObjectId,
+    ref: 'CourseCohort',
+    required: true
+  },
+  course: {
+    type: Schema.Types.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+  level: {
+    type: Number,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ENROLLMENT_STATUSES,
+    default: 'enrolled'
+  },
+  scores: {
+    type: [AssessmentScoreSchema],
+    default: []
+  },
+  finalScore: {
+    type: Number
+  },
+  attendanceRate: {
+    type: Number
+  },
+  enrolledAt: {
+    type: Date,
+    default: Date.now
+  },
+  completedAt: {
+    type: Date
+  },
+  certificateNumber: {
+    type: String,
+    trim: true
+  },
+  certificateIssuedAt: {
+    type: Date
+  },
+  note: {
+    type: String,
+    trim: true
+  },
+  enrolledBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+});
+
+// A student enrolls in a cohort once
+enrollmentSchema.index({ cohort: 1, student: 1 }, { unique: true });
+enrollmentSchema.index({ student: 1, status: 1 });
+enrollmentSchema.index({ course: 1, level: 1, status: 1 });
+enrollmentSchema.index(
+  { certificateNumber: 1 },
+  { unique: true, partialFilterExpression: { certificateNumber: { $type: 'string' } } }
+);
+
+export default mongoose.model<IEnrollment>('Enrollment', enrollmentSchema);
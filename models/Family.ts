@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { describeEthiopian, gregorianBatchToEthiopian } from '../utils/ethiopianCalendar';
 
 export interface IFamilyChild {
   student: mongoose.Types.ObjectId;
@@ -31,6 +32,24 @@ export interface IGrandParent {
   families: IFamilyMember[];
 }
 
+export type FamilyRole =
+  | 'familyLeader'
+  | 'familyCoLeader'
+  | 'familySecretary'
+  | 'grandFather'
+  | 'grandMother'
+  | 'father'
+  | 'mother'
+  | 'child';
+
+// A role that is kept in the tree for the record but is no longer held
+export interface IFamilyEndedRole {
+  student: mongoose.Types.ObjectId;
+  role: FamilyRole;
+  endedAt: Date;
+  reason?: string;
+}
+
 export interface IFamily extends Document {
   title: string;
   location: string;
@@ -41,6 +60,7 @@ export interface IFamily extends Document {
   familyCoLeader: mongoose.Types.ObjectId;
   familySecretary: mongoose.Types.ObjectId;
   grandParents: IGrandParent[];
+  endedRoles: IFamilyEndedRole[];
   status: 'current' | 'finished';
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
@@ -139,6 +159,27 @@ const GrandParentSchema = new Schema<IGrandParent>({
   }
 }, { _id: false });
 
+const FamilyEndedRoleSchema = new Schema<IFamilyEndedRole>({
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student',
+    required: true
+  },
+  role: {
+    type: String,
+    enum: ['familyLeader', 'familyCoLeader', 'familySecretary', 'grandFather', 'grandMother', 'father', 'mother', 'child'],
+    required: true
+  },
+  endedAt: {
+    type: Date,
+    default: Date.now
+  },
+  reason: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
+
 const FamilySchema = new Schema<IFamily>({
   title: {
     type: String,
@@ -184,6 +225,10 @@ const FamilySchema = new Schema<IFamily>({
     type: [GrandParentSchema],
     default: []
   },
+  endedRoles: {
+    type: [FamilyEndedRoleSchema],
+    default: []
+  },
   status: {
     type: String,
     enum: ['current', 'finished'],
@@ -206,6 +251,16 @@ FamilySchema.index({ status: 1 });
 FamilySchema.index({ createdBy: 1 });
 FamilySchema.index({ familyDate: -1 });
 FamilySchema.index({ batch: 1 });
+FamilySchema.index({ 'endedRoles.student': 1 });
+
+// Ethiopian calendar representations
+FamilySchema.virtual('familyDateEthiopian').get(function() {
+  return describeEthiopian(this.familyDate);
+});
+
+FamilySchema.virtual('batchEthiopian').get(function() {
+  return gregorianBatchToEthiopian(this.batch);
+});
 
 // Virtuals for populating student references
 FamilySchema.virtual('leader', {
@@ -213,7 +268,7 @@ FamilySchema.virtual('leader', {
   localField: 'familyLeader',
   foreignField: '_id',
   justOne: true,
-  options: { select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData' }
+  options: { select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId' }
 });
 
 FamilySchema.virtual('coLeader', {
@@ -221,7 +276,7 @@ FamilySchema.virtual('coLeader', {
   localField: 'familyCoLeader',
   foreignField: '_id',
   justOne: true,
-  options: { select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData' }
+  options: { select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId' }
 });
 
 FamilySchema.virtual('secretary', {
@@ -229,7 +284,7 @@ FamilySchema.virtual('secretary', {
   localField: 'familySecretary',
   foreignField: '_id',
   justOne: true,
-  options: { select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoData' }
+  options: { select: 'firstName middleName lastName gender gibyGubayeId phone email batch photo photoFileId' }
 });
 
 FamilySchema.virtual('creator', {
@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// How the sequence number restarts: never, for every batch, or every calendar year
+export const ID_SEQUENCE_SCOPES = ['global', 'batch', 'year'] as const;
+export type IdSequenceScope = typeof ID_SEQUENCE_SCOPES[number];
+
+// Placeholders allowed in the format string
+export const ID_TEMPLATE_TOKENS = ['{prefix}', '{seq}', '{yy}', '{yyyy}', '{check}'] as const;
+
+export interface IIdTemplate extends Document {
+  name: string; // One template per kind of ID, 'student' for gibyGubayeId
+  prefix: string;
+  format: string;
+  scope: IdSequenceScope;
+  padding: number;
+  checkDigit: boolean;
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const idTemplateSchema = new Schema<IIdTemplate>({
+  name: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  prefix: {
+    type: String,
+    trim: true,
+    default: 'TGG',
+    maxlength: [12, 'Prefix cannot exceed 12 characters'],
+    match: [/^[A-Za-z0-9-]*$/, 'Prefix may only contain letters, digits and dashes']
+  },
+  format: {
+    type: String,
+    trim: true,
+    default: '{prefix}/{seq}/{yy}',
+    validate: [
+      {
+        validator: (format: string) => format.includes('{seq}'),
+        message: 'Format must contain {seq}'
+      },
+      {
+        // The sequence restarts per batch or year, so without a year token
+        // each new one would reissue IDs of the last
+        validator: function(this: IIdTemplate, format: string) {
+          return this.scope === 'global' || /\{yy(yy)?\}/.test(format);
+        },
+        message: 'Format must contain {yy} or {yyyy} unless the scope is global'
+      },
+      {
+        validator: (format: string) =>
+          (format.match(/\{[^}]*\}/g) || []).every(token => (ID_TEMPLATE_TOKENS as readonly string[]).includes(token)),
+        message: `Format may only use ${ID_TEMPLATE_TOKENS.join(', ')}`
+      }
+    ]
+  },
+  scope: {
+    type: String,
+    enum: ID_SEQUENCE_SCOPES,
+    default: 'global'
+  },
+  padding: {
+    type: Number,
+    default: 4,
+    min: [1, 'Padding must be at least 1'],
+    max: [8, 'Padding cannot exceed 8']
+  },
+  checkDigit: {
+    type: Boolean,
+    default: false
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+});
+
+// {check} and the checkDigit flag must agree
+idTemplateSchema.pre('validate', function(next) {
+  if (this.checkDigit && !this.format.includes('{check}')) {
+    this.invalidate('format', 'Format must contain {check} when the check digit is enabled');
+  } else if (!this.checkDigit && this.format.includes('{check}')) {
+    this.invalidate('format', 'Enable checkDigit to use {check} in the format');
+  }
+  next();
+});
+
+export default mongoose.model<IIdTemplate>('IdTemplate', idTemplateSchema);
@@ -1,11 +1,25 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+// Pending assignments wait for leader approval; rejected ones are kept as history
+export const JOB_STATUSES = ['active', 'pending', 'ended', 'rejected'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
 export interface IJob extends Document {
   studentId: mongoose.Types.ObjectId;
   class: string;
-  sub_class?: string;
+  sub_class?: string; // Team name, kept in step with the team
+  team?: mongoose.Types.ObjectId;
   type?: 'member' | 'leader' | 'sub_leader' | 'Secretary';
   background?: string;
+  status: JobStatus;
+  serviceYear?: mongoose.Types.ObjectId; // Term's service year; unset for assignments made before years existed
+  startDate?: Date;
+  endedAt?: Date; // End of the term
+  carriedFrom?: mongoose.Types.ObjectId; // Previous year's term of the same assignment
+  endReason?: string;
+  requestedBy?: mongoose.Types.ObjectId;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,6 +39,10 @@ const jobSchema = new Schema<IJob>({
     type: String,
     trim: true,
   },
+  team: {
+    type: Schema.Types.ObjectId,
+    ref: 'Team',
+  },
   type: {
     type: String,
     enum: ['member', 'leader', 'sub_leader', 'Secretary'],  // restrict values
@@ -35,15 +53,64 @@ const jobSchema = new Schema<IJob>({
     type: String,
     trim: true,
   },
+  status: {
+    type: String,
+    enum: JOB_STATUSES,
+    default: 'active',
+  },
+  serviceYear: {
+    type: Schema.Types.ObjectId,
+    ref: 'ServiceYear',
+  },
+  startDate: {
+    type: Date,
+  },
+  endedAt: {
+    type: Date,
+  },
+  carriedFrom: {
+    type: Schema.Types.ObjectId,
+    ref: 'Job',
+  },
+  endReason: {
+    type: String,
+    trim: true,
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  reviewedAt: {
+    type: Date,
+  },
 }, {
   timestamps: true,
 });
 
-// Compound index to ensure one student cannot have duplicate class
-jobSchema.index({ studentId: 1, class: 1 }, { unique: true });
+// One active assignment per student and class; ended assignments are kept as history
+jobSchema.index(
+  { studentId: 1, class: 1 },
+  { unique: true, partialFilterExpression: { status: 'active' }, name: 'studentId_1_class_1_active' }
+);
 
 // Index for filtering by class
 jobSchema.index({ class: 1 });
 jobSchema.index({ createdAt: -1 });
+jobSchema.index({ status: 1 });
+jobSchema.index({ serviceYear: 1, class: 1 });
+jobSchema.index({ team: 1 });
+
+// Matches current assignments, including records saved before status existed
+export const ACTIVE_JOB_FILTER = { status: { $nin: ['pending', 'ended', 'rejected'] } };
+
+// Current assignments and those still awaiting approval
+export const OPEN_JOB_FILTER = { status: { $nin: ['ended', 'rejected'] } };
+
+// Whether the assignment counts towards the student's numberOfJob
+export const isActiveJob = (job: Pick<IJob, 'status'>) => !['pending', 'ended', 'rejected'].includes(job.status);
 
 export default mongoose.model<IJob>('Job', jobSchema);
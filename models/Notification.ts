@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const NOTIFICATION_TYPES = ['department_application'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// In-app message for one user, listed until read
+export interface INotification extends Document {
+  user: mongoose.Types.ObjectId;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, any>; // Ids the client needs to open the related record
+  readAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    required: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  message: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  data: {
+    type: Schema.Types.Mixed
+  },
+  readAt: {
+    type: Date
+  }
+}, {
+  timestamps: true,
+});
+
+notificationSchema.index({ user: 1, readAt: 1, createdAt: -1 });
+
+export default mongoose.model<INotification>('Notification', notificationSchema);
@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IProposedChange {
+  field: string;
+  current: any;  // Value when the request was submitted
+  proposed: any;
+}
+
+export interface IProfileUpdateRequest extends Document {
+  student: mongoose.Types.ObjectId;
+  requestedBy: mongoose.Types.ObjectId;
+  changes: IProposedChange[];
+  note?: string;
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  appliedFields: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ProposedChangeSchema = new Schema<IProposedChange>({
+  field: {
+    type: String,
+    required: true
+  },
+  current: Schema.Types.Mixed,
+  proposed: Schema.Types.Mixed
+}, { _id: false });
+
+const profileUpdateRequestSchema = new Schema<IProfileUpdateRequest>({
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student',
+    required: true
+  },
+  requestedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  changes: {
+    type: [ProposedChangeSchema],
+    validate: [(changes: IProposedChange[]) => changes.length > 0, 'At least one change is required']
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Note cannot exceed 500 characters']
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'approved', 'rejected', 'cancelled'],
+    default: 'pending'
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  reviewNote: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Review note cannot exceed 500 characters']
+  },
+  appliedFields: {
+    type: [String],
+    default: []
+  }
+}, {
+  timestamps: true,
+});
+
+profileUpdateRequestSchema.index({ status: 1, createdAt: 1 });
+profileUpdateRequestSchema.index({ student: 1, status: 1 });
+profileUpdateRequestSchema.index({ requestedBy: 1, createdAt: -1 });
+
+export default mongoose.model<IProfileUpdateRequest>('ProfileUpdateRequest', profileUpdateRequestSchema);
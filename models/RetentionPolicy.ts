@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { STUDENT_STATUSES, StudentStatus } from './Student';
+
+export interface IRetentionPolicy extends Document {
+  name: string; // Single policy document, 'students'
+  enabled: boolean;
+  statuses: StudentStatus[]; // Members in these states are anonymized once the period has passed
+  retentionDays: number; // Counted from the status effective date
+  updatedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const retentionPolicySchema = new Schema<IRetentionPolicy>({
+  name: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  statuses: {
+    type: [{ type: String, enum: STUDENT_STATUSES }],
+    default: ['graduated', 'inactive'],
+    validate: {
+      validator: (statuses: string[]) => !statuses.includes('active'),
+      message: 'Active members cannot be anonymized by the retention policy'
+    }
+  },
+  retentionDays: {
+    type: Number,
+    default: 5 * 365,
+    min: [30, 'Retention period must be at least 30 days']
+  },
+  updatedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+});
+
+export default mongoose.model<IRetentionPolicy>('RetentionPolicy', retentionPolicySchema);
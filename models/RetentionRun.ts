@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IRetentionRunItem {
+  student: mongoose.Types.ObjectId;
+  gibyGubayeId: string;
+  status: string;
+  statusEffectiveDate?: Date;
+  outcome: 'anonymized' | 'eligible' | 'failed';
+  error?: string;
+}
+
+// Report of one retention pass, scheduled or started by an admin
+export interface IRetentionRun extends Document {
+  trigger: 'schedule' | 'manual';
+  dryRun: boolean;
+  policy: {
+    statuses: string[];
+    retentionDays: number;
+    cutoff: Date;
+  };
+  startedBy?: mongoose.Types.ObjectId;
+  startedAt: Date;
+  finishedAt?: Date;
+  eligible: number;
+  anonymized: number;
+  failed: number;
+  items: IRetentionRunItem[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const RetentionRunItemSchema = new Schema<IRetentionRunItem>({
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student',
+    required: true
+  },
+  gibyGubayeId: String,
+  status: String,
+  statusEffectiveDate: Date,
+  outcome: {
+    type: String,
+    enum: ['anonymized', 'eligible', 'failed'],
+    required: true
+  },
+  error: String
+}, { _id: false });
+
+const retentionRunSchema = new Schema<IRetentionRun>({
+  trigger: {
+    type: String,
+    enum: ['schedule', 'manual'],
+    required: true
+  },
+  dryRun: {
+    type: Boolean,
+    default: false
+  },
+  policy: {
+    statuses: [String],
+    retentionDays: Number,
+    cutoff: Date
+  },
+  startedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  finishedAt: {
+    type: Date
+  },
+  eligible: {
+    type: Number,
+    default: 0
+  },
+  anonymized: {
+    type: Number,
+    default: 0
+  },
+  failed: {
+    type: Number,
+    default: 0
+  },
+  items: {
+    type: [RetentionRunItemSchema],
+    default: []
+  }
+}, {
+  timestamps: true,
+});
+
+retentionRunSchema.index({ startedAt: -1 });
+
+export default mongoose.model<IRetentionRun>('RetentionRun', retentionRunSchema);
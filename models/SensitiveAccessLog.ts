@@ -0,0 +1,55 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// One entry per response that returned sensitive student fields unmasked
+export interface ISensitiveAccessLog extends Document {
+  user?: mongoose.Types.ObjectId;
+  role?: string;
+  method: string;
+  path: string;
+  students: mongoose.Types.ObjectId[];
+  studentCount: number;
+  fields: string[];
+  ip?: string;
+  createdAt: Date;
+}
+
+const sensitiveAccessLogSchema = new Schema<ISensitiveAccessLog>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  role: {
+    type: String
+  },
+  method: {
+    type: String,
+    required: true
+  },
+  path: {
+    type: String,
+    required: true
+  },
+  students: [{
+    type: Schema.Types.ObjectId,
+    ref: 'Student'
+  }],
+  studentCount: {
+    type: Number,
+    default: 0
+  },
+  fields: {
+    type: [String],
+    default: []
+  },
+  ip: {
+    type: String
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false },
+});
+
+sensitiveAccessLogSchema.index({ createdAt: -1 });
+sensitiveAccessLogSchema.index({ user: 1, createdAt: -1 });
+sensitiveAccessLogSchema.index({ students: 1, createdAt: -1 });
+
+export default mongoose.model<ISensitiveAccessLog>('SensitiveAccessLog', sensitiveAccessLogSchema);
@@ -0,0 +1,76 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// One year of department service. Job terms belong to a year; only one year is open.
+export interface IServiceYear extends Document {
+  name: string; // e.g. '2017 E.C.'
+  startDate: Date;
+  endDate: Date;
+  status: 'open' | 'closed';
+  closedAt?: Date;
+  closedBy?: mongoose.Types.ObjectId;
+  rollover?: {
+    termsClosed: number;
+    termsCarried: number;
+    pendingRejected: number;
+    nextYear: mongoose.Types.ObjectId;
+  };
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const serviceYearSchema = new Schema<IServiceYear>({
+  name: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  startDate: {
+    type: Date,
+    required: true
+  },
+  endDate: {
+    type: Date,
+    required: true,
+    validate: {
+      validator: function(this: IServiceYear, endDate: Date) {
+        return !this.startDate || endDate > this.startDate;
+      },
+      message: 'The service year must end after it starts'
+    }
+  },
+  status: {
+    type: String,
+    enum: ['open', 'closed'],
+    default: 'open'
+  },
+  closedAt: {
+    type: Date
+  },
+  closedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  rollover: {
+    termsClosed: Number,
+    termsCarried: Number,
+    pendingRejected: Number,
+    nextYear: { type: Schema.Types.ObjectId, ref: 'ServiceYear' }
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+});
+
+// At most one open year
+serviceYearSchema.index(
+  { status: 1 },
+  { unique: true, partialFilterExpression: { status: 'open' }, name: 'status_1_open' }
+);
+serviceYearSchema.index({ startDate: -1 });
+
+export default mongoose.model<IServiceYear>('ServiceYear', serviceYearSchema);
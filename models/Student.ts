@@ -1,4 +1,24 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { describeEthiopian, gregorianBatchToEthiopian } from '../utils/ethiopianCalendar';
+
+export const STUDENT_STATUSES = ['active', 'inactive', 'graduated', 'transferred', 'suspended', 'deceased'] as const;
+export type StudentStatus = typeof STUDENT_STATUSES[number];
+
+export interface IStudentStatusChange {
+  status: StudentStatus;
+  effectiveDate: Date;
+  reason?: string;
+  changedBy?: mongoose.Types.ObjectId;
+  changedAt: Date;
+}
+
+// Levels passed in the course catalog, kept in step with completed enrollments
+export interface ICompletedCourse {
+  course: mongoose.Types.ObjectId;
+  code: string;
+  level: number;
+  completedAt?: Date;
+}
 
 export interface IStudent extends Document {
   gibyGubayeId: string;
@@ -14,19 +34,30 @@ export interface IStudent extends Document {
   university: string;
   college: string;
   department: string;
+  // Catalog references for the placement text, set when it matches the academic catalog
+  universityId?: mongoose.Types.ObjectId;
+  collegeId?: mongoose.Types.ObjectId;
+  departmentId?: mongoose.Types.ObjectId;
   batch: string;
   region: string;
   zone: string;
   wereda: string;
   kebele: string;
+  // Canonical AdminArea references for the address text, set when it matches the reference data
+  regionId?: mongoose.Types.ObjectId;
+  zoneId?: mongoose.Types.ObjectId;
+  weredaId?: mongoose.Types.ObjectId;
+  kebeleId?: mongoose.Types.ObjectId;
   church: string;
   authority: string;
   job: string;
   motherTongue: string;
   additionalLanguages: string[];
+  // Derived from active course enrollments for students enrolled through the catalog
   attendsCourse: boolean;
   courseName?: string;
   courseChurch?: string;
+  completedCourses: ICompletedCourse[];
   numberOfJob: number;
   dateOfBirth: Date;
   emergencyContact: string;
@@ -35,12 +66,56 @@ export interface IStudent extends Document {
     data: Buffer;
     contentType: string;
     fileName: string;
-  }; // Store actual image data
-  isActive: boolean;
+  }; // Legacy embedded image data, moved to the blob store by the migration
+  photoFileId?: mongoose.Types.ObjectId; // Image bytes in the blob store (GridFS)
+  photoVariants?: {
+    thumb?: { webp?: mongoose.Types.ObjectId; jpeg?: mongoose.Types.ObjectId };
+    medium?: { webp?: mongoose.Types.ObjectId; jpeg?: mongoose.Types.ObjectId };
+  }; // Resized copies served with ?size=thumb|medium
+  status: StudentStatus;
+  statusEffectiveDate?: Date;
+  statusReason?: string;
+  statusHistory: IStudentStatusChange[];
+  isActive: boolean; // Derived from status - true only while status is 'active'
+  anonymizedAt?: Date; // Personal data scrubbed on request or by the retention policy
+  anonymizationReason?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const StudentStatusChangeSchema = new Schema<IStudentStatusChange>({
+  status: {
+    type: String,
+    enum: STUDENT_STATUSES,
+    required: true
+  },
+  effectiveDate: {
+    type: Date,
+    required: true
+  },
+  reason: {
+    type: String,
+    trim: true
+  },
+  changedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  changedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Anonymized records keep a unique placeholder instead of a phone number.
+// Update validators run without a document, hence the optional `this`.
+const PHONE_PATTERN = /^09\d{8}$/;
+const ANONYMIZED_PHONE_PATTERN = /^anon-[0-9a-f]{24}$/;
+
+function isValidPhone(this: IStudent, value: string) {
+  return PHONE_PATTERN.test(value) || (!!this?.anonymizedAt && ANONYMIZED_PHONE_PATTERN.test(value));
+}
+
 const studentSchema = new Schema<IStudent>({
   gibyGubayeId: {
     type: String,
@@ -72,7 +147,7 @@ const studentSchema = new Schema<IStudent>({
     required: [true, 'Phone number is required'],
     unique: true,
     trim: true,
-    match: [/^09\d{8}$/, 'Please enter a valid Ethiopian phone number (09XXXXXXXX)']
+    validate: [isValidPhone, 'Please enter a valid Ethiopian phone number (09XXXXXXXX)']
   },
   email: {
     type: String,
@@ -112,6 +187,18 @@ const studentSchema = new Schema<IStudent>({
     required: [true, 'Department is required'],
     trim: true,
   },
+  universityId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AcademicUnit'
+  },
+  collegeId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AcademicUnit'
+  },
+  departmentId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AcademicUnit'
+  },
   batch: {
     type: String,
     required: [true, 'Batch is required'],
@@ -137,6 +224,22 @@ const studentSchema = new Schema<IStudent>({
     required: [true, 'Kebele is required'],
     trim: true,
   },
+  regionId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AdminArea'
+  },
+  zoneId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AdminArea'
+  },
+  weredaId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AdminArea'
+  },
+  kebeleId: {
+    type: Schema.Types.ObjectId,
+    ref: 'AdminArea'
+  },
   church: {
     type: String,
     required: [true, 'Church is required'],
@@ -173,6 +276,16 @@ const studentSchema = new Schema<IStudent>({
     type: String,
     trim: true,
   },
+  completedCourses: {
+    type: [{
+      _id: false,
+      course: { type: Schema.Types.ObjectId, ref: 'Course' },
+      code: String,
+      level: Number,
+      completedAt: Date
+    }],
+    default: []
+  },
   numberOfJob: {
     type: Number,
     default: 0,
@@ -185,34 +298,95 @@ const studentSchema = new Schema<IStudent>({
     type: String,
     required: [true, 'Emergency contact is required'],
     trim: true,
-    match: [/^09\d{8}$/, 'Please enter a valid Ethiopian phone number (09XXXXXXXX)']
+    validate: [isValidPhone, 'Please enter a valid Ethiopian phone number (09XXXXXXXX)']
   },
   photo: {
     type: String,
     default: ''
   },
   photoData: {
-    data: Buffer,
+    // Never loaded unless explicitly selected with '+photoData.data'
+    data: { type: Buffer, select: false },
     contentType: String,
     fileName: String
   },
+  photoFileId: {
+    type: Schema.Types.ObjectId
+  },
+  photoVariants: {
+    thumb: {
+      webp: Schema.Types.ObjectId,
+      jpeg: Schema.Types.ObjectId
+    },
+    medium: {
+      webp: Schema.Types.ObjectId,
+      jpeg: Schema.Types.ObjectId
+    }
+  },
+  status: {
+    type: String,
+    enum: STUDENT_STATUSES,
+    default: 'active'
+  },
+  statusEffectiveDate: {
+    type: Date
+  },
+  statusReason: {
+    type: String,
+    trim: true
+  },
+  statusHistory: {
+    type: [StudentStatusChangeSchema],
+    default: []
+  },
   isActive: {
     type: Boolean,
     default: true
+  },
+  anonymizedAt: {
+    type: Date
+  },
+  anonymizationReason: {
+    type: String,
+    trim: true
   }
 }, {
   timestamps: true,
 });
 
+// Keep the legacy flag in step with the lifecycle status
+studentSchema.pre('save', function(next) {
+  if (this.isModified('status') || this.isNew) {
+    this.isActive = this.status === 'active';
+  }
+  next();
+});
+
 // Indexes for better query performance
 studentSchema.index({ phone: 1 }, { unique: true });
 studentSchema.index({ email: 1 }, { unique: true });
 studentSchema.index({ university: 1 });
 studentSchema.index({ college: 1 });
 studentSchema.index({ department: 1 });
+studentSchema.index({ universityId: 1, collegeId: 1, departmentId: 1 });
 studentSchema.index({ batch: 1 });
 studentSchema.index({ region: 1 });
+studentSchema.index({ regionId: 1, zoneId: 1, weredaId: 1, kebeleId: 1 });
 studentSchema.index({ isActive: 1 });
+studentSchema.index({ status: 1 });
+studentSchema.index({ anonymizedAt: 1 });
+studentSchema.index({ 'completedCourses.course': 1, 'completedCourses.level': 1 });
+studentSchema.index({ 'completedCourses.code': 1, 'completedCourses.level': 1 });
+studentSchema.index({ photo: 1 });
+
+// Ethiopian calendar representations returned next to the stored Gregorian values
+studentSchema.virtual('dateOfBirthEthiopian').get(function() {
+  return describeEthiopian(this.dateOfBirth);
+});
+
+studentSchema.virtual('batchEthiopian').get(function() {
+  return gregorianBatchToEthiopian(this.batch);
+});
 
 // Virtual for age calculation
 studentSchema.virtual('age').get(function() {
@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type StudentHistoryAction = 'create' | 'update' | 'status' | 'merge' | 'revert' | 'import' | 'anonymize';
+
+export interface IFieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface IStudentHistory extends Document {
+  student: mongoose.Types.ObjectId;
+  version: number;
+  action: StudentHistoryAction;
+  changes: IFieldChange[];
+  changedBy?: mongoose.Types.ObjectId;
+  changedByName?: string; // Kept so the entry stays readable if the user is deleted
+  revertOf?: mongoose.Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FieldChangeSchema = new Schema<IFieldChange>({
+  field: {
+    type: String,
+    required: true
+  },
+  before: Schema.Types.Mixed,
+  after: Schema.Types.Mixed
+}, { _id: false });
+
+const studentHistorySchema = new Schema<IStudentHistory>({
+  student: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student',
+    required: true
+  },
+  version: {
+    type: Number,
+    required: true
+  },
+  action: {
+    type: String,
+    enum: ['create', 'update', 'status', 'merge', 'revert', 'import', 'anonymize'],
+    required: true
+  },
+  changes: {
+    type: [FieldChangeSchema],
+    default: []
+  },
+  changedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  changedByName: {
+    type: String,
+    trim: true
+  },
+  revertOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'StudentHistory'
+  },
+  note: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true,
+});
+
+// Versions are sequential per student
+studentHistorySchema.index({ student: 1, version: -1 }, { unique: true });
+studentHistorySchema.index({ 'changes.field': 1 });
+studentHistorySchema.index({ changedBy: 1, createdAt: -1 });
+
+export default mongoose.model<IStudentHistory>('StudentHistory', studentHistorySchema);
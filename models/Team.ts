@@ -0,0 +1,103 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const MEETING_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
+export const MEETING_FREQUENCIES = ['weekly', 'biweekly', 'monthly'] as const;
+
+export interface IMeetingSchedule {
+  day?: typeof MEETING_DAYS[number];
+  time?: string; // HH:mm
+  frequency?: typeof MEETING_FREQUENCIES[number];
+  location?: string;
+}
+
+// A sub-class inside a department. Jobs reference it through Job.team and
+// keep its name in Job.sub_class for existing clients.
+export interface ITeam extends Document {
+  class: string; // Department the team belongs to
+  name: string;
+  description?: string;
+  lead?: mongoose.Types.ObjectId; // Student leading the team
+  capacity?: number; // Members at most; unset means no limit
+  meetingSchedule?: IMeetingSchedule;
+  isActive: boolean;
+  mergedInto?: mongoose.Types.ObjectId;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const MeetingScheduleSchema = new Schema<IMeetingSchedule>({
+  day: {
+    type: String,
+    enum: MEETING_DAYS
+  },
+  time: {
+    type: String,
+    match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Meeting time must be HH:mm']
+  },
+  frequency: {
+    type: String,
+    enum: MEETING_FREQUENCIES,
+    default: 'weekly'
+  },
+  location: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
+
+const teamSchema = new Schema<ITeam>({
+  class: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Team name is required'],
+    trim: true,
+    maxlength: [100, 'Team name cannot exceed 100 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Description cannot exceed 1000 characters']
+  },
+  lead: {
+    type: Schema.Types.ObjectId,
+    ref: 'Student'
+  },
+  capacity: {
+    type: Number,
+    min: [1, 'Capacity must be at least 1']
+  },
+  meetingSchedule: MeetingScheduleSchema,
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  mergedInto: {
+    type: Schema.Types.ObjectId,
+    ref: 'Team'
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true,
+});
+
+// Team names are unique among a department's active teams, ignoring case
+teamSchema.index(
+  { class: 1, name: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { isActive: true },
+    collation: { locale: 'en', strength: 2 },
+    name: 'class_1_name_1_active'
+  }
+);
+teamSchema.index({ lead: 1 });
+
+export default mongoose.model<ITeam>('Team', teamSchema);
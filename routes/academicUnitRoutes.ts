@@ -0,0 +1,32 @@
+import express from 'express';
+import {
+  getAcademicUnits,
+  getAcademicCatalog,
+  getAcademicUnit,
+  getPlacementVariants,
+  createAcademicUnit,
+  updateAcademicUnit,
+  deleteAcademicUnit,
+  mergePlacementVariants,
+  mergeAcademicUnits,
+  normalizePlacements
+} from '../controllers/academicUnitController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Lookups for the university -> college -> department selects
+router.get('/', getAcademicUnits); // ?level=&parent=&search=
+router.get('/tree', getAcademicCatalog);
+
+// Catalog maintenance
+router.get('/variants', authenticate, authorize('admin', 'Abalat-Guday'), getPlacementVariants); // ?level=&unmatched=true
+router.post('/', authenticate, authorize('admin', 'Abalat-Guday'), createAcademicUnit);
+router.post('/normalize', authenticate, authorize('admin'), normalizePlacements); // ?dryRun=false to apply
+router.get('/:id', getAcademicUnit);
+router.put('/:id', authenticate, authorize('admin', 'Abalat-Guday'), updateAcademicUnit);
+router.delete('/:id', authenticate, authorize('admin'), deleteAcademicUnit);
+router.post('/:id/variants', authenticate, authorize('admin', 'Abalat-Guday'), mergePlacementVariants);
+router.post('/:id/merge', authenticate, authorize('admin'), mergeAcademicUnits);
+
+export default router;
@@ -0,0 +1,12 @@
+import express from 'express';
+import { getAccessLogs } from '../controllers/accessLogController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Audit of unmasked reads of student personal data, admins only
+router.use(authenticate, authorize('admin'));
+
+router.get('/', getAccessLogs); // ?user=&student=&from=&to=&page=&limit=
+
+export default router;
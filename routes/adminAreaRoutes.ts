@@ -0,0 +1,26 @@
+import express from 'express';
+import {
+  getAdminAreas,
+  getAdminArea,
+  resolveAdminAddress,
+  createAdminArea,
+  updateAdminArea,
+  deleteAdminArea,
+  normalizeAddresses
+} from '../controllers/adminAreaController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Lookups for the region -> zone -> wereda -> kebele selects
+router.get('/', getAdminAreas); // ?level=&parent=&search=
+router.get('/resolve', resolveAdminAddress); // ?region=&zone=&wereda=&kebele=
+router.get('/:id', getAdminArea);
+
+// Reference data maintenance
+router.post('/', authenticate, authorize('admin'), createAdminArea);
+router.post('/normalize', authenticate, authorize('admin'), normalizeAddresses); // ?dryRun=false to apply
+router.put('/:id', authenticate, authorize('admin'), updateAdminArea);
+router.delete('/:id', authenticate, authorize('admin'), deleteAdminArea);
+
+export default router;
@@ -14,12 +14,20 @@ import {
   getStudentsByIds
 } from '../controllers/agendaController';
 import { authenticate, authorize } from '../middleware/auth';
+import { ethiopianInput } from '../middleware/calendar';
+import { maskStudentPii } from '../middleware/piiMasking';
 
 const router = express.Router();
 
 // All routes require authentication
 router.use(authenticate);
 
+// Mask student contact and personal fields by role
+router.use(maskStudentPii);
+
+// Accept Ethiopian dates with ?calendar=ethiopian or X-Calendar
+router.use(ethiopianInput({ dateFields: ['draftDate', 'meetingDate', 'fromDate', 'toDate'] }));
+
 // Public routes (for authenticated users)
 router.get('/', getAllAgendas);
 router.get('/stats', getAgendaStatistics);
@@ -0,0 +1,42 @@
+import express from 'express';
+import {
+  getSessions,
+  createSession,
+  getSession,
+  checkIn,
+  recordBulkAttendance,
+  deleteAttendanceRecord,
+  closeSession,
+  reopenSession,
+  getAttendanceRates,
+  getAbsentees,
+  getStudentAttendance
+} from '../controllers/attendanceController';
+import { authenticate } from '../middleware/auth';
+import { ethiopianInput } from '../middleware/calendar';
+import { maskStudentPii } from '../middleware/piiMasking';
+
+const router = express.Router();
+
+// All routes require authentication. Department leaders see their own class only.
+router.use(authenticate);
+
+// Mask student contact and personal fields by role
+router.use(maskStudentPii);
+
+// Accept Ethiopian dates and batch years with ?calendar=ethiopian or X-Calendar
+router.use(ethiopianInput({ dateFields: ['date', 'from', 'to'], batchFields: ['batch'] }));
+
+router.get('/sessions', getSessions); // ?kind=&department=&program=&agenda=&cohort=&status=&from=&to=
+router.post('/sessions', createSession);
+router.get('/rates', getAttendanceRates); // same filters as /sessions
+router.get('/absentees', getAbsentees); // ?threshold=0.5&streak=3 plus session filters
+router.get('/students/:studentId', getStudentAttendance);
+router.get('/sessions/:id', getSession);
+router.post('/sessions/:id/check-in', checkIn); // { code } from the member card QR, or { gibyGubayeId }
+router.post('/sessions/:id/records', recordBulkAttendance); // { entries: [{ student | gibyGubayeId, status, note }] }
+router.delete('/sessions/:id/records/:studentId', deleteAttendanceRecord);
+router.patch('/sessions/:id/close', closeSession);
+router.patch('/sessions/:id/reopen', reopenSession);
+
+export default router;
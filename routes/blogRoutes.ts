@@ -21,6 +21,7 @@ import {
   getBlogImageById
 } from '../controllers/blogController';
 import { authenticate } from '../middleware/auth';
+import { ethiopianInput } from '../middleware/calendar';
 
 const router = express.Router();
 
@@ -45,6 +46,10 @@ const upload = multer({
   }
 });
 
+// Accept an Ethiopian blogDate with ?calendar=ethiopian or X-Calendar.
+// Runs after multer on upload routes so the form fields are parsed.
+const calendarInput = ethiopianInput({ dateFields: ['blogDate'] });
+
 // Public routes (No authentication required)
 router.get('/public/approved', getApprovedBlogs);
 router.get('/public', getPublicBlogs);
@@ -62,8 +67,8 @@ router.get('/stats', authenticate, getBlogStatistics);
 router.get('/approval-queue', authenticate, getApprovalQueue);
 router.get('/:id/related', authenticate, getRelatedBlogs);
 router.get('/:id', authenticate, getBlog);
-router.post('/', authenticate, upload.single('image'), createBlog);
-router.put('/:id', authenticate, upload.single('image'), updateBlog);
+router.post('/', authenticate, upload.single('image'), calendarInput, createBlog);
+router.put('/:id', authenticate, upload.single('image'), calendarInput, updateBlog);
 router.patch('/:id/status', authenticate, updateBlogStatus);
 router.patch('/:id/featured', authenticate, toggleFeatured);
 router.patch('/:id/approve', authenticate, approveBlog);
@@ -0,0 +1,52 @@
+import express from 'express';
+import {
+  getCourses,
+  getCourse,
+  createCourse,
+  updateCourse,
+  getCohorts,
+  getCohort,
+  createCohort,
+  updateCohort,
+  enrollStudents,
+  updateEnrollment,
+  recordScores,
+  completeCohort,
+  getCertificate,
+  getStudentEnrollments
+} from '../controllers/courseController';
+import { authenticate } from '../middleware/auth';
+import { ethiopianInput } from '../middleware/calendar';
+import { maskStudentPii } from '../middleware/piiMasking';
+
+const router = express.Router();
+
+// All routes require authentication. Changes are limited to the course's
+// department and leadership.
+router.use(authenticate);
+
+// Mask student contact and personal fields by role
+router.use(maskStudentPii);
+
+// Accept Ethiopian dates with ?calendar=ethiopian or X-Calendar
+router.use(ethiopianInput({ dateFields: ['startDate', 'endDate'] }));
+
+router.get('/', getCourses); // ?department=&active=
+router.post('/', createCourse);
+
+router.get('/cohorts', getCohorts); // ?course=&level=&status=
+router.post('/cohorts', createCohort);
+router.get('/cohorts/:id', getCohort);
+router.put('/cohorts/:id', updateCohort);
+router.post('/cohorts/:id/enrollments', enrollStudents); // { students, gibyGubayeIds, force }
+router.put('/cohorts/:id/scores', recordScores); // { assessment, scores: [{ student, score }] }
+router.post('/cohorts/:id/complete', completeCohort); // ?dryRun=false to save outcomes and issue certificates
+
+router.patch('/enrollments/:id', updateEnrollment); // { status: enrolled | dropped, note }
+router.get('/enrollments/:id/certificate', getCertificate);
+router.get('/students/:studentId', getStudentEnrollments);
+
+router.get('/:id', getCourse);
+router.put('/:id', updateCourse);
+
+export default router;
@@ -0,0 +1,29 @@
+import express from 'express';
+import {
+  applyToDepartment,
+  getMyApplications,
+  withdrawApplication,
+  getApplicationQueue,
+  reviewApplication
+} from '../controllers/departmentApplicationController';
+import { authenticate } from '../middleware/auth';
+import { maskStudentPii } from '../middleware/piiMasking';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Mask student contact and personal fields by role
+router.use(maskStudentPii);
+
+// Self-service (any user linked to a student record)
+router.post('/', applyToDepartment); // { class, sub_class, motivation }
+router.get('/me', getMyApplications);
+router.patch('/:id/withdraw', withdrawApplication);
+
+// Review queue - department leaders for their own class, leadership for all
+router.get('/queue', getApplicationQueue);
+router.patch('/:id/review', reviewApplication); // { decision: 'accept' | 'decline', note, sub_class }
+
+export default router;
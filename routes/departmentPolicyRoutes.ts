@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+  getDepartmentPolicies,
+  getDepartmentPolicy,
+  updateDepartmentPolicy,
+  deleteDepartmentPolicy
+} from '../controllers/departmentPolicyController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', getDepartmentPolicies);
+router.get('/:class', getDepartmentPolicy);
+// { maxMembers, maxJobsPerStudent, allowedBatches, allowedGenders, requiresApproval, incompatibleWith,
+//   preferences: { languages, courses, colleges, departments } }
+router.put('/:class', authorize('admin', 'Abalat-Guday'), updateDepartmentPolicy);
+router.delete('/:class', authorize('admin', 'Abalat-Guday'), deleteDepartmentPolicy);
+
+export default router;
@@ -17,6 +17,8 @@ import {
   executeAutoAssignChildren
 } from '../controllers/familyController';
 import { authenticate, authorize } from '../middleware/auth';
+import { ethiopianInput } from '../middleware/calendar';
+import { maskStudentPii } from '../middleware/piiMasking';
 
 const router = express.Router();
 
@@ -26,6 +28,15 @@ router.get('/batches', getAllBatches);
 // Protected routes
 router.use(authenticate);
 
+// Mask student contact and personal fields by role
+router.use(maskStudentPii);
+
+// Accept Ethiopian dates and batch years with ?calendar=ethiopian or X-Calendar
+router.use(ethiopianInput({
+  dateFields: ['familyDate', 'fromDate', 'toDate'],
+  batchFields: ['batch', 'targetBatch']
+}));
+
 // Filter and selection routes
 router.get('/filter-options', getFamilyFilterOptions);
 router.get('/students/selection', getStudentsForFamilySelection);
@@ -0,0 +1,20 @@
+import express from 'express';
+import {
+  getIdTemplate,
+  updateIdTemplate,
+  previewIdTemplate,
+  checkId
+} from '../controllers/idTemplateController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', getIdTemplate);
+router.get('/preview', authorize('admin', 'Abalat-Guday'), previewIdTemplate); // ?batch=&count=&prefix=&format=&scope=&padding=&checkDigit=
+router.get('/check', checkId); // ?id=
+router.put('/', authorize('admin'), updateIdTemplate);
+
+export default router;
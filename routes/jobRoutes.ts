@@ -1,13 +1,22 @@
 import express from 'express';
 import { authenticate } from '../middleware/auth';
+import { maskStudentPii } from '../middleware/piiMasking';
 import {
   getJobs,
   getEligibleStudents,
+  getStudentEligibility,
+  getRecommendations,
   assignJob,
+  getPendingJobs,
+  reviewJob,
   updateJob,
+  endJob,
   deleteJob,
   getJobStats,
   getAllJobsByStudentId,
+  bulkAssignJobs,
+  bulkRemoveJobs,
+  bulkTransferJobs,
 } from '../controllers/jobController';
 
 const router = express.Router();
@@ -15,21 +24,44 @@ const router = express.Router();
 // All routes require authentication
 router.use(authenticate);
 
+// Mask student contact and personal fields by role
+router.use(maskStudentPii);
+
 // Get job assignments for current user's class
 router.get('/', getJobs);
 
-// Get eligible students for job assignment
+// Get eligible students for job assignment (?includeIneligible=true adds the others with reasons)
 router.get('/eligible-students', getEligibleStudents);
 
+// Eligible students ranked for the class with the reasons (?limit=&search=)
+router.get('/recommendations', getRecommendations);
+
+// Explain whether a student can join the current class (?class= to check another)
+router.get('/eligibility/:studentId', getStudentEligibility);
+
+// Assignments awaiting leader approval
+router.get('/pending', getPendingJobs);
+
 // Get job statistics
 router.get('/stats', getJobStats);
 
 // Assign job to student
 router.post('/assign', assignJob);
 
+// Bulk operations, each in one transaction with a per-student report (?dryRun=false to apply)
+router.post('/bulk/assign', bulkAssignJobs); // { students, team }
+router.post('/bulk/remove', bulkRemoveJobs); // { students, reason }
+router.post('/bulk/transfer', bulkTransferJobs); // { from: { class, team }, to: { class, team }, students }
+
+// Approve or reject a pending assignment { decision: 'approve' | 'reject', reason }
+router.post('/:id/review', reviewJob);
+
 // Update job (sub_class and background)
 router.patch('/:id', updateJob);
 
+// End a term early, keeping it as history { reason }
+router.post('/:id/end', endJob);
+
 // Delete job assignment
 router.delete('/:id', deleteJob);
 
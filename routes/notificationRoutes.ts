@@ -0,0 +1,18 @@
+import express from 'express';
+import {
+  getMyNotifications,
+  markNotificationRead,
+  markAllNotificationsRead
+} from '../controllers/notificationController';
+import { authenticate } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', getMyNotifications); // ?unread=true
+router.patch('/read-all', markAllNotificationsRead);
+router.patch('/:id/read', markNotificationRead);
+
+export default router;
@@ -0,0 +1,12 @@
+import express from 'express';
+import { getOrgChart } from '../controllers/orgChartController';
+import { authenticate } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get('/', getOrgChart); // ?format=json|mermaid|dot&families=false
+
+export default router;
@@ -0,0 +1,25 @@
+import express from 'express';
+import {
+  getMyProfile,
+  submitProfileRequest,
+  cancelProfileRequest,
+  getProfileRequestQueue,
+  reviewProfileRequest
+} from '../controllers/profileRequestController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Self-service (any user linked to a student record)
+router.get('/me', getMyProfile);
+router.post('/', submitProfileRequest);
+router.patch('/:id/cancel', cancelProfileRequest);
+
+// Review queue
+router.get('/queue', authorize('admin', 'Abalat-Guday'), getProfileRequestQueue); // ?status=pending|approved|rejected|cancelled|all
+router.patch('/:id/review', authorize('admin', 'Abalat-Guday'), reviewProfileRequest);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from 'express';
+import {
+  getPolicy,
+  updatePolicy,
+  startRun,
+  getRuns,
+  getRun
+} from '../controllers/retentionController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = express.Router();
+
+// Data retention is managed by admins only
+router.use(authenticate, authorize('admin'));
+
+router.get('/policy', getPolicy);
+router.put('/policy', updatePolicy); // { enabled, statuses, retentionDays }
+router.post('/run', startRun); // ?dryRun=false to anonymize
+router.get('/runs', getRuns);
+router.get('/runs/:id', getRun);
+
+export default router;
@@ -0,0 +1,28 @@
+import express from 'express';
+import {
+  getServiceYears,
+  getServiceYear,
+  createServiceYear,
+  updateServiceYear,
+  rollover,
+  recountJobs
+} from '../controllers/serviceYearController';
+import { authenticate, authorize } from '../middleware/auth';
+import { ethiopianInput } from '../middleware/calendar';
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Accept Ethiopian calendar dates
+router.use(ethiopianInput({ dateFields: ['startDate', 'endDate'] }));
+
+router.get('/', getServiceYears);
+router.get('/:id', getServiceYear); // id, name or 'current'
+router.post('/', authorize('admin', 'Abalat-Guday'), createServiceYear); // { name, startDate, endDate }
+router.post('/rollover', authorize('admin', 'Abalat-Guday'), rollover); // ?dryRun=false to apply
+router.post('/recount', authorize('admin'), recountJobs);
+router.patch('/:id', authorize('admin', 'Abalat-Guday'), updateServiceYear);
+
+export default router;
@@ -9,9 +9,23 @@ import {
   updateStudentStatus,
   getStudentStatistics,
   getFilterOptions,
-  getStudentPhotoById
+  getStudentPhotoById,
+  importStudents,
+  exportStudents,
+  getDuplicateCandidates,
+  mergeStudents,
+  anonymizeStudentData,
+  getStudentIdCard,
+  getBatchIdCards,
+  verifyMemberCard,
+  graduateStudentBatch,
+  getStudentHistory,
+  getStudentProfile,
+  revertStudentHistory
 } from '../controllers/studentController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
+import { ethiopianInput } from '../middleware/calendar';
+import { maskStudentPii } from '../middleware/piiMasking';
 
 const router = express.Router();
 
@@ -36,19 +50,57 @@ const upload = multer({
   }
 });
 
+// Spreadsheet uploads for bulk import
+const importUpload = multer({
+  storage: storage,
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  },
+  fileFilter: function (req, file, cb) {
+    const allowedTypes = /csv|xlsx|spreadsheetml|ms-excel/;
+    const mimetype = allowedTypes.test(file.mimetype);
+    const extname = /\.(csv|xlsx)$/.test(file.originalname.toLowerCase());
+    
+    if (mimetype || extname) {
+      return cb(null, true);
+    } else {
+      cb(new Error('Only CSV or XLSX files are allowed'));
+    }
+  }
+});
+
+// Accept Ethiopian dates and batch years with ?calendar=ethiopian or X-Calendar.
+// Runs after multer on upload routes so the form fields are parsed.
+const calendarInput = ethiopianInput({ dateFields: ['dateOfBirth'], batchFields: ['batch'] });
+
+// Phone, email, mother name, emergency contact and birth date are masked by role
+router.use(maskStudentPii);
+
 // Public routes
 router.get('/filter-options', getFilterOptions);
+router.get('/verify', verifyMemberCard); // ?code= from a scanned ID card
 
 // Get student photo by ID (public access)
 router.get('/:id/photo', getStudentPhotoById);
 
 // Protected routes (require authentication)
-router.get('/', authenticate, getAllStudents);
+router.get('/', authenticate, calendarInput, getAllStudents);
 router.get('/stats', authenticate, getStudentStatistics);
+router.get('/export', authenticate, calendarInput, exportStudents); // ?format=csv|xlsx|pdf plus list filters
+router.get('/duplicates', authenticate, calendarInput, getDuplicateCandidates);
+router.get('/id-cards', authenticate, authorize('admin', 'Abalat-Guday', 'Secretary'), calendarInput, getBatchIdCards); // ?batch=&layout=card|sheet
+router.post('/graduate-batch', authenticate, authorize('admin', 'Abalat-Guday'), calendarInput, graduateStudentBatch);
+router.post('/merge', authenticate, authorize('admin', 'Abalat-Guday'), mergeStudents);
+router.post('/import', authenticate, authorize('admin', 'Abalat-Guday'), importUpload.single('file'), importStudents); // ?dryRun=false to commit
+router.get('/:id/id-card', authenticate, authorize('admin', 'Abalat-Guday', 'Secretary'), getStudentIdCard);
+router.get('/:id/profile', authenticate, getStudentProfile); // sections depend on the caller's role
+router.get('/:id/history', authenticate, getStudentHistory); // ?field=&page=&limit=
+router.post('/:id/history/:historyId/revert', authenticate, authorize('admin', 'Abalat-Guday'), revertStudentHistory);
 router.get('/:id', authenticate, getStudent);
-router.post('/', authenticate, upload.single('photo'), createStudent);
-router.put('/:id', authenticate, upload.single('photo'), updateStudent);
-router.patch('/:id/status', authenticate, updateStudentStatus);
-router.delete('/:id', authenticate, deleteStudent);
+router.post('/', authenticate, upload.single('photo'), calendarInput, createStudent);
+router.put('/:id', authenticate, upload.single('photo'), calendarInput, updateStudent);
+router.patch('/:id/status', authenticate, ethiopianInput({ dateFields: ['effectiveDate'] }), updateStudentStatus);
+router.post('/:id/anonymize', authenticate, authorize('admin', 'Abalat-Guday'), anonymizeStudentData); // keeps the record, scrubs personal data
+router.delete('/:id', authenticate, deleteStudent); // refused while jobs, families or agendas reference the student
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,31 @@
+import express from 'express';
+import {
+  getTeams,
+  getTeam,
+  createTeam,
+  updateTeam,
+  mergeTeam,
+  moveMembers,
+  syncTeams
+} from '../controllers/teamController';
+import { authenticate } from '../middleware/auth';
+import { maskStudentPii } from '../middleware/piiMasking';
+
+const router = express.Router();
+
+// All routes require authentication. Teams belong to the caller's department;
+// leadership may pass ?class= or class in the body.
+router.use(authenticate);
+
+// Mask student contact and personal fields by role
+router.use(maskStudentPii);
+
+router.get('/', getTeams);
+router.post('/', createTeam); // { name, description, lead, capacity, meetingSchedule: { day, time, frequency, location } }
+router.post('/sync', syncTeams);
+router.post('/move', moveMembers); // { team, jobs, students }
+router.get('/:id', getTeam);
+router.patch('/:id', updateTeam);
+router.post('/:id/merge', mergeTeam); // { into }
+
+export default router;
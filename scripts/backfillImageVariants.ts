@@ -0,0 +1,117 @@
+// Generates thumb/medium variants for images already in the blob store and
+// replaces each original with a metadata-stripped copy.
+// Run `npm run migrate:images` first - embedded legacy images are skipped.
+//
+// Usage: npm run backfill:image-variants [-- --dry-run]
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Student from '../models/Student';
+import Blog from '../models/Blog';
+import { connectDB } from '../config/database';
+import { getBlobStore, readBlob } from '../utils/blobStore';
+import { deleteImageWithVariants, storeImageWithVariants } from '../utils/imageVariants';
+
+dotenv.config();
+
+const dryRun = process.argv.includes('--dry-run');
+
+const missingVariants = (fileField: string, variantsField: string) => ({
+  [fileField]: { $exists: true, $ne: null },
+  [`${variantsField}.thumb.jpeg`]: { $exists: false }
+});
+
+// Re-store one original with variants; returns the new ids or null when the blob is gone
+const rebuild = async (fileId: mongoose.Types.ObjectId, kind: 'student-photo' | 'blog-image') => {
+  const info = await getBlobStore().stat(fileId);
+  if (!info) return null;
+
+  const data = await readBlob(fileId);
+  return storeImageWithVariants(data, info.fileName, info.contentType, kind);
+};
+
+const backfillStudents = async () => {
+  let processed = 0;
+  let failed = 0;
+  const cursor = Student.find(missingVariants('photoFileId', 'photoVariants'))
+    .select('photoFileId gibyGubayeId')
+    .cursor();
+
+  for await (const student of cursor) {
+    processed++;
+    if (dryRun) continue;
+
+    try {
+      const stored = await rebuild(student.photoFileId!, 'student-photo');
+      if (!stored) {
+        console.warn(`Student ${student.gibyGubayeId}: photo blob missing, skipped`);
+        continue;
+      }
+
+      await Student.updateOne(
+        { _id: student._id },
+        { $set: { photoFileId: stored.fileId, photoVariants: stored.variants } }
+      );
+      await deleteImageWithVariants(student.photoFileId);
+    } catch (error: any) {
+      failed++;
+      console.error(`Student ${student.gibyGubayeId}: ${error.message}`);
+    }
+  }
+
+  return { processed, failed };
+};
+
+const backfillBlogs = async () => {
+  let processed = 0;
+  let failed = 0;
+  const cursor = Blog.find(missingVariants('imageFileId', 'imageVariants'))
+    .select('imageFileId slug')
+    .cursor();
+
+  for await (const blog of cursor) {
+    processed++;
+    if (dryRun) continue;
+
+    try {
+      const stored = await rebuild(blog.imageFileId!, 'blog-image');
+      if (!stored) {
+        console.warn(`Blog ${blog.slug}: image blob missing, skipped`);
+        continue;
+      }
+
+      await Blog.updateOne(
+        { _id: blog._id },
+        { $set: { imageFileId: stored.fileId, imageVariants: stored.variants } }
+      );
+      await deleteImageWithVariants(blog.imageFileId);
+    } catch (error: any) {
+      failed++;
+      console.error(`Blog ${blog.slug}: ${error.message}`);
+    }
+  }
+
+  return { processed, failed };
+};
+
+const run = async () => {
+  await connectDB();
+
+  console.log(dryRun ? 'Dry run - nothing will be written' : 'Generating image variants');
+  const students = await backfillStudents();
+  const blogs = await backfillBlogs();
+  console.log(`Done: ${students.processed} student photos (${students.failed} failed), ${blogs.processed} blog images (${blogs.failed} failed)`);
+
+  const legacyStudents = await Student.countDocuments({ 'photoData.data': { $exists: true } });
+  const legacyBlogs = await Blog.countDocuments({ 'imageData.data': { $exists: true } });
+  if (legacyStudents || legacyBlogs) {
+    console.log(`${legacyStudents} student photos and ${legacyBlogs} blog images are still embedded - run migrate:images first`);
+  }
+
+  await mongoose.disconnect();
+};
+
+run().catch(async error => {
+  console.error('Image variant backfill failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,235 @@
+// Reference regions and zones loaded by `npm run seed:admin-areas`.
+// Weredas and kebeles are loaded from a JSON file in the same shape
+// (--file), or added through the admin-areas API as they are needed.
+
+export interface AdminAreaSeed {
+  code: string;
+  name: string;
+  nameAmharic?: string;
+  aliases?: string[];
+  children?: AdminAreaSeed[];
+}
+
+const zones = (regionCode: string, names: (string | [string, string[]])[]): AdminAreaSeed[] =>
+  names.map(entry => {
+    const [name, aliases] = typeof entry === 'string' ? [entry, []] : entry;
+    return {
+      code: `${regionCode}-${name.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 16)}`,
+      name,
+      aliases
+    };
+  });
+
+export const ETHIOPIA_ADMIN_AREAS: AdminAreaSeed[] = [
+  {
+    code: 'TG',
+    name: 'Tigray',
+    nameAmharic: 'ትግራይ',
+    children: zones('TG', [
+      ['Central', ['Central Tigray', 'Mehakelegnaw']],
+      ['Eastern', ['Eastern Tigray', 'Misraqawi']],
+      ['North Western', ['North Western Tigray', 'Semien Mirabawi']],
+      ['Southern', ['Southern Tigray', 'Debubawi']],
+      ['South Eastern', ['South Eastern Tigray', 'Debub Misraqawi']],
+      ['Western', ['Western Tigray', 'Mirabawi']],
+      ['Mekelle', ['Mekelle Special Zone', 'Mekele']]
+    ])
+  },
+  {
+    code: 'AF',
+    name: 'Afar',
+    nameAmharic: 'አፋር',
+    children: zones('AF', [
+      ['Awsi Rasu', ['Zone 1', 'Awsi']],
+      ['Kilbet Rasu', ['Zone 2', 'Kilbati']],
+      ['Gabi Rasu', ['Zone 3', 'Gabi']],
+      ['Fantana Rasu', ['Zone 4', 'Fantena']],
+      ['Hari Rasu', ['Zone 5', 'Hari']]
+    ])
+  },
+  {
+    code: 'AM',
+    name: 'Amhara',
+    nameAmharic: 'አማራ',
+    aliases: ['Amara'],
+    children: zones('AM', [
+      ['North Gondar', ['North Gonder', 'Semien Gondar']],
+      ['Central Gondar', ['Central Gonder', 'Maekelawi Gondar']],
+      ['West Gondar', ['West Gonder']],
+      ['South Gondar', ['South Gonder', 'Debub Gondar']],
+      ['North Wollo', ['North Wello', 'Semien Wollo']],
+      ['South Wollo', ['South Wello', 'Debub Wollo']],
+      ['North Shewa', ['North Shoa', 'Semien Shewa']],
+      ['East Gojjam', ['East Gojam', 'Misraq Gojjam']],
+      ['West Gojjam', ['West Gojam', 'Mirab Gojjam']],
+      ['Awi', ['Agew Awi', 'Awi Zone']],
+      ['Wag Hemra', ['Waghemra', 'Wag Himra']],
+      ['Oromia Special Zone', ['Oromo Special Zone']],
+      ['Bahir Dar Special Zone', ['Bahir Dar', 'Bahirdar']]
+    ])
+  },
+  {
+    code: 'OR',
+    name: 'Oromia',
+    nameAmharic: 'ኦሮሚያ',
+    aliases: ['Oromiya'],
+    children: zones('OR', [
+      'Arsi',
+      'West Arsi',
+      'Bale',
+      'East Bale',
+      ['Borena', ['Borana']],
+      ['East Borena', ['East Borana']],
+      'Guji',
+      'West Guji',
+      ['East Hararghe', ['East Harerge', 'Misraq Hararghe']],
+      ['West Hararghe', ['West Harerge', 'Mirab Hararghe']],
+      ['Horo Guduru Wollega', ['Horo Gudru Welega', 'Horo Guduru']],
+      ['East Wollega', ['East Welega', 'Misraq Wollega']],
+      ['West Wollega', ['West Welega', 'Mirab Wollega']],
+      ['Kellem Wollega', ['Kelem Welega']],
+      ['Illubabor', ['Ilu Aba Bora', 'Illu Ababora']],
+      ['Buno Bedele', ['Buno Bedelle']],
+      'Jimma',
+      ['East Shewa', ['East Shoa', 'Misraq Shewa']],
+      ['West Shewa', ['West Shoa', 'Mirab Shewa']],
+      ['South West Shewa', ['South West Shoa']],
+      ['North Shewa', ['North Shoa (Oromia)']]
+    ])
+  },
+  {
+    code: 'SO',
+    name: 'Somali',
+    nameAmharic: 'ሶማሌ',
+    children: zones('SO', [
+      ['Sitti', ['Shinile']],
+      ['Fafan', ['Jigjiga']],
+      ['Jarar', ['Degehabur']],
+      'Nogob',
+      'Korahe',
+      ['Shabelle', ['Gode']],
+      'Afder',
+      'Liban',
+      'Dawa',
+      'Erer',
+      ['Doolo', ['Dollo']]
+    ])
+  },
+  {
+    code: 'BG',
+    name: 'Benishangul-Gumuz',
+    nameAmharic: 'ቤኒሻንጉል ጉሙዝ',
+    aliases: ['Benishangul Gumuz', 'Benishangul'],
+    children: zones('BG', [
+      ['Asosa', ['Assosa']],
+      'Kamashi',
+      'Metekel',
+      ['Mao-Komo Special Wereda', ['Mao Komo']]
+    ])
+  },
+  {
+    code: 'GA',
+    name: 'Gambela',
+    nameAmharic: 'ጋምቤላ',
+    aliases: ['Gambella'],
+    children: zones('GA', [
+      ['Anuak', ['Agnewak']],
+      'Nuer',
+      ['Majang', ['Mezhenger']],
+      'Itang Special Wereda'
+    ])
+  },
+  {
+    code: 'HR',
+    name: 'Harari',
+    nameAmharic: 'ሐረሪ',
+    aliases: ['Harar']
+  },
+  {
+    code: 'SI',
+    name: 'Sidama',
+    nameAmharic: 'ሲዳማ',
+    children: zones('SI', [
+      ['Central Sidama', ['Central']],
+      ['Northern Sidama', ['Northern']],
+      ['Southern Sidama', ['Southern']],
+      ['Eastern Sidama', ['Eastern']],
+      ['Hawassa City', ['Hawassa', 'Awassa']]
+    ])
+  },
+  {
+    code: 'SW',
+    name: 'South West Ethiopia Peoples',
+    nameAmharic: 'ደቡብ ምዕራብ ኢትዮጵያ ሕዝቦች',
+    aliases: ['South West Ethiopia', 'Southwest Ethiopia Peoples Region', 'SWEPR'],
+    children: zones('SW', [
+      ['Kaffa', ['Keffa', 'Kefa']],
+      'Sheka',
+      ['Bench Sheko', ['Bench Maji']],
+      'West Omo',
+      ['Dawro', ['Dawuro']],
+      'Konta'
+    ])
+  },
+  {
+    code: 'SE',
+    name: 'South Ethiopia',
+    nameAmharic: 'ደቡብ ኢትዮጵያ',
+    aliases: ['South Ethiopia Region', 'Southern Ethiopia'],
+    children: zones('SE', [
+      'Gamo',
+      'Gofa',
+      ['Wolayita', ['Wolaita', 'Welayta']],
+      'South Omo',
+      ['Gedeo', ['Gedio']],
+      'Konso',
+      'Ale',
+      'Burji',
+      ['Amaro', ['Koore']],
+      ['Derashe', ['Dirashe']],
+      'Basketo'
+    ])
+  },
+  {
+    code: 'CE',
+    name: 'Central Ethiopia',
+    nameAmharic: 'ማዕከላዊ ኢትዮጵያ',
+    aliases: ['Central Ethiopia Region'],
+    children: zones('CE', [
+      'Gurage',
+      ['Silte', ['Siltie', 'Silti']],
+      ['Hadiya', ['Hadiyya']],
+      ['Kembata', ['Kembata Tembaro', 'Kambata']],
+      ['Halaba', ['Alaba']],
+      ['Yem', ['Yem Special Wereda']],
+      ['Tembaro', ['Tambaro']],
+      'East Gurage'
+    ])
+  },
+  {
+    code: 'AA',
+    name: 'Addis Ababa',
+    nameAmharic: 'አዲስ አበባ',
+    aliases: ['Addis Abeba', 'Finfinne', 'AA'],
+    // Sub-cities take the zone level
+    children: zones('AA', [
+      'Addis Ketema',
+      ['Akaky Kaliti', ['Akaki Kality', 'Akaki']],
+      'Arada',
+      'Bole',
+      ['Gullele', ['Gulele']],
+      ['Kirkos', ['Qirqos']],
+      ['Kolfe Keranio', ['Kolfe']],
+      'Lideta',
+      ['Nifas Silk-Lafto', ['Nefas Silk Lafto', 'Nifas Silk']],
+      'Yeka',
+      ['Lemi Kura', ['Lemi Kuria']]
+    ])
+  },
+  {
+    code: 'DD',
+    name: 'Dire Dawa',
+    nameAmharic: 'ድሬ ዳዋ',
+    aliases: ['Dire Dawa City', 'Diredawa']
+  }
+];
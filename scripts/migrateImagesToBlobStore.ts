@@ -0,0 +1,100 @@
+// Moves embedded Student.photoData and Blog.imageData buffers into the blob store.
+// Safe to re-run: only documents that still carry embedded bytes are processed.
+//
+// Usage: npm run migrate:images [-- --dry-run]
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Student from '../models/Student';
+import Blog from '../models/Blog';
+import { connectDB } from '../config/database';
+import { getBlobStore } from '../utils/blobStore';
+
+dotenv.config();
+
+const dryRun = process.argv.includes('--dry-run');
+
+const migrateStudents = async () => {
+  let migrated = 0;
+  const cursor = Student.find({ 'photoData.data': { $exists: true } })
+    .select('+photoData.data photoFileId gibyGubayeId')
+    .cursor();
+
+  for await (const student of cursor) {
+    const photoData = student.photoData;
+    if (!photoData?.data) continue;
+
+    if (!dryRun) {
+      const stored = await getBlobStore().put(Buffer.from(photoData.data), {
+        fileName: photoData.fileName || `${student._id}`,
+        contentType: photoData.contentType || 'application/octet-stream',
+        metadata: { kind: 'student-photo', migratedFrom: student._id }
+      });
+
+      // Keep an image uploaded after the blob store went live
+      const update: any = { $unset: { photoData: 1 } };
+      if (!student.photoFileId) {
+        update.$set = { photoFileId: stored.id };
+      } else {
+        await getBlobStore().delete(stored.id);
+      }
+
+      await Student.updateOne({ _id: student._id }, update);
+    }
+
+    migrated++;
+    console.log(`Student ${student.gibyGubayeId}: ${photoData.data.length} bytes`);
+  }
+
+  return migrated;
+};
+
+const migrateBlogs = async () => {
+  let migrated = 0;
+  const cursor = Blog.find({ 'imageData.data': { $exists: true } })
+    .select('+imageData.data imageFileId slug')
+    .cursor();
+
+  for await (const blog of cursor) {
+    const imageData = blog.imageData;
+    if (!imageData?.data) continue;
+
+    if (!dryRun) {
+      const stored = await getBlobStore().put(Buffer.from(imageData.data), {
+        fileName: imageData.fileName || `${blog._id}`,
+        contentType: imageData.contentType || 'application/octet-stream',
+        metadata: { kind: 'blog-image', migratedFrom: blog._id }
+      });
+
+      const update: any = { $unset: { imageData: 1 } };
+      if (!blog.imageFileId) {
+        update.$set = { imageFileId: stored.id };
+      } else {
+        await getBlobStore().delete(stored.id);
+      }
+
+      await Blog.updateOne({ _id: blog._id }, update);
+    }
+
+    migrated++;
+    console.log(`Blog ${blog.slug}: ${imageData.data.length} bytes`);
+  }
+
+  return migrated;
+};
+
+const run = async () => {
+  await connectDB();
+
+  console.log(dryRun ? 'Dry run - nothing will be written' : 'Migrating images to the blob store');
+  const students = await migrateStudents();
+  const blogs = await migrateBlogs();
+  console.log(`Done: ${students} student photos, ${blogs} blog images`);
+
+  await mongoose.disconnect();
+};
+
+run().catch(async error => {
+  console.error('Image migration failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+// Backfills lifecycle fields added with student statuses:
+// - Student.status from the old isActive flag
+// - Job.status = 'active' for existing assignments
+// - replaces the old unique {studentId, class} index with the partial one
+//   that only covers active jobs, so ended assignments can be kept as history
+//
+// Usage: npm run migrate:lifecycle
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import Student from '../models/Student';
+import Job from '../models/Job';
+import { connectDB } from '../config/database';
+
+dotenv.config();
+
+const run = async () => {
+  await connectDB();
+
+  const active = await Student.updateMany(
+    { status: { $exists: false }, isActive: { $ne: false } },
+    { $set: { status: 'active' } }
+  );
+  const inactive = await Student.updateMany(
+    { status: { $exists: false }, isActive: false },
+    { $set: { status: 'inactive' } }
+  );
+  console.log(`Students: ${active.modifiedCount} set active, ${inactive.modifiedCount} set inactive`);
+
+  const jobs = await Job.updateMany(
+    { status: { $exists: false } },
+    { $set: { status: 'active' } }
+  );
+  console.log(`Jobs: ${jobs.modifiedCount} marked active`);
+
+  const indexes = await Job.collection.indexes();
+  if (indexes.some(index => index.name === 'studentId_1_class_1')) {
+    await Job.collection.dropIndex('studentId_1_class_1');
+    console.log('Dropped old studentId_1_class_1 index');
+  }
+  await Job.createIndexes();
+  console.log('Job indexes are up to date');
+
+  await mongoose.disconnect();
+};
+
+run().catch(async error => {
+  console.error('Lifecycle migration failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
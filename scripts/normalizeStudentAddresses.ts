@@ -0,0 +1,41 @@
+// Maps students' free-text region/zone/wereda/kebele onto the reference
+// data: close spellings are replaced by the canonical name and the matching
+// area IDs are stored. Addresses that cannot be matched are listed.
+//
+// Usage: npm run normalize:addresses             (preview)
+//        npm run normalize:addresses -- --apply
+import dotenv from 'dotenv';
+import mongoose from 'mongoose';
+import { connectDB } from '../config/database';
+import { normalizeStudentAddresses } from '../utils/adminGeography';
+
+dotenv.config();
+
+const apply = process.argv.includes('--apply');
+
+const run = async () => {
+  await connectDB();
+
+  const report = await normalizeStudentAddresses({ dryRun: !apply, actor: { name: 'normalize:addresses' } });
+
+  for (const correction of report.corrections) {
+    console.log(`${JSON.stringify(correction.from)} -> ${JSON.stringify(correction.to)} (${correction.students} students)`);
+  }
+  for (const item of report.unresolved) {
+    console.log(`Unresolved (${item.students} students): ${item.problems.join(' ')}`);
+  }
+
+  console.log(
+    `${report.addresses} distinct addresses, ${report.studentsMatched} students matched, ` +
+    `${report.corrections.length} corrections, ${report.unresolved.length} unresolved`
+  );
+  console.log(apply ? `${report.studentsUpdated} students updated` : 'Preview only - run with --apply to save');
+
+  await mongoose.disconnect();
+};
+
+run().catch(async error => {
+  console.error('Address normalization failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
@@ -0,0 +1,84 @@
+// Loads the region -> zone -> wereda -> kebele reference data.
+// Areas are upserted by code, so the script can be re-run after editing the data.
+//
+// Usage: npm run seed:admin-areas
+//        npm run seed:admin-areas -- --file weredas.json   (same nested shape as scripts/data)
+import dotenv from 'dotenv';
+import fs from 'fs';
+import mongoose from 'mongoose';
+import AdminArea, { ADMIN_AREA_LEVELS } from '../models/AdminArea';
+import { connectDB } from '../config/database';
+import { AdminAreaSeed, ETHIOPIA_ADMIN_AREAS } from './data/ethiopiaAdminAreas';
+
+dotenv.config();
+
+const fileIndex = process.argv.indexOf('--file');
+const file = fileIndex > -1 ? process.argv[fileIndex + 1] : undefined;
+
+const counts = { created: 0, updated: 0 };
+
+const upsertArea = async (seed: AdminAreaSeed, depth: number, parent?: mongoose.Types.ObjectId) => {
+  const level = ADMIN_AREA_LEVELS[depth];
+  if (!level) {
+    throw new Error(`${seed.code} is nested deeper than the kebele level`);
+  }
+
+  const result = await AdminArea.findOneAndUpdate(
+    { code: seed.code.toUpperCase() },
+    {
+      $set: { name: seed.name, nameAmharic: seed.nameAmharic, level, parent },
+      $addToSet: { aliases: { $each: seed.aliases || [] } }
+    },
+    { upsert: true, new: true, runValidators: true, includeResultMetadata: true }
+  );
+
+  if (result.lastErrorObject?.updatedExisting) {
+    counts.updated++;
+  } else {
+    counts.created++;
+  }
+
+  for (const child of seed.children || []) {
+    await upsertArea(child, depth + 1, result.value!._id as mongoose.Types.ObjectId);
+  }
+};
+
+// A file may start below the region level by naming the parent code on each root entry
+const loadFile = async (path: string) => {
+  const entries: (AdminAreaSeed & { parentCode?: string })[] = JSON.parse(fs.readFileSync(path, 'utf8'));
+
+  for (const entry of entries) {
+    if (!entry.parentCode) {
+      await upsertArea(entry, 0);
+      continue;
+    }
+
+    const parent = await AdminArea.findOne({ code: entry.parentCode.toUpperCase() });
+    if (!parent) {
+      throw new Error(`Parent area ${entry.parentCode} not found for ${entry.code}`);
+    }
+    await upsertArea(entry, ADMIN_AREA_LEVELS.indexOf(parent.level) + 1, parent._id as mongoose.Types.ObjectId);
+  }
+};
+
+const run = async () => {
+  await connectDB();
+  await AdminArea.createIndexes();
+
+  if (file) {
+    await loadFile(file);
+  } else {
+    for (const region of ETHIOPIA_ADMIN_AREAS) {
+      await upsertArea(region, 0);
+    }
+  }
+
+  console.log(`Administrative areas: ${counts.created} created, ${counts.updated} updated`);
+  await mongoose.disconnect();
+};
+
+run().catch(async error => {
+  console.error('Seeding administrative areas failed:', error);
+  await mongoose.disconnect();
+  process.exit(1);
+});
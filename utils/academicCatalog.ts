@@ -0,0 +1,344 @@
+import mongoose, { ClientSession } from 'mongoose';
+import AcademicUnit, { ACADEMIC_UNIT_LEVELS, AcademicUnitLevel, IAcademicUnit } from '../models/AcademicUnit';
+import Student from '../models/Student';
+import { normalizeName } from './fuzzyMatch';
+import { HistoryContext, recordBulkStudentChanges } from './studentHistory';
+import {
+  HierarchyLevelResult,
+  HierarchyMatch,
+  ResolvedHierarchy,
+  createHierarchyResolver
+} from './hierarchyResolver';
+
+export type PlacementInput = Partial<Record<AcademicUnitLevel, string | null>>;
+
+// Student fields holding the catalog entry for each free-text placement field
+export const ACADEMIC_ID_FIELDS: Record<AcademicUnitLevel, string> = {
+  university: 'universityId',
+  college: 'collegeId',
+  department: 'departmentId'
+};
+
+interface UnitCandidate {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  shortName?: string;
+  aliases?: string[];
+}
+
+const namesOf = (unit: UnitCandidate) =>
+  [unit.name, unit.shortName, ...(unit.aliases || [])].filter(Boolean) as string[];
+
+const unitResolver = createHierarchyResolver({
+  levels: ACADEMIC_UNIT_LEVELS,
+  idFields: ACADEMIC_ID_FIELDS,
+  entryKey: 'unit',
+  fuzzyThreshold: 0.85,
+  historyNote: 'Academic catalog normalization',
+  load: (level, parent) =>
+    AcademicUnit.find({ level, parent, isActive: true })
+      .select('name shortName aliases')
+      .lean<UnitCandidate[]>()
+      .exec(),
+  namesOf
+});
+
+// Same meaning as for addresses: unchecked levels have no catalog entries below their parent yet
+export type PlacementMatch = HierarchyMatch;
+export type PlacementLevelResult = HierarchyLevelResult<AcademicUnitLevel, 'unit'>;
+export type ResolvedPlacement = ResolvedHierarchy<AcademicUnitLevel, 'unit'>;
+
+// Universities and their descendants, loaded once per lookup
+export const createUnitLookup = unitResolver.createLookup;
+
+export type UnitLookup = ReturnType<typeof createUnitLookup>;
+
+// Walk university -> college -> department against the catalog
+export const resolvePlacement = unitResolver.resolve;
+
+export const describeUnresolvedPlacement = unitResolver.describeUnresolved;
+
+// Canonical names and catalog IDs to store on a student
+export const placementFields = unitResolver.fieldsOf;
+
+export const hasPlacementInput = unitResolver.hasInput;
+
+// Refresh the catalog IDs of a student document after its placement text was set directly
+export const syncPlacementIds = unitResolver.syncIds;
+
+// Active catalog as a university -> college -> department tree for dropdowns
+export const getCatalogTree = async () => {
+  const units = await AcademicUnit.find({ isActive: true })
+    .select('name shortName level parent')
+    .sort({ name: 1 })
+    .lean();
+
+  const childrenOf = (parent: mongoose.Types.ObjectId, level: AcademicUnitLevel) =>
+    units.filter(unit => unit.level === level && unit.parent?.toString() === parent.toString());
+
+  return units
+    .filter(unit => unit.level === 'university')
+    .map(university => ({
+      _id: university._id,
+      name: university.name,
+      shortName: university.shortName,
+      colleges: childrenOf(university._id, 'college').map(college => ({
+        _id: college._id,
+        name: college.name,
+        departments: childrenOf(college._id, 'department').map(department => ({
+          _id: department._id,
+          name: department.name
+        }))
+      }))
+    }));
+};
+
+// Distinct placements in use, each resolved once against the catalog
+const placementGroups = async () =>
+  (await unitResolver.studentGroups()).map(({ resolved, ...group }) => ({ ...group, placement: resolved }));
+
+export interface PlacementStat {
+  _id: string;  // Canonical name, or the free text when it is not in the catalog
+  unitId?: mongoose.Types.ObjectId;
+  parent?: string;
+  count: number;
+}
+
+// Student counts per university, college and department, with spelling
+// variants of the same catalog entry counted together
+export const getPlacementStatistics = async () => {
+  const groups = await placementGroups();
+  const stats = Object.fromEntries(ACADEMIC_UNIT_LEVELS.map(level => [level, new Map<string, PlacementStat>()])) as
+    Record<AcademicUnitLevel, Map<string, PlacementStat>>;
+
+  for (const { placement, count } of groups) {
+    ACADEMIC_UNIT_LEVELS.forEach((level, index) => {
+      const unitId = placement.ids[level];
+      const parent = index > 0 ? placement.values[ACADEMIC_UNIT_LEVELS[index - 1]] : undefined;
+      // Free text falls back to a normalized key so case and spacing differences still merge
+      const key = unitId ? unitId.toString() : `${normalizeName(parent)}/${normalizeName(placement.values[level])}`;
+
+      const stat = stats[level].get(key) || {
+        _id: placement.values[level] || '',
+        ...(unitId && { unitId }),
+        ...(parent !== undefined && { parent }),
+        count: 0
+      };
+      stat.count += count;
+      stats[level].set(key, stat);
+    });
+  }
+
+  const sorted = (level: AcademicUnitLevel) =>
+    Array.from(stats[level].values()).sort((a, b) => b.count - a.count);
+
+  return {
+    universityStats: sorted('university'),
+    collegeStats: sorted('college'),
+    departmentStats: sorted('department')
+  };
+};
+
+// Free-text values in use at one level, with how they resolve. The basis for
+// picking variants to merge into a catalog entry.
+export const listPlacementVariants = async (level: AcademicUnitLevel) => {
+  const depth = ACADEMIC_UNIT_LEVELS.indexOf(level);
+  const variants = new Map<string, {
+    value: string;
+    within: string[];
+    students: number;
+    match: PlacementMatch;
+    unit?: PlacementLevelResult['unit'];
+    suggestions?: PlacementLevelResult['suggestions'];
+  }>();
+
+  for (const { original, count, placement } of await placementGroups()) {
+    const value = (original[level] || '').trim();
+    if (!value) continue;
+
+    const within = ACADEMIC_UNIT_LEVELS.slice(0, depth).map(parentLevel => placement.values[parentLevel]);
+    const key = [...within, value].join('\u0000');
+    const result = placement.levels[depth];
+
+    const variant = variants.get(key) || {
+      value,
+      within,
+      students: 0,
+      match: result.match,
+      unit: result.unit,
+      suggestions: result.suggestions
+    };
+    variant.students += count;
+    variants.set(key, variant);
+  }
+
+  return Array.from(variants.values()).sort((a, b) => b.students - a.students);
+};
+
+// Catalog entry and its ancestors, widest first
+const unitChain = async (unit: IAcademicUnit, session?: ClientSession) => {
+  const chain: IAcademicUnit[] = [unit];
+  while (chain[0].parent) {
+    const parent = await AcademicUnit.findById(chain[0].parent).session(session || null);
+    if (!parent) break;
+    chain.unshift(parent);
+  }
+  return chain;
+};
+
+const renameHistory = async (
+  studentIds: mongoose.Types.ObjectId[],
+  field: AcademicUnitLevel,
+  before: Map<string, string>,
+  after: string,
+  context: HistoryContext
+) => {
+  await recordBulkStudentChanges(
+    studentIds
+      .filter(id => before.get(id.toString()) !== after)
+      .map(id => ({
+        student: id,
+        changes: [{ field, before: before.get(id.toString()) || null, after }]
+      })),
+    context
+  );
+};
+
+// Fold free-text variants into a catalog entry: they become aliases, and
+// students using them (under the same parent) get the canonical name and IDs
+export const mergeVariantsIntoUnit = async (
+  unit: IAcademicUnit,
+  values: string[],
+  actor?: HistoryContext['actor']
+) => {
+  const chain = await unitChain(unit);
+  const level = unit.level;
+  const variants = Array.from(new Set(values.map(value => value.trim()).filter(Boolean)));
+
+  const filter: any = { [level]: { $in: variants } };
+  if (chain.length > 1) {
+    const parent = chain[chain.length - 2];
+    filter.$or = [
+      { [ACADEMIC_ID_FIELDS[parent.level]]: parent._id },
+      { [parent.level]: { $in: [parent.name, ...parent.aliases] } }
+    ];
+  }
+
+  const set: Record<string, any> = { [level]: unit.name };
+  for (const entry of chain) {
+    set[ACADEMIC_ID_FIELDS[entry.level]] = entry._id;
+  }
+
+  const students = await Student.find(filter).select(`_id ${level}`).lean();
+  const result = await Student.updateMany(filter, { $set: set });
+
+  unit.aliases = Array.from(new Set([...unit.aliases, ...variants.filter(value => value !== unit.name)]));
+  await unit.save();
+
+  await renameHistory(
+    students.map(student => student._id as mongoose.Types.ObjectId),
+    level,
+    new Map(students.map(student => [student._id.toString(), (student as any)[level]])),
+    unit.name,
+    { action: 'update', actor, note: `Merged ${level} variants into catalog` }
+  );
+
+  return { studentsUpdated: result.modifiedCount, aliases: unit.aliases };
+};
+
+// Merge duplicate catalog entries of the same level into the target. Their
+// names become aliases, their children move (or merge into a same-named
+// child of the target) and linked students are re-pointed.
+export const mergeUnits = async (
+  target: IAcademicUnit,
+  sources: IAcademicUnit[],
+  session: ClientSession,
+  actor?: HistoryContext['actor']
+) => {
+  let studentsUpdated = 0;
+  let unitsRemoved = 0;
+
+  for (const source of sources) {
+    const idField = ACADEMIC_ID_FIELDS[source.level];
+
+    const children = await AcademicUnit.find({ parent: source._id }).session(session);
+    for (const child of children) {
+      const siblings = await AcademicUnit.find({ parent: target._id, level: child.level }).session(session);
+      const key = normalizeName(child.name);
+      const twin = siblings.find(sibling => namesOf(sibling).some(name => normalizeName(name) === key));
+
+      if (twin) {
+        const nested = await mergeUnits(twin, [child], session, actor);
+        studentsUpdated += nested.studentsUpdated;
+        unitsRemoved += nested.unitsRemoved;
+      } else {
+        child.parent = target._id as mongoose.Types.ObjectId;
+        await child.save({ session });
+      }
+    }
+
+    // Students linked to the source, and those only carrying one of its
+    // names under the same parent that were never linked
+    const byName: Record<string, any> = {
+      [source.level]: { $in: [source.name, ...source.aliases] },
+      [idField]: null
+    };
+    const parent = source.parent ? await AcademicUnit.findById(source.parent).session(session) : null;
+    if (parent) {
+      byName.$or = [
+        { [ACADEMIC_ID_FIELDS[parent.level]]: parent._id },
+        { [parent.level]: { $in: [parent.name, ...parent.aliases] } }
+      ];
+    }
+    const filter = { $or: [{ [idField]: source._id }, byName] };
+
+    const students = await Student.find(filter).select(`_id ${source.level}`).session(session).lean();
+    const result = await Student.updateMany(
+      filter,
+      { $set: { [idField]: target._id, [source.level]: target.name } },
+      { session }
+    );
+    studentsUpdated += result.modifiedCount;
+
+    await renameHistory(
+      students.map(student => student._id as mongoose.Types.ObjectId),
+      source.level,
+      new Map(students.map(student => [student._id.toString(), (student as any)[source.level]])),
+      target.name,
+      { action: 'update', actor, session, note: `Merged ${source.level} ${source.name} into ${target.name}` }
+    );
+
+    target.aliases = Array.from(new Set([
+      ...target.aliases,
+      ...[source.name, ...source.aliases].filter(name => name !== target.name)
+    ]));
+
+    await AcademicUnit.deleteOne({ _id: source._id }).session(session);
+    unitsRemoved++;
+  }
+
+  await target.save({ session });
+
+  return { studentsUpdated, unitsRemoved };
+};
+
+export interface PlacementNormalizationReport {
+  dryRun: boolean;
+  placements: number;
+  studentsMatched: number;
+  studentsUpdated: number;
+  corrections: { from: PlacementInput; to: PlacementInput; students: number }[];
+  unresolved: { placement: PlacementInput; students: number; problems: string[] }[];
+}
+
+// Map existing free-text placements onto the catalog
+export const normalizeStudentPlacements = async (
+  options: { dryRun?: boolean; actor?: HistoryContext['actor'] } = {}
+): Promise<PlacementNormalizationReport> => {
+  const { groups, unresolved, ...report } = await unitResolver.normalizeStudents(options);
+  return {
+    ...report,
+    placements: groups,
+    unresolved: unresolved.map(({ input, ...entry }) => ({ placement: input, ...entry }))
+  };
+};
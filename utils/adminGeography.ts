@@ -0,0 +1,110 @@
+import mongoose from 'mongoose';
+import AdminArea, { ADMIN_AREA_LEVELS, AdminAreaLevel } from '../models/AdminArea';
+import { normalizeName } from './fuzzyMatch';
+import {
+  HierarchyLevelResult,
+  HierarchyMatch,
+  ResolvedHierarchy,
+  createHierarchyResolver
+} from './hierarchyResolver';
+
+export type AddressInput = Partial<Record<AdminAreaLevel, string | null>>;
+
+// Student fields holding the canonical area for each free-text address field
+export const ADDRESS_ID_FIELDS: Record<AdminAreaLevel, string> = {
+  region: 'regionId',
+  zone: 'zoneId',
+  wereda: 'weredaId',
+  kebele: 'kebeleId'
+};
+
+interface AreaCandidate {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  nameAmharic?: string;
+  aliases?: string[];
+}
+
+const namesOf = (area: AreaCandidate) =>
+  [area.name, area.nameAmharic, ...(area.aliases || [])].filter(Boolean) as string[];
+
+// Kebeles are mostly numbered, so "Kebele 03", "03" and "3" are the same place
+const areaKey = (level: AdminAreaLevel, value: string) => {
+  const key = normalizeName(value);
+  if (level !== 'kebele') return key;
+
+  const stripped = key.replace(/^(kebele|ቀበሌ)/u, '');
+  return /^\d+$/.test(stripped) ? String(Number(stripped)) : stripped;
+};
+
+const areaResolver = createHierarchyResolver({
+  levels: ADMIN_AREA_LEVELS,
+  idFields: ADDRESS_ID_FIELDS,
+  entryKey: 'area',
+  fuzzyThreshold: 0.8,
+  historyNote: 'Address normalization',
+  load: (level, parent) =>
+    AdminArea.find({ level, parent, isActive: true })
+      .select('name nameAmharic aliases')
+      .lean<AreaCandidate[]>()
+      .exec(),
+  namesOf,
+  keyOf: areaKey,
+  // Numbered kebeles are never fuzzy-matched: "12" is not a misspelling of "13"
+  allowFuzzy: (level, key) => !/^\d+$/.test(key)
+});
+
+export type AddressMatch = HierarchyMatch;
+export type AddressLevelResult = HierarchyLevelResult<AdminAreaLevel, 'area'>;
+export type ResolvedAddress = ResolvedHierarchy<AdminAreaLevel, 'area'>;
+
+// Regions and their descendants, loaded once per lookup
+export const createAreaLookup = areaResolver.createLookup;
+
+export type AreaLookup = ReturnType<typeof createAreaLookup>;
+
+// Walk region -> zone -> wereda -> kebele against the reference geography
+export const resolveAddress = areaResolver.resolve;
+
+export const describeUnresolved = areaResolver.describeUnresolved;
+
+// Canonical names and area IDs to store on a student
+export const addressFields = areaResolver.fieldsOf;
+
+export const hasAddressInput = areaResolver.hasInput;
+
+// Refresh the area IDs of a student document after its address text was set directly
+export const syncAddressIds = areaResolver.syncIds;
+
+// Same area at a level: by reference ID when both students have one,
+// otherwise by normalized spelling
+export const sameArea = (a: any, b: any, level: AdminAreaLevel) => {
+  const idField = ADDRESS_ID_FIELDS[level];
+  if (a?.[idField] && b?.[idField]) {
+    return a[idField].toString() === b[idField].toString();
+  }
+
+  const left = a?.[level] ? areaKey(level, a[level]) : '';
+  return !!left && left === (b?.[level] ? areaKey(level, b[level]) : '');
+};
+
+export interface AddressNormalizationReport {
+  dryRun: boolean;
+  addresses: number;
+  studentsMatched: number;
+  studentsUpdated: number;
+  corrections: { from: AddressInput; to: AddressInput; students: number }[];
+  unresolved: { address: AddressInput; students: number; problems: string[] }[];
+}
+
+// Map existing free-text addresses onto the reference data
+export const normalizeStudentAddresses = async (
+  options: { dryRun?: boolean; actor?: { _id?: any; name?: string } } = {}
+): Promise<AddressNormalizationReport> => {
+  const { groups, unresolved, ...report } = await areaResolver.normalizeStudents(options);
+  return {
+    ...report,
+    addresses: groups,
+    unresolved: unresolved.map(({ input, ...entry }) => ({ address: input, ...entry }))
+  };
+};
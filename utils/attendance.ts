@@ -0,0 +1,252 @@
+import mongoose from 'mongoose';
+import { IUser } from '../models/User';
+import Student from '../models/Student';
+import Job, { ACTIVE_JOB_FILTER } from '../models/Job';
+import Agenda from '../models/Agenda';
+import AttendanceSession, { AttendanceSessionKind, IAttendanceSession } from '../models/AttendanceSession';
+import Attendance, { ATTENDED_STATUSES, AttendanceStatus } from '../models/Attendance';
+import Enrollment from '../models/Enrollment';
+import { verifyMemberCode } from './memberQr';
+import { DEPARTMENT_CLASSES } from './jobPolicy';
+
+// Roles that run and see every session; department leaders only their own class
+const LEADERSHIP_ROLES = ['admin', 'Abalat-Guday', 'Secretary', 'Priesedant', 'Vice-Priesedant'];
+
+export const isAttendanceLeader = (user?: IUser) => !!user && LEADERSHIP_ROLES.includes(user.role);
+
+// Leaders of a department run sessions for it; other roles run none
+export const isDepartmentLeader = (user?: IUser) => !!user && DEPARTMENT_CLASSES.includes(user.role);
+
+// Sessions the caller may see
+export const sessionScopeFilter = (user?: IUser): Record<string, any> =>
+  isAttendanceLeader(user) ? {} : { department: user?.role ?? null };
+
+export const canManageSession = (user: IUser | undefined, session: IAttendanceSession) =>
+  isAttendanceLeader(user) || (isDepartmentLeader(user) && !!session.department && session.department === user!.role);
+
+// Members expected at a session: the department's active job holders, the
+// cohort's students, or every active member (optionally one batch) for programs
+export const resolveExpectedStudents = async (session: {
+  kind: AttendanceSessionKind;
+  department?: string;
+  batch?: string;
+  cohort?: mongoose.Types.ObjectId;
+}): Promise<mongoose.Types.ObjectId[]> => {
+  if (session.kind === 'cohort') {
+    return Enrollment.distinct('student', { cohort: session.cohort, status: { $ne: 'dropped' } });
+  }
+
+  if (session.kind === 'program' && !session.department) {
+    const filter: Record<string, any> = { status: 'active', anonymizedAt: { $exists: false } };
+    if (session.batch) filter.batch = session.batch;
+    return (await Student.find(filter).select('_id').lean()).map(student => student._id as mongoose.Types.ObjectId);
+  }
+
+  return Job.distinct('studentId', { class: session.department, ...ACTIVE_JOB_FILTER });
+};
+
+export interface AttendanceEntry {
+  student?: string;
+  gibyGubayeId?: string;
+  code?: string; // Scanned member card QR
+  status?: AttendanceStatus;
+  note?: string;
+}
+
+// Find the member an entry refers to. The QR code is verified against its signature.
+export const resolveMember = async (entry: AttendanceEntry) => {
+  if (entry.code) {
+    const gibyGubayeId = verifyMemberCode(entry.code);
+    if (!gibyGubayeId) return { error: 'Invalid or tampered member code' };
+    entry = { ...entry, gibyGubayeId };
+  }
+
+  let student = null;
+  if (entry.student && mongoose.Types.ObjectId.isValid(entry.student)) {
+    student = await Student.findById(entry.student).select('gibyGubayeId firstName lastName status');
+  } else if (entry.gibyGubayeId) {
+    student = await Student.findOne({ gibyGubayeId: entry.gibyGubayeId.trim() }).select('gibyGubayeId firstName lastName status');
+  } else {
+    return { error: 'Student, gibyGubayeId or code is required' };
+  }
+
+  return student ? { student } : { error: 'Member not found' };
+};
+
+// Upsert attendance for many entries. Entries that cannot be resolved are
+// reported back instead of failing the whole batch.
+export const recordAttendance = async (
+  session: IAttendanceSession,
+  entries: AttendanceEntry[],
+  options: { method: 'qr' | 'bulk'; recordedBy?: mongoose.Types.ObjectId }
+) => {
+  const recorded: { student: mongoose.Types.ObjectId; gibyGubayeId: string; status: AttendanceStatus }[] = [];
+  const failed: { entry: AttendanceEntry; error: string }[] = [];
+
+  for (const entry of entries) {
+    const { student, error } = await resolveMember(entry);
+    if (!student) {
+      failed.push({ entry, error: error as string });
+      continue;
+    }
+
+    const status = entry.status || 'present';
+    await Attendance.updateOne(
+      { session: session._id, student: student._id },
+      {
+        $set: { status, method: options.method, recordedBy: options.recordedBy, note: entry.note },
+        $setOnInsert: { checkedInAt: new Date() }
+      },
+      { upsert: true, runValidators: true }
+    );
+    recorded.push({ student: student._id as mongoose.Types.ObjectId, gibyGubayeId: student.gibyGubayeId, status });
+  }
+
+  return { recorded, failed };
+};
+
+// Agenda sessions feed the agenda's meeting contributors once closed
+export const syncAgendaContributors = async (session: IAttendanceSession) => {
+  if (session.kind !== 'agenda' || !session.agenda) return 0;
+
+  const attendees = await Attendance.distinct('student', {
+    session: session._id,
+    status: { $in: ATTENDED_STATUSES }
+  });
+
+  if (attendees.length === 0) return 0;
+
+  await Agenda.updateOne({ _id: session.agenda }, { $addToSet: { meetingContributors: { $each: attendees } } });
+  return attendees.length;
+};
+
+export interface StudentAttendanceRate {
+  student: mongoose.Types.ObjectId;
+  expected: number; // Sessions the student was expected at, excused ones left out
+  attended: number;
+  excused: number;
+  missed: number;
+  rate: number | null;
+  currentStreak: number; // Consecutive most recent sessions missed
+  lastAttended?: Date;
+}
+
+// Attendance rate per expected member over the sessions matching the filter.
+// Members who attend without being expected are counted too.
+export const computeAttendanceRates = async (sessionFilter: Record<string, any>, studentIds?: mongoose.Types.ObjectId[]) => {
+  const sessions = await AttendanceSession.find(sessionFilter)
+    .select('date expectedStudents')
+    .sort({ date: 1 })
+    .lean();
+
+  const records = await Attendance.find({
+    session: { $in: sessions.map(session => session._id) },
+    ...(studentIds ? { student: { $in: studentIds } } : {})
+  })
+    .select('session student status')
+    .lean();
+
+  const statusBySession = new Map<string, Map<string, AttendanceStatus>>();
+  for (const record of records) {
+    const key = record.session.toString();
+    if (!statusBySession.has(key)) statusBySession.set(key, new Map());
+    statusBySession.get(key)!.set(record.student.toString(), record.status);
+  }
+
+  const wanted = studentIds ? new Set(studentIds.map(id => id.toString())) : null;
+  const rates = new Map<string, StudentAttendanceRate>();
+
+  for (const session of sessions) {
+    const statuses = statusBySession.get(session._id.toString()) || new Map<string, AttendanceStatus>();
+    const members = new Set([...session.expectedStudents.map(id => id.toString()), ...statuses.keys()]);
+
+    for (const id of members) {
+      if (wanted && !wanted.has(id)) continue;
+
+      if (!rates.has(id)) {
+        rates.set(id, {
+          student: new mongoose.Types.ObjectId(id),
+          expected: 0,
+          attended: 0,
+          excused: 0,
+          missed: 0,
+          rate: null,
+          currentStreak: 0
+        });
+      }
+      const rate = rates.get(id)!;
+      const status = statuses.get(id);
+
+      if (status === 'excused') {
+        rate.excused++;
+      } else if (status && ATTENDED_STATUSES.includes(status)) {
+        rate.expected++;
+        rate.attended++;
+        rate.currentStreak = 0;
+        rate.lastAttended = session.date;
+      } else {
+        rate.expected++;
+        rate.missed++;
+        rate.currentStreak++;
+      }
+    }
+  }
+
+  for (const rate of rates.values()) {
+    rate.rate = rate.expected > 0 ? Math.round((rate.attended / rate.expected) * 1000) / 1000 : null;
+  }
+
+  return { sessions: sessions.length, rates: Array.from(rates.values()) };
+};
+
+// Members below the rate threshold or on a run of missed sessions
+export const findAbsentees = async (
+  sessionFilter: Record<string, any>,
+  options: { threshold: number; streak: number }
+) => {
+  const { sessions, rates } = await computeAttendanceRates(sessionFilter);
+
+  const absentees = rates
+    .filter(rate =>
+      (rate.rate !== null && rate.rate < options.threshold) || rate.currentStreak >= options.streak
+    )
+    .sort((a, b) => b.currentStreak - a.currentStreak || (a.rate ?? 0) - (b.rate ?? 0));
+
+  const students = await Student.find({ _id: { $in: absentees.map(rate => rate.student) } })
+    .select('gibyGubayeId firstName middleName lastName phone batch department status')
+    .lean();
+  const byId = new Map(students.map(student => [student._id.toString(), student]));
+
+  return {
+    sessions,
+    absentees: absentees.map(rate => ({ ...rate, student: byId.get(rate.student.toString()) || rate.student }))
+  };
+};
+
+// Session filter shared by list, rate and absentee endpoints
+export const buildSessionFilter = (query: Record<string, any>, user?: IUser) => {
+  const filter: Record<string, any> = { ...sessionScopeFilter(user) };
+
+  for (const field of ['kind', 'program', 'status', 'batch']) {
+    if (query[field]) filter[field] = query[field];
+  }
+  if (query.department && (isAttendanceLeader(user) || query.department === user?.role)) {
+    filter.department = query.department;
+  }
+  for (const field of ['agenda', 'cohort']) {
+    if (query[field] && mongoose.Types.ObjectId.isValid(query[field])) {
+      filter[field] = query[field];
+    }
+  }
+  if (query.from || query.to) {
+    filter.date = {};
+    if (query.from) filter.date.$gte = new Date(query.from);
+    if (query.to) {
+      const to = new Date(query.to);
+      to.setHours(23, 59, 59, 999);
+      filter.date.$lte = to;
+    }
+  }
+
+  return filter;
+};
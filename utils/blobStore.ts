@@ -0,0 +1,116 @@
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+
+export interface BlobInfo {
+  id: mongoose.Types.ObjectId;
+  length: number;
+  contentType: string;
+  fileName: string;
+  uploadDate: Date;
+}
+
+export interface PutBlobOptions {
+  fileName: string;
+  contentType: string;
+  metadata?: Record<string, any>;
+}
+
+// Storage backend for binary image data. GridFS is the default; another
+// backend (S3, disk, ...) only needs to implement this interface.
+export interface BlobStore {
+  put(data: Buffer, options: PutBlobOptions): Promise<BlobInfo>;
+  stat(id: mongoose.Types.ObjectId | string): Promise<BlobInfo | null>;
+  createReadStream(id: mongoose.Types.ObjectId | string, range?: { start: number; end: number }): Readable;
+  delete(id: mongoose.Types.ObjectId | string): Promise<void>;
+}
+
+const toObjectId = (id: mongoose.Types.ObjectId | string) =>
+  typeof id === 'string' ? new mongoose.Types.ObjectId(id) : id;
+
+export class GridFSBlobStore implements BlobStore {
+  private bucket?: mongoose.mongo.GridFSBucket;
+
+  constructor(private bucketName: string = 'images') {}
+
+  // The bucket can only be created once the connection is open
+  private getBucket() {
+    if (!this.bucket) {
+      const db = mongoose.connection.db;
+      if (!db) {
+        throw new Error('Database connection is not ready');
+      }
+      this.bucket = new mongoose.mongo.GridFSBucket(db, { bucketName: this.bucketName });
+    }
+    return this.bucket;
+  }
+
+  put(data: Buffer, options: PutBlobOptions): Promise<BlobInfo> {
+    return new Promise((resolve, reject) => {
+      const upload = this.getBucket().openUploadStream(options.fileName, {
+        metadata: { ...options.metadata, contentType: options.contentType }
+      });
+
+      upload.once('error', reject);
+      upload.once('finish', () => {
+        resolve({
+          id: upload.id as mongoose.Types.ObjectId,
+          length: data.length,
+          contentType: options.contentType,
+          fileName: options.fileName,
+          uploadDate: new Date()
+        });
+      });
+
+      upload.end(data);
+    });
+  }
+
+  async stat(id: mongoose.Types.ObjectId | string): Promise<BlobInfo | null> {
+    const [file] = await this.getBucket().find({ _id: toObjectId(id) }).limit(1).toArray();
+    if (!file) return null;
+
+    return {
+      id: file._id,
+      length: file.length,
+      contentType: file.metadata?.contentType || 'application/octet-stream',
+      fileName: file.filename,
+      uploadDate: file.uploadDate
+    };
+  }
+
+  // GridFS treats `end` as exclusive; callers pass an inclusive HTTP byte range
+  createReadStream(id: mongoose.Types.ObjectId | string, range?: { start: number; end: number }): Readable {
+    return this.getBucket().openDownloadStream(
+      toObjectId(id),
+      range ? { start: range.start, end: range.end + 1 } : undefined
+    );
+  }
+
+  async delete(id: mongoose.Types.ObjectId | string): Promise<void> {
+    try {
+      await this.getBucket().delete(toObjectId(id));
+    } catch (error: any) {
+      // Already gone - nothing to clean up
+      if (!/FileNotFound|File not found/i.test(error.message)) {
+        throw error;
+      }
+    }
+  }
+}
+
+let blobStore: BlobStore = new GridFSBlobStore(process.env.IMAGE_BUCKET || 'images');
+
+export const getBlobStore = () => blobStore;
+
+export const setBlobStore = (store: BlobStore) => {
+  blobStore = store;
+};
+
+// Read a whole blob into memory - only for small files such as a single photo
+export const readBlob = async (id: mongoose.Types.ObjectId | string): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of getBlobStore().createReadStream(id)) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+};
@@ -0,0 +1,197 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { IUser } from '../models/User';
+import Student from '../models/Student';
+import Job, { ACTIVE_JOB_FILTER, IJob, isActiveJob } from '../models/Job';
+import { ITeam } from '../models/Team';
+import { IneligibilityReason, assignStudentToClass } from './jobPolicy';
+import { moveJobsToTeam } from './teams';
+
+export interface BulkJobItem {
+  student: string;
+  gibyGubayeId?: string;
+  outcome: 'assigned' | 'pending' | 'removed' | 'moved' | 'transferred' | 'unchanged' | 'failed';
+  job?: mongoose.Types.ObjectId;
+  error?: string;
+  reasons?: IneligibilityReason[];
+}
+
+// Every bulk operation runs in one transaction, so lists are kept short
+export const MAX_BULK_STUDENTS = 500;
+
+// Deduplicated, valid ids; the invalid ones are reported as failures
+const splitIds = (ids: string[]) => {
+  const unique = Array.from(new Set(ids.map(String)));
+  return {
+    valid: unique.filter(id => mongoose.Types.ObjectId.isValid(id)),
+    invalid: unique.filter(id => !mongoose.Types.ObjectId.isValid(id))
+  };
+};
+
+const invalidItems = (ids: string[]): BulkJobItem[] =>
+  ids.map(student => ({ student, outcome: 'failed', error: 'Invalid student ID' }));
+
+export const summarizeBulkItems = (items: BulkJobItem[]) => {
+  const outcomes: Record<string, number> = {};
+  for (const item of items) outcomes[item.outcome] = (outcomes[item.outcome] || 0) + 1;
+  return { total: items.length, failed: outcomes.failed || 0, outcomes, items };
+};
+
+// End an assignment and uncount it. Pending ones are rejected instead.
+const closeJob = async (job: IJob, reason: string, session: ClientSession) => {
+  const counted = isActiveJob(job);
+  if (job.status === 'pending') {
+    job.status = 'rejected';
+    job.reviewedAt = new Date();
+  } else {
+    job.status = 'ended';
+    job.endedAt = new Date();
+  }
+  job.endReason = reason;
+  await job.save({ session });
+
+  if (counted) {
+    await Student.updateOne({ _id: job.studentId }, { $inc: { numberOfJob: -1 } }, { session });
+  }
+  return counted;
+};
+
+// Assign every listed student to the class, each through the policy checks
+export const bulkAssign = async (
+  className: string,
+  studentIds: string[],
+  options: { actor: IUser; team?: ITeam | null; session: ClientSession }
+) => {
+  const { valid, invalid } = splitIds(studentIds);
+  const items = invalidItems(invalid);
+
+  for (const id of valid) {
+    const result = await assignStudentToClass(id, className, options);
+    if (result.error) {
+      items.push({ student: id, outcome: 'failed', error: result.error });
+    } else if (result.reasons) {
+      items.push({
+        student: id,
+        outcome: 'failed',
+        error: result.reasons.map(reason => reason.message).join('; '),
+        reasons: result.reasons
+      });
+    } else {
+      items.push({
+        student: id,
+        gibyGubayeId: result.student.gibyGubayeId,
+        outcome: result.approved ? 'assigned' : 'pending',
+        job: result.job._id as mongoose.Types.ObjectId
+      });
+    }
+  }
+
+  return summarizeBulkItems(items);
+};
+
+// End the listed students' assignments in the class, keeping them as history
+export const bulkRemove = async (
+  className: string,
+  studentIds: string[],
+  options: { reason?: string; session: ClientSession }
+) => {
+  const { valid, invalid } = splitIds(studentIds);
+  const items = invalidItems(invalid);
+  const reason = options.reason || `Removed from ${className}`;
+
+  const jobs = await Job.find({
+    class: className,
+    studentId: { $in: valid },
+    status: { $nin: ['ended', 'rejected'] }
+  })
+    .populate('studentId', 'gibyGubayeId')
+    .session(options.session);
+  const byStudent = new Map(jobs.map(job => [String((job.studentId as any)?._id || job.studentId), job]));
+
+  for (const id of valid) {
+    const job = byStudent.get(id);
+    if (!job) {
+      items.push({ student: id, outcome: 'failed', error: `No current ${className} assignment` });
+      continue;
+    }
+
+    const gibyGubayeId = (job.studentId as any)?.gibyGubayeId;
+    job.depopulate('studentId');
+    await closeJob(job, reason, options.session);
+    items.push({ student: id, gibyGubayeId, outcome: 'removed', job: job._id as mongoose.Types.ObjectId });
+  }
+
+  return summarizeBulkItems(items);
+};
+
+// Move members from one class or team to another. Within a class only the
+// team changes; across classes the old term ends and a new assignment is made
+// through the target's policy. A student the target refuses keeps the old job.
+export const bulkTransfer = async (
+  from: { class: string; team?: ITeam | null },
+  to: { class: string; team?: ITeam | null },
+  options: { students?: string[]; actor: IUser; session: ClientSession }
+) => {
+  const { session } = options;
+  const selection = options.students ? splitIds(options.students) : null;
+  const items = invalidItems(selection?.invalid || []);
+
+  const jobs = await Job.find({
+    class: from.class,
+    ...(from.team ? { team: from.team._id } : {}),
+    ...(selection ? { studentId: { $in: selection.valid } } : {}),
+    ...ACTIVE_JOB_FILTER
+  }).session(session);
+
+  const found = new Set(jobs.map(job => job.studentId.toString()));
+  for (const id of selection?.valid || []) {
+    if (!found.has(id)) {
+      items.push({ student: id, outcome: 'failed', error: `No current assignment in ${from.team?.name || from.class}` });
+    }
+  }
+
+  if (from.class === to.class) {
+    const report = await moveJobsToTeam(to.class, jobs.map(job => job._id.toString()), to.team || null, session);
+    for (const item of report.items) {
+      items.push({
+        student: String(item.student),
+        outcome: item.outcome,
+        job: new mongoose.Types.ObjectId(item.job),
+        error: item.error
+      });
+    }
+    return summarizeBulkItems(items);
+  }
+
+  for (const job of jobs) {
+    const student = job.studentId.toString();
+    const previous = { status: job.status, endedAt: job.endedAt, endReason: job.endReason };
+
+    await closeJob(job, `Transferred to ${to.class}`, session);
+    const result = await assignStudentToClass(student, to.class, { actor: options.actor, team: to.team, session });
+
+    if (result.error || result.reasons) {
+      // Put the old assignment back as it was
+      job.set(previous);
+      await job.save({ session });
+      await Student.updateOne({ _id: job.studentId }, { $inc: { numberOfJob: 1 } }, { session });
+
+      items.push({
+        student,
+        outcome: 'failed',
+        job: job._id as mongoose.Types.ObjectId,
+        error: result.error || result.reasons!.map(reason => reason.message).join('; '),
+        reasons: result.reasons
+      });
+      continue;
+    }
+
+    items.push({
+      student,
+      gibyGubayeId: result.student.gibyGubayeId,
+      outcome: result.approved ? 'transferred' : 'pending',
+      job: result.job._id as mongoose.Types.ObjectId
+    });
+  }
+
+  return summarizeBulkItems(items);
+};
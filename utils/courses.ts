@@ -0,0 +1,248 @@
+import mongoose, { ClientSession } from 'mongoose';
+import PDFDocument from 'pdfkit';
+import { Response } from 'express';
+import { IUser } from '../models/User';
+import Student, { IStudent } from '../models/Student';
+import Counter from '../models/Counter';
+import { ICourse } from '../models/Course';
+import { ICourseCohort } from '../models/CourseCohort';
+import Enrollment, { IEnrollment } from '../models/Enrollment';
+import { computeAttendanceRates } from './attendance';
+import { HistoryContext, diffStudent, recordStudentChange } from './studentHistory';
+import { memberQrPng } from './memberQr';
+import { PDF_FONT, PDF_FONT_BOLD, registerPdfFonts } from './pdfFonts';
+import { DEPARTMENT_CLASSES } from './jobPolicy';
+
+// Roles that manage every course; the running department manages its own
+const COURSE_ADMIN_ROLES = ['admin', 'Abalat-Guday', 'Secretary'];
+
+export const canManageCourses = (user?: IUser) =>
+  !!user && (COURSE_ADMIN_ROLES.includes(user.role) || DEPARTMENT_CLASSES.includes(user.role));
+
+export const canManageCourse = (user: IUser | undefined, course: Pick<ICourse, 'department'>) =>
+  canManageCourses(user) && (COURSE_ADMIN_ROLES.includes(user!.role) || user!.role === course.department);
+
+// Enrollments with what the derived student fields need, newest first
+export const findCourseEnrollments = (studentIds: mongoose.Types.ObjectId[], session?: ClientSession) =>
+  Enrollment.find({ student: { $in: studentIds } })
+    .populate('course', 'name code')
+    .populate('cohort', 'church startDate')
+    .sort({ enrolledAt: -1 })
+    .session(session || null);
+
+// Set attendsCourse, courseName, courseChurch and completedCourses on a
+// loaded student from its enrollments
+export const applyCourseFields = (student: IStudent, enrollments: IEnrollment[]) => {
+  const active = enrollments.find(item => item.status === 'enrolled');
+  const course = active?.course as any;
+  const cohort = active?.cohort as any;
+
+  student.attendsCourse = !!active;
+  student.set('courseName', active ? `${course?.name} - Level ${active.level}` : undefined);
+  student.set('courseChurch', active ? cohort?.church : undefined);
+  student.completedCourses = enrollments
+    .filter(item => item.status === 'completed')
+    .map(item => ({
+      course: (item.course as any)?._id || item.course,
+      code: (item.course as any)?.code,
+      level: item.level,
+      completedAt: item.completedAt
+    }));
+};
+
+// Rewrite the derived course fields from the enrollments. Students never
+// enrolled through the catalog keep their legacy values.
+export const syncStudentCourseFields = async (
+  studentIds: mongoose.Types.ObjectId[],
+  options: { actor?: HistoryContext['actor']; session?: ClientSession } = {}
+) => {
+  const { session } = options;
+  const enrollments = await findCourseEnrollments(studentIds, session);
+
+  const byStudent = new Map<string, IEnrollment[]>();
+  for (const enrollment of enrollments) {
+    const key = enrollment.student.toString();
+    if (!byStudent.has(key)) byStudent.set(key, []);
+    byStudent.get(key)!.push(enrollment);
+  }
+
+  let updated = 0;
+  for (const [id, items] of byStudent) {
+    const student = await Student.findById(id).session(session || null);
+    if (!student) continue;
+
+    const before = student.toObject();
+    applyCourseFields(student, items);
+
+    if (!student.isModified()) continue;
+
+    await student.save({ session });
+    await recordStudentChange(student._id as mongoose.Types.ObjectId, diffStudent(before, student), {
+      action: 'update',
+      actor: options.actor,
+      session,
+      note: 'Course enrollment'
+    });
+    updated++;
+  }
+
+  return updated;
+};
+
+// Weighted percentage over the cohort's assessments. Missing scores count as zero.
+export const computeFinalScore = (cohort: ICourseCohort, enrollment: IEnrollment) => {
+  const totalWeight = cohort.assessments.reduce((sum, assessment) => sum + assessment.weight, 0);
+  if (cohort.assessments.length === 0 || totalWeight === 0) return null;
+
+  const weighted = cohort.assessments.reduce((sum, assessment) => {
+    const entry = enrollment.scores.find(score => score.assessment.toString() === assessment._id.toString());
+    return sum + assessment.weight * Math.min((entry?.score || 0) / assessment.maxScore, 1);
+  }, 0);
+
+  return Math.round((weighted / totalWeight) * 1000) / 10;
+};
+
+// Certificate numbers run per course, e.g. TIM-BASIC-L2-0007
+export const nextCertificateNumber = async (course: ICourse, level: number, session?: ClientSession) => {
+  const counter = await Counter.findOneAndUpdate(
+    { name: `certificate:${course.code}` },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, session }
+  );
+  return `${course.code}-L${level}-${counter.seq.toString().padStart(4, '0')}`;
+};
+
+// Decide every open enrollment of a cohort from its final score and its
+// attendance at the cohort's sessions. A dry run returns the outcome without saving.
+export const evaluateCohort = async (
+  cohort: ICourseCohort,
+  course: ICourse,
+  options: { dryRun: boolean; actor?: HistoryContext['actor']; session?: ClientSession }
+) => {
+  const { session } = options;
+  const levelRules = course.levels.find(level => level.level === cohort.level);
+  const passMark = levelRules?.passMark ?? 50;
+  const minAttendance = levelRules?.minAttendance ?? 0;
+
+  const enrollments = await Enrollment.find({ cohort: cohort._id, status: 'enrolled' }).session(session || null);
+  const { sessions, rates } = await computeAttendanceRates({ kind: 'cohort', cohort: cohort._id });
+  const rateByStudent = new Map(rates.map(rate => [rate.student.toString(), rate.rate]));
+
+  const results = [];
+  for (const enrollment of enrollments) {
+    const finalScore = computeFinalScore(cohort, enrollment);
+    // No sessions means no attendance requirement, no assessments no score requirement
+    const attendanceRate = sessions > 0 ? rateByStudent.get(enrollment.student.toString()) ?? 0 : null;
+    const passed = (finalScore === null || finalScore >= passMark) &&
+      (attendanceRate === null || attendanceRate >= minAttendance);
+
+    const result = {
+      enrollment: enrollment._id,
+      student: enrollment.student,
+      finalScore,
+      attendanceRate,
+      outcome: passed ? 'completed' : 'failed',
+      certificateNumber: undefined as string | undefined
+    };
+
+    if (!options.dryRun) {
+      enrollment.finalScore = finalScore ?? undefined;
+      enrollment.attendanceRate = attendanceRate ?? undefined;
+      enrollment.status = passed ? 'completed' : 'failed';
+      enrollment.completedAt = new Date();
+      if (passed) {
+        enrollment.certificateNumber = await nextCertificateNumber(course, cohort.level, session);
+        enrollment.certificateIssuedAt = new Date();
+        result.certificateNumber = enrollment.certificateNumber;
+      }
+      await enrollment.save({ session });
+    }
+
+    results.push(result);
+  }
+
+  if (!options.dryRun) {
+    cohort.status = 'completed';
+    await cohort.save({ session });
+    await syncStudentCourseFields(enrollments.map(enrollment => enrollment.student), {
+      actor: options.actor,
+      session
+    });
+  }
+
+  return {
+    passMark,
+    minAttendance,
+    sessions,
+    completed: results.filter(result => result.outcome === 'completed').length,
+    failed: results.filter(result => result.outcome === 'failed').length,
+    results
+  };
+};
+
+// Students who have not completed the level below. Level 1 has no prerequisite.
+export const missingPrerequisite = async (course: ICourse, level: number, studentIds: mongoose.Types.ObjectId[]) => {
+  const previous = course.levels
+    .map(item => item.level)
+    .filter(item => item < level)
+    .sort((a, b) => b - a)[0];
+  if (previous === undefined) return [];
+
+  const passed = new Set(
+    (await Enrollment.distinct('student', {
+      student: { $in: studentIds },
+      course: course._id,
+      level: previous,
+      status: 'completed'
+    })).map(id => id.toString())
+  );
+
+  return studentIds.filter(id => !passed.has(id.toString()));
+};
+
+// A4 landscape completion certificate with the member's verification QR
+export const writeCertificatePdf = async (
+  res: Response,
+  data: { student: any; course: ICourse; cohort: ICourseCohort; enrollment: IEnrollment }
+) => {
+  const { student, course, cohort, enrollment } = data;
+  const title = process.env.ID_CARD_TITLE || 'Giby Gubaye';
+  const levelTitle = course.levels.find(level => level.level === enrollment.level)?.title;
+  const name = [student.firstName, student.middleName, student.lastName].filter(Boolean).join(' ');
+
+  const doc = registerPdfFonts(new PDFDocument({ size: 'A4', layout: 'landscape', margin: 50 }));
+  doc.pipe(res);
+
+  const width = doc.page.width;
+  const height = doc.page.height;
+
+  doc.rect(20, 20, width - 40, height - 40).lineWidth(3).stroke('#1e3a5f');
+  doc.rect(28, 28, width - 56, height - 56).lineWidth(0.5).stroke('#1e3a5f');
+
+  doc.fillColor('#1e3a5f').font(PDF_FONT_BOLD).fontSize(18).text(title, 0, 70, { width, align: 'center' });
+  doc.fontSize(32).text('Certificate of Completion', 0, 110, { width, align: 'center' });
+
+  doc.fillColor('#000000').font(PDF_FONT).fontSize(14)
+    .text('This is to certify that', 0, 180, { width, align: 'center' });
+  doc.font(PDF_FONT_BOLD).fontSize(26).text(name, 0, 210, { width, align: 'center' });
+  doc.font(PDF_FONT).fontSize(14)
+    .text('has successfully completed', 0, 260, { width, align: 'center' });
+  doc.font(PDF_FONT_BOLD).fontSize(18)
+    .text(`${course.name} - Level ${enrollment.level}${levelTitle ? `: ${levelTitle}` : ''}`, 0, 290, { width, align: 'center' });
+  doc.font(PDF_FONT).fontSize(12)
+    .text([cohort.name, cohort.church].filter(Boolean).join(', '), 0, 325, { width, align: 'center' });
+
+  const issued = (enrollment.certificateIssuedAt || enrollment.completedAt || new Date()).toISOString().slice(0, 10);
+  doc.fontSize(11)
+    .text(`Certificate No: ${enrollment.certificateNumber}`, 70, height - 120)
+    .text(`Member ID: ${student.gibyGubayeId}`, 70, height - 104)
+    .text(`Issued: ${issued}`, 70, height - 88);
+  if (enrollment.finalScore !== undefined && enrollment.finalScore !== null) {
+    doc.text(`Final score: ${enrollment.finalScore}%`, 70, height - 72);
+  }
+
+  const qr = await memberQrPng(student.gibyGubayeId);
+  doc.image(qr, width - 170, height - 170, { width: 100, height: 100 });
+
+  doc.end();
+};
@@ -0,0 +1,352 @@
+import mongoose, { ClientSession } from 'mongoose';
+import cron from 'node-cron';
+import Student, { IStudent } from '../models/Student';
+import User from '../models/User';
+import Job from '../models/Job';
+import Family from '../models/Family';
+import Team from '../models/Team';
+import Agenda from '../models/Agenda';
+import Attendance from '../models/Attendance';
+import Enrollment from '../models/Enrollment';
+import DepartmentApplication from '../models/DepartmentApplication';
+import Notification from '../models/Notification';
+import StudentHistory from '../models/StudentHistory';
+import ProfileUpdateRequest from '../models/ProfileUpdateRequest';
+import RetentionPolicy from '../models/RetentionPolicy';
+import RetentionRun, { IRetentionRunItem } from '../models/RetentionRun';
+import { applyStatusChange, endStudentAssignments } from './studentLifecycle';
+import { HistoryContext, recordStudentChange } from './studentHistory';
+import { deleteImageWithVariants } from './imageVariants';
+import { familyMembershipQuery } from './studentMerge';
+
+export const ANONYMIZED = 'Anonymized';
+
+// Fields that identify a person. Gender, batch, placement, region, zone,
+// languages and status stay so aggregate statistics are unchanged.
+export const SCRUBBED_FIELDS = [
+  'firstName',
+  'middleName',
+  'lastName',
+  'motherName',
+  'phone',
+  'email',
+  'emergencyContact',
+  'dateOfBirth',
+  'block',
+  'dorm',
+  'wereda',
+  'kebele',
+  'church',
+  'authority',
+  'job',
+  'courseName',
+  'courseChurch',
+  'photo',
+  'statusReason'
+];
+
+export interface RetentionSettings {
+  enabled: boolean;
+  statuses: string[];
+  retentionDays: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionSettings = {
+  enabled: false,
+  statuses: ['graduated', 'inactive'],
+  retentionDays: 5 * 365
+};
+
+export const getRetentionPolicy = async (): Promise<RetentionSettings> => {
+  const policy = await RetentionPolicy.findOne({ name: 'students' }).lean();
+  if (!policy) return DEFAULT_RETENTION_POLICY;
+
+  const { enabled, statuses, retentionDays } = policy;
+  return { enabled, statuses, retentionDays };
+};
+
+// Records that would be left dangling if the student were hard-deleted
+export const countStudentReferences = async (studentId: mongoose.Types.ObjectId) => {
+  const [jobs, families, agendas, attendance, enrollments, applications, teams] = await Promise.all([
+    Job.countDocuments({ studentId }),
+    Family.countDocuments({ $or: [...familyMembershipQuery(studentId), { 'endedRoles.student': studentId }] }),
+    Agenda.countDocuments({ $or: [{ draftContributors: studentId }, { meetingContributors: studentId }] }),
+    Attendance.countDocuments({ student: studentId }),
+    Enrollment.countDocuments({ student: studentId }),
+    DepartmentApplication.countDocuments({ student: studentId }),
+    Team.countDocuments({ lead: studentId })
+  ]);
+  return {
+    jobs,
+    families,
+    agendas,
+    attendance,
+    enrollments,
+    applications,
+    teams,
+    total: jobs + families + agendas + attendance + enrollments + applications + teams
+  };
+};
+
+// Scrub personal data from one member while keeping the record, so jobs,
+// families, agendas and statistics still point at a valid student.
+// Photos are removed from the blob store after the transaction commits,
+// so the caller gets back the files to delete.
+export const anonymizeStudent = async (
+  student: IStudent,
+  options: { reason: string; actor?: HistoryContext['actor']; session?: ClientSession }
+) => {
+  const { session } = options;
+  const studentId = student._id as mongoose.Types.ObjectId;
+  const photo = { fileId: student.photoFileId, variants: student.photoVariants };
+  const birthYear = student.dateOfBirth ? new Date(student.dateOfBirth).getUTCFullYear() : null;
+
+  // A member asking to be forgotten has left
+  if (student.status === 'active') {
+    applyStatusChange(student, { status: 'inactive', changedBy: options.actor?._id });
+  }
+
+  student.anonymizedAt = new Date();
+  student.anonymizationReason = options.reason;
+  student.firstName = ANONYMIZED;
+  student.lastName = 'Member';
+  student.motherName = ANONYMIZED;
+  student.phone = `anon-${studentId}`;
+  student.email = `anon-${studentId}@anonymized.invalid`;
+  student.emergencyContact = `anon-${studentId}`;
+  // Only the birth year is kept, for age statistics
+  if (birthYear) student.dateOfBirth = new Date(Date.UTC(birthYear, 0, 1));
+  for (const field of ['block', 'dorm', 'wereda', 'kebele', 'church', 'authority', 'job'] as const) {
+    student[field] = ANONYMIZED;
+  }
+  student.set({
+    middleName: undefined,
+    courseName: undefined,
+    courseChurch: undefined,
+    statusReason: undefined,
+    weredaId: undefined,
+    kebeleId: undefined,
+    photo: '',
+    photoData: undefined,
+    photoFileId: undefined,
+    photoVariants: undefined
+  });
+  for (const change of student.statusHistory) {
+    change.reason = undefined;
+  }
+
+  await student.save({ session });
+
+  // Earlier values must not survive in the edit history or in profile requests
+  const history = await StudentHistory.updateMany(
+    { student: studentId, 'changes.field': { $in: SCRUBBED_FIELDS } },
+    { $set: { 'changes.$[change].before': null, 'changes.$[change].after': null } },
+    { arrayFilters: [{ 'change.field': { $in: SCRUBBED_FIELDS } }], session }
+  );
+  const requests = await ProfileUpdateRequest.updateMany(
+    { student: studentId, 'changes.field': { $in: SCRUBBED_FIELDS } },
+    { $set: { 'changes.$[change].current': null, 'changes.$[change].proposed': null } },
+    { arrayFilters: [{ 'change.field': { $in: SCRUBBED_FIELDS } }], session }
+  );
+  await ProfileUpdateRequest.updateMany(
+    { student: studentId, status: 'pending' },
+    { $set: { status: 'cancelled', reviewNote: 'Member data anonymized' } },
+    { session }
+  );
+  await DepartmentApplication.updateMany(
+    { student: studentId },
+    { $unset: { motivation: 1 } },
+    { session }
+  );
+  await DepartmentApplication.updateMany(
+    { student: studentId, status: 'pending' },
+    { $set: { status: 'withdrawn', reviewNote: 'Member data anonymized' } },
+    { session }
+  );
+  // Notifications about the member quote their name
+  const notifications = await Notification.updateMany(
+    { 'data.student': studentId },
+    { $set: { title: ANONYMIZED, message: 'Member data anonymized' } },
+    { session }
+  );
+
+  // Contact details copied into family trees when the member became a parent
+  let familyContactsScrubbed = 0;
+  for (const parent of ['father', 'mother'] as const) {
+    const families = await Family.updateMany(
+      { [`grandParents.families.${parent}.student`]: studentId },
+      {
+        $set: {
+          [`grandParents.$[].families.$[family].${parent}.phone`]: null,
+          [`grandParents.$[].families.$[family].${parent}.email`]: null
+        }
+      },
+      { arrayFilters: [{ [`family.${parent}.student`]: studentId }], session }
+    );
+    familyContactsScrubbed += families.modifiedCount;
+  }
+
+  // Login accounts carry their own copy of the name and contact details.
+  // They are deactivated, and the unique fields get placeholders.
+  const users = await User.find({ studentId }).select('_id').session(session || null).lean();
+  for (const user of users) {
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: {
+          name: ANONYMIZED,
+          email: `anon-${user._id}@anonymized.invalid`,
+          phone: `anon-${user._id}`,
+          gibyGubayeId: `anon-${user._id}`,
+          isActive: false
+        },
+        $unset: { background: 1 }
+      },
+      { session }
+    );
+  }
+
+  const ended = await endStudentAssignments([studentId], { reason: 'Member data anonymized', session });
+
+  await recordStudentChange(studentId, [], {
+    action: 'anonymize',
+    actor: options.actor,
+    session,
+    note: options.reason
+  });
+
+  return {
+    summary: {
+      student: studentId,
+      gibyGubayeId: student.gibyGubayeId,
+      historyEntriesScrubbed: history.modifiedCount,
+      profileRequestsScrubbed: requests.modifiedCount,
+      notificationsScrubbed: notifications.modifiedCount,
+      familyContactsScrubbed,
+      usersDeactivated: users.length,
+      ...ended
+    },
+    photo
+  };
+};
+
+// Anonymize in its own transaction, then remove the photo files
+export const anonymizeStudentById = async (
+  studentId: mongoose.Types.ObjectId | string,
+  options: { reason: string; actor?: HistoryContext['actor'] }
+) => {
+  const session = await mongoose.startSession();
+
+  try {
+    session.startTransaction();
+
+    const student = await Student.findById(studentId).session(session);
+    if (!student || student.anonymizedAt) {
+      await session.abortTransaction();
+      return null;
+    }
+
+    const { summary, photo } = await anonymizeStudent(student, { ...options, session });
+    await session.commitTransaction();
+
+    await deleteImageWithVariants(photo.fileId, photo.variants);
+    return summary;
+  } catch (error) {
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+};
+
+// Students the policy would anonymize now. Records saved before status
+// dates existed fall back to their last update.
+export const findRetentionCandidates = async (policy: RetentionSettings, now: Date = new Date()) => {
+  const cutoff = new Date(now.getTime() - policy.retentionDays * 24 * 60 * 60 * 1000);
+
+  const students = await Student.find({
+    status: { $in: policy.statuses },
+    anonymizedAt: { $exists: false },
+    $or: [
+      { statusEffectiveDate: { $lte: cutoff } },
+      { statusEffectiveDate: { $exists: false }, updatedAt: { $lte: cutoff } }
+    ]
+  })
+    .select('gibyGubayeId status statusEffectiveDate')
+    .sort({ statusEffectiveDate: 1 })
+    .lean();
+
+  return { cutoff, students };
+};
+
+// One retention pass. A dry run only lists who would be anonymized.
+// Every run is stored as a RetentionRun report.
+export const runRetention = async (options: {
+  trigger: 'schedule' | 'manual';
+  dryRun?: boolean;
+  actor?: HistoryContext['actor'];
+  policy?: RetentionSettings;
+}) => {
+  const policy = options.policy || await getRetentionPolicy();
+  const dryRun = !!options.dryRun;
+  const { cutoff, students } = await findRetentionCandidates(policy);
+
+  const run = await RetentionRun.create({
+    trigger: options.trigger,
+    dryRun,
+    policy: { statuses: policy.statuses, retentionDays: policy.retentionDays, cutoff },
+    startedBy: options.actor?._id,
+    startedAt: new Date(),
+    eligible: students.length
+  });
+
+  const items: IRetentionRunItem[] = [];
+  for (const student of students) {
+    const item: IRetentionRunItem = {
+      student: student._id as mongoose.Types.ObjectId,
+      gibyGubayeId: student.gibyGubayeId,
+      status: student.status,
+      statusEffectiveDate: student.statusEffectiveDate,
+      outcome: 'eligible'
+    };
+
+    if (!dryRun) {
+      try {
+        await anonymizeStudentById(student._id, {
+          reason: `Retention policy: ${student.status} for over ${policy.retentionDays} days`,
+          actor: options.actor
+        });
+        item.outcome = 'anonymized';
+      } catch (error: any) {
+        item.outcome = 'failed';
+        item.error = error.message;
+      }
+    }
+
+    items.push(item);
+  }
+
+  run.items = items;
+  run.anonymized = items.filter(item => item.outcome === 'anonymized').length;
+  run.failed = items.filter(item => item.outcome === 'failed').length;
+  run.finishedAt = new Date();
+  await run.save();
+
+  return run;
+};
+
+// Daily retention pass at 02:00, only while the policy is enabled
+export const scheduleRetention = () =>
+  cron.schedule('0 2 * * *', async () => {
+    try {
+      const policy = await getRetentionPolicy();
+      if (!policy.enabled) return;
+
+      const run = await runRetention({ trigger: 'schedule', policy });
+      console.log(`Retention run finished: ${run.anonymized} anonymized, ${run.failed} failed`);
+    } catch (error) {
+      console.error('Error running retention policy:', error);
+    }
+  });
@@ -0,0 +1,132 @@
+// Ethiopian <-> Gregorian conversion through the Julian Day Number.
+// The Ethiopian year has twelve 30-day months and a 13th month (Pagume) of
+// 5 days, or 6 in the year before a Gregorian leap year (year % 4 === 3).
+
+export type CalendarType = 'gregorian' | 'ethiopian';
+
+export interface EthiopianDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export const ETHIOPIAN_MONTHS = [
+  'Meskerem',
+  'Tikimt',
+  'Hidar',
+  'Tahsas',
+  'Tir',
+  'Yekatit',
+  'Megabit',
+  'Miyazya',
+  'Ginbot',
+  'Sene',
+  'Hamle',
+  'Nehase',
+  'Pagume'
+];
+
+// JDN of the day before 1 Meskerem 1 (Amete Mihret era), minus 365
+const ETHIOPIAN_EPOCH = 1723856;
+
+// An Ethiopian academic year starts in Meskerem, which falls in September of
+// Gregorian year (Ethiopian year + 7)
+export const ETHIOPIAN_YEAR_OFFSET = 7;
+
+const gregorianToJdn = (year: number, month: number, day: number) => {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  return day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+};
+
+const jdnToGregorian = (jdn: number) => {
+  const a = jdn + 32044;
+  const b = Math.floor((4 * a + 3) / 146097);
+  const c = a - Math.floor(146097 * b / 4);
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor(1461 * d / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+
+  return {
+    year: 100 * b + d - 4800 + Math.floor(m / 10),
+    month: m + 3 - 12 * Math.floor(m / 10),
+    day: e - Math.floor((153 * m + 2) / 5) + 1
+  };
+};
+
+const ethiopianToJdn = ({ year, month, day }: EthiopianDate) =>
+  ETHIOPIAN_EPOCH + 365 + 365 * (year - 1) + Math.floor(year / 4) + 30 * month + day - 31;
+
+const jdnToEthiopian = (jdn: number): EthiopianDate => {
+  const r = (jdn - ETHIOPIAN_EPOCH) % 1461;
+  const n = (r % 365) + 365 * Math.floor(r / 1460);
+
+  return {
+    year: 4 * Math.floor((jdn - ETHIOPIAN_EPOCH) / 1461) + Math.floor(r / 365) - Math.floor(r / 1460),
+    month: Math.floor(n / 30) + 1,
+    day: (n % 30) + 1
+  };
+};
+
+export const isEthiopianLeapYear = (year: number) => year % 4 === 3;
+
+export const isValidEthiopianDate = ({ year, month, day }: EthiopianDate) => {
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) return false;
+  if (year < 1 || month < 1 || month > 13 || day < 1) return false;
+  if (month < 13) return day <= 30;
+  return day <= (isEthiopianLeapYear(year) ? 6 : 5);
+};
+
+// Dates are stored as UTC midnight, so conversion works on the UTC calendar day
+export const toEthiopian = (date: Date): EthiopianDate =>
+  jdnToEthiopian(gregorianToJdn(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()));
+
+export const fromEthiopian = (date: EthiopianDate): Date => {
+  if (!isValidEthiopianDate(date)) {
+    throw new Error(`Invalid Ethiopian date: ${date.year}-${date.month}-${date.day}`);
+  }
+  const { year, month, day } = jdnToGregorian(ethiopianToJdn(date));
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const formatEthiopian = ({ year, month, day }: EthiopianDate) => `${year}-${pad(month)}-${pad(day)}`;
+
+// Both representations, as returned by the API next to each stored date
+export const describeEthiopian = (date?: Date | null) => {
+  if (!date || isNaN(new Date(date).getTime())) return null;
+
+  const ethiopian = toEthiopian(new Date(date));
+  return {
+    ...ethiopian,
+    monthName: ETHIOPIAN_MONTHS[ethiopian.month - 1],
+    formatted: formatEthiopian(ethiopian)
+  };
+};
+
+// Parse "YYYY-MM-DD" (or "/" / "." separated) Ethiopian input into a Gregorian Date
+export const parseEthiopianDate = (value: string): Date | null => {
+  const match = /^\s*(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/.exec(value);
+  if (!match) return null;
+
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  return isValidEthiopianDate(date) ? fromEthiopian(date) : null;
+};
+
+// Pull the four-digit year out of free-form batch text such as "2016", "2016 E.C." or "Batch 2024"
+export const parseBatchYear = (batch: string): number | null => {
+  const match = /(\d{4})/.exec(batch || '');
+  return match ? Number(match[1]) : null;
+};
+
+export const ethiopianBatchToGregorian = (batch: string) => {
+  const year = parseBatchYear(batch);
+  return year ? String(year + ETHIOPIAN_YEAR_OFFSET) : batch;
+};
+
+export const gregorianBatchToEthiopian = (batch: string) => {
+  const year = parseBatchYear(batch);
+  return year ? String(year - ETHIOPIAN_YEAR_OFFSET) : null;
+};
@@ -0,0 +1,67 @@
+// Normalize a name for comparison: lowercase, no punctuation or spacing.
+// Unicode letters are kept so Ge'ez spellings compare as well as Latin ones.
+export const normalizeName = (value?: string | null): string =>
+  (value || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]/gu, '');
+
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        current[j - 1] + 1,
+        previous[j] + 1,
+        previous[j - 1] + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+// Similarity between 0 and 1 based on edit distance of the normalized values
+export const similarity = (a?: string | null, b?: string | null): number => {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+
+  if (!left && !right) return 1;
+  if (!left || !right) return 0;
+
+  return 1 - levenshtein(left, right) / Math.max(left.length, right.length);
+};
+
+// Candidates ordered by their best similarity to the value. Each item can be
+// known by several names (a canonical name plus aliases).
+export const rankMatches = <T>(
+  value: string,
+  items: T[],
+  namesOf: (item: T) => string[]
+): { item: T; score: number }[] =>
+  items
+    .map(item => ({
+      item,
+      score: Math.max(0, ...namesOf(item).map(name => similarity(value, name)))
+    }))
+    .sort((a, b) => b.score - a.score);
+
+// The closest candidate, or null when nothing reaches the threshold
+export const bestMatch = <T>(
+  value: string,
+  items: T[],
+  namesOf: (item: T) => string[],
+  threshold = 0.8
+): { item: T; score: number } | null => {
+  const [best] = rankMatches(value, items, namesOf);
+  return best && best.score >= threshold ? best : null;
+};
@@ -1,16 +1,220 @@
 import Counter from '../models/Counter';
+import IdTemplate, { IdSequenceScope } from '../models/IdTemplate';
+import Student from '../models/Student';
+import { parseBatchYear } from './ethiopianCalendar';
+
+export interface StudentIdTemplate {
+  prefix: string;
+  format: string;
+  scope: IdSequenceScope;
+  padding: number;
+  checkDigit: boolean;
+}
+
+// The TGG/NNNN/YY format used before templates were configurable
+export const DEFAULT_ID_TEMPLATE: StudentIdTemplate = {
+  prefix: 'TGG',
+  format: '{prefix}/{seq}/{yy}',
+  scope: 'global',
+  padding: 4,
+  checkDigit: false
+};
+
+const LEGACY_ID_PATTERN = /^TGG\/\d{4,}\/\w{2}$/;
+
+export const getStudentIdTemplate = async (): Promise<StudentIdTemplate> => {
+  const template = await IdTemplate.findOne({ name: 'student' }).lean();
+  if (!template) return DEFAULT_ID_TEMPLATE;
+
+  const { prefix, format, scope, padding, checkDigit } = template;
+  return { prefix, format, scope, padding, checkDigit };
+};
+
+// Counter document for the template's scope. The global scope keeps the
+// original 'student' counter so existing numbering simply continues.
+export const counterNameFor = (template: StudentIdTemplate, batch: string, now: Date = new Date()) => {
+  switch (template.scope) {
+    case 'batch':
+      return `student:batch:${parseBatchYear(batch) ?? batch.trim()}`;
+    case 'year':
+      return `student:year:${now.getFullYear()}`;
+    default:
+      return 'student';
+  }
+};
+
+// Luhn mod-10 digit over the other digits of the ID
+export const luhnCheckDigit = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return String((10 - (sum % 10)) % 10);
+};
+
+// Take last 2 digits of the batch year. Batches are stored in Gregorian
+// years (Ethiopian input is converted by the calendar middleware), so the
+// same intake gets the same suffix whichever calendar it was entered in.
+const batchYearTokens = (batch: string) => {
+  const year = parseBatchYear(batch);
+  return {
+    yyyy: year ? String(year) : batch.trim(),
+    yy: year ? String(year).slice(-2) : batch.slice(-2)
+  };
+};
+
+const fillTokens = (format: string, values: Record<string, string>) =>
+  format.replace(/\{(prefix|seq|yyyy|yy|check)\}/g, (_, token) => values[token] ?? '');
+
+export const formatStudentId = (template: StudentIdTemplate, seq: number, batch: string) => {
+  const values: Record<string, string> = {
+    prefix: template.prefix,
+    seq: seq.toString().padStart(template.padding, '0'),
+    ...batchYearTokens(batch),
+    check: ''
+  };
+
+  if (template.checkDigit) {
+    values.check = luhnCheckDigit(fillTokens(template.format, values).replace(/\D/g, ''));
+  }
+
+  return fillTokens(template.format, values);
+};
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Regex for IDs produced by the template. With a batch the year tokens are
+// fixed, otherwise any year matches.
+const templatePattern = (template: StudentIdTemplate, batch?: string) => {
+  const years = batch ? batchYearTokens(batch) : null;
+  const parts: Record<string, string> = {
+    prefix: escapeRegex(template.prefix),
+    seq: `(?<seq>\\d{${template.padding},})`,
+    yyyy: years ? escapeRegex(years.yyyy) : '(?<yyyy>\\d{4})',
+    yy: years ? escapeRegex(years.yy) : '(?<yy>\\d{2})',
+    check: '(?<check>\\d)'
+  };
+
+  const source = template.format
+    .split(/(\{(?:prefix|seq|yyyy|yy|check)\})/)
+    .map(part => {
+      const token = /^\{(\w+)\}$/.exec(part);
+      return token ? parts[token[1]] : escapeRegex(part);
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`);
+};
+
+// Whether an ID fits the current template (with a correct check digit) or the legacy format.
+// IDs issued earlier stay valid even when the template changes.
+export const checkStudentId = (id: string, template: StudentIdTemplate) => {
+  const match = templatePattern(template).exec(id.trim());
+  let checkDigitValid: boolean | undefined;
+
+  if (match && template.checkDigit) {
+    const groups = match.groups || {};
+    const digits = fillTokens(template.format, {
+      prefix: template.prefix,
+      seq: groups.seq,
+      yyyy: groups.yyyy || '',
+      yy: groups.yy || '',
+      check: ''
+    }).replace(/\D/g, '');
+    checkDigitValid = luhnCheckDigit(digits) === groups.check;
+  }
+
+  const matchesTemplate = !!match && checkDigitValid !== false;
+  const legacy = LEGACY_ID_PATTERN.test(id.trim());
+
+  return { matchesTemplate, checkDigitValid, legacy, valid: matchesTemplate || legacy };
+};
+
+// Highest sequence already issued under the template for this batch. A new
+// per-batch or per-year counter starts from there so it never re-issues
+// numbers that were handed out by the old global counter.
+const highestIssuedSequence = async (template: StudentIdTemplate, batch: string) => {
+  const pattern = templatePattern(template, batch);
+  // Fixed text before the first variable token narrows the scan, e.g. "TGG/"
+  const lead = template.format.replace(/\{prefix\}/g, template.prefix).split('{')[0];
+
+  const students = await Student.find({ gibyGubayeId: { $regex: `^${escapeRegex(lead)}` } })
+    .select('gibyGubayeId')
+    .lean();
+
+  return students.reduce((max, student) => {
+    const seq = Number(pattern.exec(student.gibyGubayeId)?.groups?.seq || 0);
+    return seq > max ? seq : max;
+  }, 0);
+};
+
+const ensureCounter = async (name: string, template: StudentIdTemplate, batch: string) => {
+  if (name === 'student' || await Counter.exists({ name })) {
+    return;
+  }
+
+  const start = await highestIssuedSequence(template, batch);
+  await Counter.updateOne({ name }, { $setOnInsert: { seq: start } }, { upsert: true });
+};
+
+// Atomically reserve `count` consecutive IDs for a batch. Numbers whose
+// formatted ID is already taken (possible after a template change) are skipped.
+export const reserveStudentIds = async (batch: string, count: number = 1) => {
+  const template = await getStudentIdTemplate();
+  const name = counterNameFor(template, batch);
+  await ensureCounter(name, template, batch);
+
+  const ids: string[] = [];
+  for (let attempt = 0; ids.length < count && attempt < 5; attempt++) {
+    const needed = count - ids.length;
+    const counter = await Counter.findOneAndUpdate(
+      { name },
+      { $inc: { seq: needed } },
+      { new: true, upsert: true }
+    );
+
+    const candidates = Array.from({ length: needed }, (_, i) =>
+      formatStudentId(template, counter.seq - needed + 1 + i, batch)
+    );
+    const taken = new Set(
+      (await Student.find({ gibyGubayeId: { $in: candidates } }).select('gibyGubayeId').lean())
+        .map(student => student.gibyGubayeId)
+    );
+    ids.push(...candidates.filter(id => !taken.has(id)));
+  }
+
+  if (ids.length < count) {
+    throw new Error('Could not reserve unique student IDs. Check the ID template for overlaps with existing IDs.');
+  }
+
+  return ids;
+};
 
 export const generateStudentId = async (batch: string) => {
-  // Take last 2 digits of batch
-  const batchSuffix = batch.slice(-2);
+  const [id] = await reserveStudentIds(batch, 1);
+  return id;
+};
 
-  const counter = await Counter.findOneAndUpdate(
-    { name: 'student' },
-    { $inc: { seq: 1 } },
-    { new: true, upsert: true }
-  );
+// The next IDs the template would issue for a batch, without reserving them
+export const previewStudentIds = async (template: StudentIdTemplate, batch: string, count: number = 3) => {
+  const counterName = counterNameFor(template, batch);
+  const counter = await Counter.findOne({ name: counterName }).lean();
+  const current = counter ? counter.seq : counterName === 'student' ? 0 : await highestIssuedSequence(template, batch);
 
-  const paddedNumber = counter.seq.toString().padStart(4, '0');
+  const ids = Array.from({ length: count }, (_, i) => formatStudentId(template, current + 1 + i, batch));
+  const taken = new Set(
+    (await Student.find({ gibyGubayeId: { $in: ids } }).select('gibyGubayeId').lean())
+      .map(student => student.gibyGubayeId)
+  );
 
-  return `TGG/${paddedNumber}/${batchSuffix}`;
+  return {
+    counter: counterName,
+    currentSequence: current,
+    ids: ids.map(id => ({ id, taken: taken.has(id) }))
+  };
 };
@@ -0,0 +1,283 @@
+import mongoose from 'mongoose';
+import Student, { IStudent } from '../models/Student';
+import { bestMatch, normalizeName, rankMatches } from './fuzzyMatch';
+import { HistoryContext, recordBulkStudentChanges } from './studentHistory';
+
+// Reference data organised as a tree of named entries (region -> zone -> ...,
+// university -> college -> ...) that students' free-text fields are checked against
+
+export interface HierarchyCandidate {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+}
+
+// exact:      name or alias matches after normalization
+// fuzzy:      close enough spelling, replaced by the canonical name
+// unchecked:  no reference data below the parent yet, free text is kept
+// unresolved: reference data exists but nothing matches
+export type HierarchyMatch = 'exact' | 'fuzzy' | 'unchecked' | 'unresolved' | 'empty';
+
+export type HierarchyInput<L extends string> = Partial<Record<L, string | null>>;
+
+// The matched entry is reported under a key of the caller's choosing (area, unit)
+export type HierarchyLevelResult<L extends string, K extends string> = {
+  level: L;
+  input: string;
+  match: HierarchyMatch;
+  score?: number;
+  suggestions?: { _id: mongoose.Types.ObjectId; name: string; score: number }[];
+} & { [key in K]?: { _id: mongoose.Types.ObjectId; name: string } };
+
+export interface ResolvedHierarchy<L extends string, K extends string> {
+  levels: HierarchyLevelResult<L, K>[];
+  values: Record<L, string>;
+  ids: Partial<Record<L, mongoose.Types.ObjectId>>;
+  resolved: boolean;
+}
+
+export interface HierarchyConfig<L extends string, K extends string, C extends HierarchyCandidate> {
+  levels: readonly L[]; // Widest first
+  idFields: Record<L, string>; // Student field holding the matched entry for each level
+  entryKey: K;
+  fuzzyThreshold: number;
+  historyNote: string; // Recorded on student history by normalization
+  load: (level: L, parent: mongoose.Types.ObjectId | null) => Promise<C[]>; // Active children of a parent
+  namesOf: (candidate: C) => string[];
+  keyOf?: (level: L, value: string) => string; // Comparison key, normalizeName by default
+  allowFuzzy?: (level: L, key: string) => boolean;
+}
+
+export interface HierarchyNormalizationReport<L extends string> {
+  dryRun: boolean;
+  groups: number;
+  studentsMatched: number;
+  studentsUpdated: number;
+  corrections: { from: HierarchyInput<L>; to: HierarchyInput<L>; students: number }[];
+  unresolved: { input: HierarchyInput<L>; students: number; problems: string[] }[];
+}
+
+export const createHierarchyResolver = <L extends string, K extends string, C extends HierarchyCandidate>(
+  config: HierarchyConfig<L, K, C>
+) => {
+  const { levels: LEVELS, idFields, namesOf } = config;
+  const keyOf = config.keyOf || ((_level: L, value: string) => normalizeName(value));
+
+  // Children of an entry (the top level when there is no parent), loaded once per lookup.
+  // Share one lookup across many resolutions, e.g. during imports and normalization.
+  const createLookup = () => {
+    const cache = new Map<string, Promise<C[]>>();
+
+    return (level: L, parent?: mongoose.Types.ObjectId) => {
+      const key = `${level}:${parent || ''}`;
+      if (!cache.has(key)) {
+        cache.set(key, config.load(level, parent || null));
+      }
+      return cache.get(key)!;
+    };
+  };
+
+  type Lookup = ReturnType<typeof createLookup>;
+
+  // Walk the levels from the widest, matching each value among the children
+  // of the level above. Levels below an unmatched one are unchecked.
+  const resolve = async (
+    input: HierarchyInput<L>,
+    lookup: Lookup = createLookup()
+  ): Promise<ResolvedHierarchy<L, K>> => {
+    const levels: HierarchyLevelResult<L, K>[] = [];
+    const values = {} as Record<L, string>;
+    const ids: ResolvedHierarchy<L, K>['ids'] = {};
+    let parent: mongoose.Types.ObjectId | undefined;
+    let checkable = true;
+
+    for (const level of LEVELS) {
+      const value = (input[level] || '').trim();
+      values[level] = value;
+
+      if (!value) {
+        levels.push({ level, input: value, match: 'empty' } as HierarchyLevelResult<L, K>);
+        checkable = false;
+        continue;
+      }
+
+      const candidates = checkable ? await lookup(level, parent) : [];
+      if (candidates.length === 0) {
+        levels.push({ level, input: value, match: 'unchecked' } as HierarchyLevelResult<L, K>);
+        checkable = false;
+        continue;
+      }
+
+      const key = keyOf(level, value);
+      const exact = candidates.find(candidate => namesOf(candidate).some(name => keyOf(level, name) === key));
+      const fuzzy = exact || (config.allowFuzzy && !config.allowFuzzy(level, key))
+        ? null
+        : bestMatch(value, candidates, namesOf, config.fuzzyThreshold);
+      const entry = exact || fuzzy?.item;
+
+      if (!entry) {
+        levels.push({
+          level,
+          input: value,
+          match: 'unresolved',
+          suggestions: rankMatches(value, candidates, namesOf)
+            .filter(match => match.score >= 0.4)
+            .slice(0, 3)
+            .map(match => ({ _id: match.item._id, name: match.item.name, score: Number(match.score.toFixed(2)) }))
+        } as HierarchyLevelResult<L, K>);
+        checkable = false;
+        continue;
+      }
+
+      levels.push({
+        level,
+        input: value,
+        match: exact ? 'exact' : 'fuzzy',
+        [config.entryKey]: { _id: entry._id, name: entry.name },
+        ...(fuzzy && { score: Number(fuzzy.score.toFixed(2)) })
+      } as HierarchyLevelResult<L, K>);
+      values[level] = entry.name;
+      ids[level] = entry._id;
+      parent = entry._id;
+    }
+
+    return {
+      levels,
+      values,
+      ids,
+      resolved: !levels.some(result => result.match === 'unresolved')
+    };
+  };
+
+  // One readable message per unmatched level, with suggestions when there are any
+  const describeUnresolved = (resolved: ResolvedHierarchy<L, K>): string[] =>
+    resolved.levels
+      .map((result, index) => {
+        if (result.match !== 'unresolved') return null;
+
+        const within = index > 0 ? ` in ${resolved.values[LEVELS[index - 1]]}` : '';
+        const hint = result.suggestions && result.suggestions.length > 0
+          ? ` Did you mean: ${result.suggestions.map(suggestion => suggestion.name).join(', ')}?`
+          : '';
+        return `Unknown ${result.level} "${result.input}"${within}.${hint}`;
+      })
+      .filter(Boolean) as string[];
+
+  // Canonical names and IDs to store on a student. IDs are undefined for
+  // levels without a reference match so stale IDs are cleared.
+  const fieldsOf = (resolved: ResolvedHierarchy<L, K>) => {
+    const fields: Record<string, any> = {};
+    for (const level of LEVELS) {
+      fields[level] = resolved.values[level];
+      fields[idFields[level]] = resolved.ids[level];
+    }
+    return fields;
+  };
+
+  const hasInput = (input: Record<string, any>) =>
+    LEVELS.some(level => input[level] !== undefined);
+
+  // Refresh the IDs of a student document after its text fields were set
+  // directly (reverts, approved profile requests). The text itself is kept.
+  const syncIds = async (student: IStudent, lookup?: Lookup) => {
+    if (!LEVELS.some(level => student.isModified(level))) {
+      return;
+    }
+
+    const resolved = await resolve(student as unknown as HierarchyInput<L>, lookup);
+    for (const level of LEVELS) {
+      student.set(idFields[level], resolved.ids[level]);
+    }
+  };
+
+  // Distinct combinations in use, each resolved once
+  const studentGroups = async (lookup: Lookup = createLookup()) => {
+    const groups = await Student.aggregate([
+      {
+        $group: {
+          _id: Object.fromEntries(LEVELS.map(level => [level, `$${level}`])),
+          count: { $sum: 1 }
+        }
+      }
+    ]);
+
+    const resolved = [];
+    for (const group of groups) {
+      resolved.push({
+        original: group._id as HierarchyInput<L>,
+        count: group.count as number,
+        resolved: await resolve(group._id, lookup)
+      });
+    }
+    return resolved;
+  };
+
+  // Map existing free text onto the reference data. Every distinct
+  // combination is resolved once, then all students sharing it are updated together.
+  const normalizeStudents = async (
+    options: { dryRun?: boolean; actor?: HistoryContext['actor'] } = {}
+  ): Promise<HierarchyNormalizationReport<L>> => {
+    const dryRun = options.dryRun !== false;
+    const report: HierarchyNormalizationReport<L> = {
+      dryRun,
+      groups: 0,
+      studentsMatched: 0,
+      studentsUpdated: 0,
+      corrections: [],
+      unresolved: []
+    };
+
+    for (const { original, count, resolved } of await studentGroups()) {
+      report.groups++;
+
+      if (!resolved.resolved) {
+        report.unresolved.push({ input: original, students: count, problems: describeUnresolved(resolved) });
+      }
+      if (resolved.levels.some(result => result[config.entryKey])) {
+        report.studentsMatched += count;
+      }
+
+      const renamed = LEVELS.filter(level => (original[level] || '') !== resolved.values[level]);
+      if (renamed.length > 0) {
+        report.corrections.push({ from: original, to: resolved.values, students: count });
+      }
+
+      if (dryRun) continue;
+
+      const filter: Record<string, any> = {};
+      const set: Record<string, any> = {};
+      const unset: Record<string, 1> = {};
+      for (const level of LEVELS) {
+        filter[level] = original[level] ?? null;
+        if (renamed.includes(level)) set[level] = resolved.values[level];
+        if (resolved.ids[level]) {
+          set[idFields[level]] = resolved.ids[level];
+        } else {
+          unset[idFields[level]] = 1;
+        }
+      }
+
+      const students = renamed.length > 0 ? await Student.find(filter).select('_id').lean() : [];
+      const result = await Student.updateMany(filter, {
+        $set: set,
+        ...(Object.keys(unset).length > 0 && { $unset: unset })
+      });
+      report.studentsUpdated += result.modifiedCount;
+
+      await recordBulkStudentChanges(
+        students.map(student => ({
+          student: student._id as mongoose.Types.ObjectId,
+          changes: renamed.map(level => ({
+            field: level,
+            before: original[level] || null,
+            after: resolved.values[level]
+          }))
+        })),
+        { action: 'update', actor: options.actor, note: config.historyNote }
+      );
+    }
+
+    return report;
+  };
+
+  return { createLookup, resolve, describeUnresolved, fieldsOf, hasInput, syncIds, studentGroups, normalizeStudents };
+};
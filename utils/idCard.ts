@@ -0,0 +1,118 @@
+import PDFDocument from 'pdfkit';
+import { Response } from 'express';
+import { loadStudentPhoto } from './studentExport';
+import { memberQrPng } from './memberQr';
+import { PDF_FONT, PDF_FONT_BOLD, registerPdfFonts } from './pdfFonts';
+
+export type IdCardLayout = 'card' | 'sheet';
+
+export const ID_CARD_LAYOUTS: IdCardLayout[] = ['card', 'sheet'];
+
+// Fields needed to draw a card - photoData is never part of the cursor
+export const ID_CARD_SELECT = 'gibyGubayeId firstName middleName lastName department batch isActive photoFileId photoVariants';
+
+// ISO/IEC 7810 ID-1 (credit card) size in points
+const CARD_WIDTH = 242.65;
+const CARD_HEIGHT = 153;
+
+// A4 sheet with two columns of five cards
+const SHEET_COLUMNS = 2;
+const SHEET_ROWS = 5;
+const SHEET_GAP = 8;
+
+const HEADER_HEIGHT = 26;
+const PHOTO_WIDTH = 64;
+const PHOTO_HEIGHT = 80;
+const QR_SIZE = 62;
+
+const drawCard = async (doc: PDFKit.PDFDocument, student: any, x: number, y: number) => {
+  const title = process.env.ID_CARD_TITLE || 'Giby Gubaye';
+
+  doc.save();
+  doc.roundedRect(x, y, CARD_WIDTH, CARD_HEIGHT, 8).lineWidth(0.5).stroke('#999999');
+  doc.roundedRect(x, y, CARD_WIDTH, HEADER_HEIGHT, 8).fill('#1e3a5f');
+  doc.rect(x, y + HEADER_HEIGHT - 8, CARD_WIDTH, 8).fill('#1e3a5f');
+  doc.restore();
+
+  doc.fillColor('#ffffff').font(PDF_FONT_BOLD).fontSize(11)
+    .text(title, x, y + 8, { width: CARD_WIDTH, align: 'center' });
+
+  const photoX = x + 10;
+  const photoY = y + HEADER_HEIGHT + 10;
+  const photo = await loadStudentPhoto(student, 'medium');
+
+  if (photo) {
+    try {
+      doc.image(photo, photoX, photoY, { cover: [PHOTO_WIDTH, PHOTO_HEIGHT], align: 'center', valign: 'center' });
+    } catch {
+      doc.rect(photoX, photoY, PHOTO_WIDTH, PHOTO_HEIGHT).stroke('#cccccc');
+    }
+  } else {
+    doc.rect(photoX, photoY, PHOTO_WIDTH, PHOTO_HEIGHT).stroke('#cccccc');
+  }
+
+  const textX = photoX + PHOTO_WIDTH + 10;
+  const textWidth = CARD_WIDTH - (textX - x) - 10;
+  const name = [student.firstName, student.middleName, student.lastName].filter(Boolean).join(' ');
+
+  doc.fillColor('#000000').font(PDF_FONT_BOLD).fontSize(9)
+    .text(name, textX, photoY, { width: textWidth, height: 24, ellipsis: true });
+  doc.font(PDF_FONT).fontSize(7.5)
+    .text(`ID: ${student.gibyGubayeId}`, textX, photoY + 24, { width: textWidth - QR_SIZE })
+    .text(`Dept: ${student.department || '-'}`, { width: textWidth - QR_SIZE, height: 20, ellipsis: true })
+    .text(`Batch: ${student.batch || '-'}`, { width: textWidth - QR_SIZE });
+
+  const qr = await memberQrPng(student.gibyGubayeId);
+  doc.image(qr, x + CARD_WIDTH - QR_SIZE - 8, y + CARD_HEIGHT - QR_SIZE - 14, { width: QR_SIZE, height: QR_SIZE });
+
+  doc.fillColor('#666666').fontSize(6)
+    .text('Scan to verify membership', x, y + CARD_HEIGHT - 11, { width: CARD_WIDTH - 8, align: 'right' });
+  doc.fillColor('#000000');
+};
+
+// Render ID cards to PDF. 'card' gives one card-sized page per student for
+// card printers; 'sheet' packs ten cards per A4 page for cutting by hand.
+export const writeIdCardsPdf = async (
+  students: AsyncIterable<any> | any[],
+  res: Response,
+  layout: IdCardLayout
+) => {
+  const doc = registerPdfFonts(layout === 'card'
+    ? new PDFDocument({ size: [CARD_WIDTH, CARD_HEIGHT], margin: 0, autoFirstPage: false })
+    : new PDFDocument({ size: 'A4', margin: 0, autoFirstPage: false }));
+  doc.pipe(res);
+
+  const sheetLeft = (595.28 - (SHEET_COLUMNS * CARD_WIDTH + (SHEET_COLUMNS - 1) * SHEET_GAP)) / 2;
+  const sheetTop = (841.89 - (SHEET_ROWS * CARD_HEIGHT + (SHEET_ROWS - 1) * SHEET_GAP)) / 2;
+  const perSheet = SHEET_COLUMNS * SHEET_ROWS;
+
+  let count = 0;
+  for await (const student of students) {
+    if (layout === 'card') {
+      doc.addPage();
+      await drawCard(doc, student, 0, 0);
+    } else {
+      const slot = count % perSheet;
+      if (slot === 0) {
+        doc.addPage();
+      }
+      const column = slot % SHEET_COLUMNS;
+      const row = Math.floor(slot / SHEET_COLUMNS);
+      await drawCard(
+        doc,
+        student,
+        sheetLeft + column * (CARD_WIDTH + SHEET_GAP),
+        sheetTop + row * (CARD_HEIGHT + SHEET_GAP)
+      );
+    }
+    count++;
+  }
+
+  // pdfkit cannot end a document without pages
+  if (count === 0) {
+    doc.addPage();
+    doc.font(PDF_FONT).fontSize(10).text('No students matched the selection.', 20, 20);
+  }
+
+  doc.end();
+};
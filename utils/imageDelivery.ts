@@ -0,0 +1,142 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import { getBlobStore } from './blobStore';
+
+interface ImageSource {
+  etag: string;
+  lastModified: Date;
+  length: number;
+  contentType: string;
+  open: (range?: { start: number; end: number }) => Readable;
+}
+
+// Parse a single "bytes=start-end" range. Multi-range requests are served in full.
+const parseRange = (header: string | undefined, length: number) => {
+  if (!header || !header.startsWith('bytes=') || header.includes(',')) {
+    return undefined;
+  }
+
+  const [startText, endText] = header.slice(6).split('-');
+  let start: number;
+  let end: number;
+
+  if (startText === '') {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(endText, 10);
+    if (isNaN(suffix)) return null;
+    start = Math.max(length - suffix, 0);
+    end = length - 1;
+  } else {
+    start = parseInt(startText, 10);
+    end = endText ? parseInt(endText, 10) : length - 1;
+  }
+
+  if (isNaN(start) || isNaN(end) || start > end || start >= length) {
+    return null;
+  }
+
+  return { start, end: Math.min(end, length - 1) };
+};
+
+const isNotModified = (req: Request, source: ImageSource) => {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) {
+    return ifNoneMatch.split(',').map(tag => tag.trim()).includes(source.etag);
+  }
+
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince) {
+    const since = new Date(ifModifiedSince).getTime();
+    // HTTP dates have second precision
+    return !isNaN(since) && Math.floor(source.lastModified.getTime() / 1000) * 1000 <= since;
+  }
+
+  return false;
+};
+
+const sendImage = (req: Request, res: Response, source: ImageSource) => {
+  res.set('Content-Type', source.contentType);
+  res.set('Cache-Control', 'public, max-age=31536000'); // Cache for 1 year
+  res.set('ETag', source.etag);
+  res.set('Last-Modified', source.lastModified.toUTCString());
+  res.set('Accept-Ranges', 'bytes');
+
+  if (isNotModified(req, source)) {
+    return res.status(304).end();
+  }
+
+  const range = parseRange(req.headers.range, source.length);
+
+  if (range === null) {
+    res.set('Content-Range', `bytes */${source.length}`);
+    return res.status(416).end();
+  }
+
+  if (range) {
+    res.status(206);
+    res.set('Content-Range', `bytes ${range.start}-${range.end}/${source.length}`);
+    res.set('Content-Length', String(range.end - range.start + 1));
+  } else {
+    res.set('Content-Length', String(source.length));
+  }
+
+  if (req.method === 'HEAD') {
+    return res.end();
+  }
+
+  const stream = source.open(range);
+  stream.once('error', error => {
+    console.error('Error streaming image:', error);
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, message: 'Internal server error' });
+    } else {
+      res.destroy(error);
+    }
+  });
+  stream.pipe(res);
+};
+
+// Stream an image from the blob store with caching and range support.
+// Returns false when the file does not exist so the caller can send its own 404.
+export const sendStoredImage = async (
+  req: Request,
+  res: Response,
+  fileId: mongoose.Types.ObjectId | string
+) => {
+  const store = getBlobStore();
+  const info = await store.stat(fileId);
+
+  if (!info) {
+    return false;
+  }
+
+  sendImage(req, res, {
+    etag: `"${info.id}-${info.length}"`,
+    lastModified: info.uploadDate,
+    length: info.length,
+    contentType: info.contentType,
+    open: range => store.createReadStream(info.id, range)
+  });
+
+  return true;
+};
+
+// Serve an image still embedded in its document (not yet migrated to the blob store)
+export const sendLegacyImage = (
+  req: Request,
+  res: Response,
+  image: { data: Buffer; contentType: string },
+  ownerId: string,
+  updatedAt: Date
+) => {
+  const data = Buffer.from(image.data);
+
+  sendImage(req, res, {
+    etag: `"${ownerId}-${updatedAt.getTime()}-${data.length}"`,
+    lastModified: updatedAt,
+    length: data.length,
+    contentType: image.contentType,
+    open: range => Readable.from(range ? [data.subarray(range.start, range.end + 1)] : [data])
+  });
+};
@@ -0,0 +1,190 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import sharp from 'sharp';
+import { getBlobStore } from './blobStore';
+
+export const IMAGE_SIZES = ['thumb', 'medium', 'original'] as const;
+export type ImageSize = typeof IMAGE_SIZES[number];
+
+// Longest edge in pixels; images smaller than this are never enlarged
+const VARIANT_EDGES = {
+  thumb: 160,
+  medium: 640
+};
+
+type VariantSize = keyof typeof VARIANT_EDGES;
+
+export interface ImageVariantFiles {
+  webp?: mongoose.Types.ObjectId;
+  jpeg?: mongoose.Types.ObjectId;
+}
+
+export interface ImageVariants {
+  thumb?: ImageVariantFiles;
+  medium?: ImageVariantFiles;
+}
+
+export interface StoredImage {
+  fileId: mongoose.Types.ObjectId;
+  variants: ImageVariants;
+}
+
+type ImageKind = 'student-photo' | 'blog-image';
+
+// Formats sharp can re-encode without losing animation or transparency
+const REENCODE_FORMATS: Record<string, 'jpeg' | 'png' | 'webp'> = {
+  'image/jpeg': 'jpeg',
+  'image/jpg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+// Re-encode the original with its orientation applied and all metadata
+// (EXIF, GPS, ICC comments) dropped. GIFs carry no EXIF and are kept as-is.
+const stripOriginal = async (data: Buffer, contentType: string) => {
+  const format = REENCODE_FORMATS[contentType];
+  if (!format) {
+    return { data, contentType };
+  }
+
+  const image = sharp(data).rotate();
+  const output = format === 'jpeg'
+    ? image.jpeg({ quality: 90, mozjpeg: true })
+    : format === 'png'
+      ? image.png()
+      : image.webp({ quality: 90 });
+
+  return {
+    data: await output.toBuffer(),
+    contentType: format === 'jpeg' ? 'image/jpeg' : `image/${format}`
+  };
+};
+
+const resize = (data: Buffer, size: VariantSize) =>
+  sharp(data)
+    .rotate()
+    .resize({
+      width: VARIANT_EDGES[size],
+      height: VARIANT_EDGES[size],
+      fit: 'inside',
+      withoutEnlargement: true
+    });
+
+// Raised when sharp cannot decode the upload; controllers answer 400
+export const INVALID_IMAGE_ERROR = 'InvalidImageError';
+
+export const isInvalidImageError = (error: any) => error?.name === INVALID_IMAGE_ERROR;
+
+// Encode the stripped original and every variant before anything is stored,
+// so a corrupt or non-image upload fails without leaving blobs behind
+const renderImage = async (data: Buffer, contentType: string) => {
+  try {
+    const original = await stripOriginal(data, contentType);
+    const variants = [];
+    for (const size of Object.keys(VARIANT_EDGES) as VariantSize[]) {
+      variants.push({
+        size,
+        webp: await resize(data, size).webp({ quality: 80 }).toBuffer(),
+        // JPEG has no alpha channel - flatten transparent PNGs onto white
+        jpeg: await resize(data, size).flatten({ background: '#ffffff' }).jpeg({ quality: 80, mozjpeg: true }).toBuffer()
+      });
+    }
+    return { original, variants };
+  } catch (error: any) {
+    console.error('Error decoding image:', error.message);
+    throw Object.assign(new Error('Invalid image'), { name: INVALID_IMAGE_ERROR });
+  }
+};
+
+// Store the stripped original plus WebP and JPEG copies of every variant size
+export const storeImageWithVariants = async (
+  data: Buffer,
+  fileName: string,
+  contentType: string,
+  kind: ImageKind
+): Promise<StoredImage> => {
+  const store = getBlobStore();
+  const baseName = fileName.replace(/\.[^.]+$/, '');
+
+  const rendered = await renderImage(data, contentType);
+  const stored = await store.put(rendered.original.data, {
+    fileName,
+    contentType: rendered.original.contentType,
+    metadata: { kind, size: 'original' }
+  });
+
+  const variants: ImageVariants = {};
+  for (const { size, webp, jpeg } of rendered.variants) {
+    variants[size] = {
+      webp: (await store.put(webp, {
+        fileName: `${baseName}-${size}.webp`,
+        contentType: 'image/webp',
+        metadata: { kind, size, original: stored.id }
+      })).id,
+      jpeg: (await store.put(jpeg, {
+        fileName: `${baseName}-${size}.jpg`,
+        contentType: 'image/jpeg',
+        metadata: { kind, size, original: stored.id }
+      })).id
+    };
+  }
+
+  return { fileId: stored.id, variants };
+};
+
+// Store an uploaded multer file with its variants
+export const saveUploadedImageWithVariants = (file: Express.Multer.File, kind: ImageKind) =>
+  storeImageWithVariants(file.buffer, file.originalname, file.mimetype, kind);
+
+// Remove an original and all of its variants from the blob store
+export const deleteImageWithVariants = async (
+  fileId?: mongoose.Types.ObjectId,
+  variants?: ImageVariants
+) => {
+  const store = getBlobStore();
+  const ids = [
+    fileId,
+    variants?.thumb?.webp,
+    variants?.thumb?.jpeg,
+    variants?.medium?.webp,
+    variants?.medium?.jpeg
+  ];
+
+  for (const id of ids) {
+    if (id) {
+      await store.delete(id);
+    }
+  }
+};
+
+// Remove the blobs a failed create or update stored, so they are not orphaned
+export const discardStoredImage = async (image?: StoredImage) => {
+  if (!image) return;
+  try {
+    await deleteImageWithVariants(image.fileId, image.variants);
+  } catch (error) {
+    console.error('Error removing orphaned image:', error);
+  }
+};
+
+export const parseImageSize = (value: unknown): ImageSize | null => {
+  if (value === undefined || value === '') return 'original';
+  return IMAGE_SIZES.includes(value as ImageSize) ? (value as ImageSize) : null;
+};
+
+// Pick the blob to serve for a requested size. WebP is preferred when the
+// client accepts it; missing variants fall back to the original.
+export const selectImageFile = (
+  req: Request,
+  size: ImageSize,
+  fileId?: mongoose.Types.ObjectId,
+  variants?: ImageVariants
+) => {
+  if (size === 'original') {
+    return fileId;
+  }
+
+  const files = variants?.[size];
+  const acceptsWebp = (req.headers.accept || '').includes('image/webp');
+  return (acceptsWebp ? files?.webp : files?.jpeg) || files?.jpeg || files?.webp || fileId;
+};
@@ -0,0 +1,255 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { IUser } from '../models/User';
+import Job, { ACTIVE_JOB_FILTER, OPEN_JOB_FILTER, JobStatus } from '../models/Job';
+import Student, { IStudent } from '../models/Student';
+import DepartmentPolicy from '../models/DepartmentPolicy';
+import { ITeam } from '../models/Team';
+import { getOpenServiceYear } from './serviceYear';
+
+export interface DepartmentRules {
+  class: string;
+  maxMembers?: number;
+  maxJobsPerStudent: number;
+  allowedBatches: string[];
+  allowedGenders: string[];
+  requiresApproval: boolean;
+  incompatibleWith: string[];
+}
+
+// Rules for classes without a stored policy, matching the old fixed limit of 3 jobs
+export const DEFAULT_DEPARTMENT_RULES: Omit<DepartmentRules, 'class'> = {
+  maxJobsPerStudent: 3,
+  allowedBatches: [],
+  allowedGenders: [],
+  requiresApproval: false,
+  incompatibleWith: []
+};
+
+// Roles that run a department; a job's class is the role of the leader who assigned it
+export const DEPARTMENT_CLASSES = [
+  'Abalat-Guday',
+  'Mezmur',
+  'Timhrt',
+  'Muyana-Terado',
+  'Priesedant',
+  'Vice-Priesedant',
+  'Secretary',
+  'Bachna-Department',
+  'Audite',
+  'Limat'
+];
+
+// Roles that approve assignments in departments requiring approval
+const APPROVER_ROLES = ['admin', 'Abalat-Guday', 'Priesedant', 'Vice-Priesedant'];
+
+export const canApproveJobs = (user?: IUser) => !!user && APPROVER_ROLES.includes(user.role);
+
+export const getDepartmentRules = async (className: string, session?: ClientSession): Promise<DepartmentRules> => {
+  const policy = await DepartmentPolicy.findOne({ class: className }).session(session || null).lean();
+  if (!policy) return { class: className, ...DEFAULT_DEPARTMENT_RULES };
+
+  const { maxMembers, maxJobsPerStudent, allowedBatches, allowedGenders, requiresApproval, incompatibleWith } = policy;
+  return {
+    class: className,
+    maxMembers: maxMembers ?? undefined,
+    maxJobsPerStudent,
+    allowedBatches,
+    allowedGenders,
+    requiresApproval,
+    incompatibleWith
+  };
+};
+
+// Classes that cannot be held together with this one. A pair set on either
+// department's policy applies both ways.
+export const incompatibleClasses = async (rules: DepartmentRules, session?: ClientSession) => {
+  const reverse = await DepartmentPolicy.find({ incompatibleWith: rules.class }).select('class').session(session || null).lean();
+  return Array.from(new Set([...rules.incompatibleWith, ...reverse.map(policy => policy.class)]));
+};
+
+export type IneligibilityCode =
+  | 'anonymized'
+  | 'inactive'
+  | 'already_assigned'
+  | 'job_cap'
+  | 'batch'
+  | 'gender'
+  | 'incompatible'
+  | 'department_full'
+  | 'team_full';
+
+export interface IneligibilityReason {
+  code: IneligibilityCode;
+  message: string;
+}
+
+export interface EligibilityContext {
+  rules: DepartmentRules;
+  incompatible: string[];
+  memberCount: number;
+  openJobs: Map<string, { class: string; status: JobStatus }[]>; // Active and pending jobs per student
+}
+
+// Load what evaluating a set of students against one class needs, so a
+// candidate list costs a fixed number of queries
+export const buildEligibilityContext = async (
+  rules: DepartmentRules,
+  studentIds: mongoose.Types.ObjectId[],
+  options: { excludeJob?: mongoose.Types.ObjectId; session?: ClientSession } = {}
+): Promise<EligibilityContext> => {
+  // Sequential, since a transaction's session cannot run operations in parallel
+  const incompatible = await incompatibleClasses(rules, options.session);
+  const memberCount = await Job.countDocuments({ class: rules.class, ...ACTIVE_JOB_FILTER }).session(options.session || null);
+  const jobs = await Job.find({
+    studentId: { $in: studentIds },
+    ...OPEN_JOB_FILTER,
+    ...(options.excludeJob ? { _id: { $ne: options.excludeJob } } : {})
+  })
+    .select('studentId class status')
+    .session(options.session || null)
+    .lean();
+
+  const openJobs = new Map<string, { class: string; status: JobStatus }[]>();
+  for (const job of jobs) {
+    const key = job.studentId.toString();
+    if (!openJobs.has(key)) openJobs.set(key, []);
+    openJobs.get(key)!.push({ class: job.class, status: job.status });
+  }
+
+  return { rules, incompatible, memberCount, openJobs };
+};
+
+// Every rule the student fails for the class, so the caller can explain all of them at once
+export const evaluateEligibility = (
+  student: Pick<IStudent, '_id' | 'isActive' | 'anonymizedAt' | 'numberOfJob' | 'batch' | 'gender'>,
+  context: EligibilityContext
+) => {
+  const { rules } = context;
+  const reasons: IneligibilityReason[] = [];
+  const open = context.openJobs.get(String(student._id)) || [];
+
+  if (student.anonymizedAt) {
+    reasons.push({ code: 'anonymized', message: 'Anonymized members cannot be assigned a job' });
+  } else if (!student.isActive) {
+    reasons.push({ code: 'inactive', message: 'Only active students can be assigned a job' });
+  }
+
+  const current = open.find(job => job.class === rules.class);
+  if (current) {
+    reasons.push({
+      code: 'already_assigned',
+      message: current.status === 'pending'
+        ? 'Student already has an assignment to this class awaiting approval'
+        : 'Student already assigned to this class'
+    });
+  }
+
+  if ((student.numberOfJob || 0) >= rules.maxJobsPerStudent) {
+    reasons.push({
+      code: 'job_cap',
+      message: `Student already has ${student.numberOfJob} job assignments; ${rules.class} allows at most ${rules.maxJobsPerStudent}`
+    });
+  }
+
+  if (rules.allowedBatches.length > 0 && !rules.allowedBatches.includes(student.batch)) {
+    reasons.push({
+      code: 'batch',
+      message: `${rules.class} only accepts batches ${rules.allowedBatches.join(', ')}`
+    });
+  }
+
+  if (rules.allowedGenders.length > 0 && !rules.allowedGenders.includes(student.gender)) {
+    reasons.push({
+      code: 'gender',
+      message: `${rules.class} only accepts ${rules.allowedGenders.join(' and ')} members`
+    });
+  }
+
+  const conflicts = open.filter(job => context.incompatible.includes(job.class)).map(job => job.class);
+  if (conflicts.length > 0) {
+    reasons.push({
+      code: 'incompatible',
+      message: `Membership in ${conflicts.join(', ')} cannot be combined with ${rules.class}`
+    });
+  }
+
+  if (rules.maxMembers !== undefined && context.memberCount >= rules.maxMembers) {
+    reasons.push({
+      code: 'department_full',
+      message: `${rules.class} already has its maximum of ${rules.maxMembers} members`
+    });
+  }
+
+  return { eligible: reasons.length === 0, reasons };
+};
+
+// Evaluate one student. An assignment being approved is left out of its own check.
+export const checkJobEligibility = async (
+  student: Parameters<typeof evaluateEligibility>[0],
+  className: string,
+  options: { excludeJob?: mongoose.Types.ObjectId; session?: ClientSession } = {}
+) => {
+  const rules = await getDepartmentRules(className, options.session);
+  const context = await buildEligibilityContext(rules, [student._id as mongoose.Types.ObjectId], options);
+  return { rules, ...evaluateEligibility(student, context) };
+};
+
+// Narrow a candidate search by the rules a query can express; the rest are
+// applied per student by evaluateEligibility
+export const eligibleStudentQuery = (rules: DepartmentRules): Record<string, any> => ({
+  isActive: true,
+  anonymizedAt: { $exists: false },
+  numberOfJob: { $lt: rules.maxJobsPerStudent },
+  ...(rules.allowedBatches.length > 0 ? { batch: { $in: rules.allowedBatches } } : {}),
+  ...(rules.allowedGenders.length > 0 ? { gender: { $in: rules.allowedGenders } } : {})
+});
+
+// Create a job for a student after the policy checks. In departments requiring
+// approval the job waits for a leader unless a leader makes it.
+export const assignStudentToClass = async (
+  studentId: mongoose.Types.ObjectId | string,
+  className: string,
+  options: { actor: IUser; team?: ITeam | null; session?: ClientSession }
+) => {
+  const { session } = options;
+  const student = await Student.findById(studentId).session(session || null);
+  if (!student) return { error: 'Student not found' as const };
+
+  const { rules, reasons } = await checkJobEligibility(student, className, { session });
+
+  const team = options.team;
+  if (team?.capacity) {
+    const members = await Job.countDocuments({ team: team._id, ...ACTIVE_JOB_FILTER }).session(session || null);
+    if (members >= team.capacity) {
+      reasons.push({ code: 'team_full', message: `${team.name} is full (${team.capacity} members)` });
+    }
+  }
+  if (reasons.length > 0) return { reasons };
+
+  const approved = !rules.requiresApproval || canApproveJobs(options.actor);
+  const serviceYear = await getOpenServiceYear(session);
+
+  // A term in the open service year
+  const job = new Job({
+    studentId: student._id,
+    class: className,
+    sub_class: team?.name ?? null,
+    team: team?._id,
+    type: 'member', // Default type
+    background: null,
+    status: approved ? 'active' : 'pending',
+    serviceYear: serviceYear?._id,
+    startDate: approved ? new Date() : undefined,
+    requestedBy: options.actor._id,
+    ...(rules.requiresApproval && approved ? { reviewedBy: options.actor._id, reviewedAt: new Date() } : {})
+  });
+  await job.save({ session });
+
+  // Pending assignments count once approved
+  if (approved) {
+    student.numberOfJob += 1;
+    await student.save({ session });
+  }
+
+  return { job, approved, student };
+};
@@ -0,0 +1,215 @@
+import mongoose from 'mongoose';
+import Student from '../models/Student';
+import Job, { ACTIVE_JOB_FILTER } from '../models/Job';
+import DepartmentPolicy, { IRecommendationPreferences } from '../models/DepartmentPolicy';
+import {
+  DepartmentRules,
+  buildEligibilityContext,
+  eligibleStudentQuery,
+  evaluateEligibility
+} from './jobPolicy';
+
+// Points per signal. Kept small and additive so the reasons add up to the score.
+const WEIGHTS = {
+  language: 3, // Per matching language, at most two
+  preferredCourse: 3,
+  attendsCourse: 1,
+  college: 2,
+  academicDepartment: 2,
+  genderBalance: 2,
+  noJobs: 3,
+  oneJob: 1,
+  perExtraJob: -1
+};
+
+// A department's members share a trait when at least this share of them has it
+const COMMON_SHARE = 0.3;
+
+// Gender balance counts once the minority falls below this share
+const BALANCE_SHARE = 0.4;
+
+export interface RecommendationReason {
+  signal: 'language' | 'course' | 'college' | 'department' | 'gender_balance' | 'jobs';
+  points: number;
+  message: string;
+}
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+const studentLanguages = (student: { motherTongue?: string; additionalLanguages?: string[] }) =>
+  [student.motherTongue, ...(student.additionalLanguages || [])].filter(Boolean) as string[];
+
+// Values held by at least COMMON_SHARE of the members, most common first
+const commonValues = (values: string[][], memberCount: number) => {
+  const counts = new Map<string, { label: string; count: number }>();
+  for (const list of values) {
+    for (const value of new Set(list.map(normalize))) {
+      if (!value) continue;
+      const label = list.find(item => normalize(item) === value)!;
+      counts.set(value, { label: counts.get(value)?.label || label, count: (counts.get(value)?.count || 0) + 1 });
+    }
+  }
+  return Array.from(counts.values())
+    .filter(item => memberCount > 0 && item.count / memberCount >= COMMON_SHARE)
+    .sort((a, b) => b.count - a.count)
+    .map(item => item.label);
+};
+
+// What the department looks for: its stored preferences, or failing those
+// what its current members have in common
+export const departmentProfile = async (className: string) => {
+  const policy = await DepartmentPolicy.findOne({ class: className }).select('preferences').lean();
+  const stored: Partial<IRecommendationPreferences> = policy?.preferences || {};
+
+  const memberIds = await Job.distinct('studentId', { class: className, ...ACTIVE_JOB_FILTER });
+  const members = await Student.find({ _id: { $in: memberIds } })
+    .select('gender motherTongue additionalLanguages college department')
+    .lean();
+
+  const genders = { male: 0, female: 0 };
+  for (const member of members) {
+    if (member.gender === 'male' || member.gender === 'female') genders[member.gender]++;
+  }
+
+  const pick = (field: keyof IRecommendationPreferences, derived: () => string[]) =>
+    stored[field]?.length ? { values: stored[field]!, source: 'policy' as const } : { values: derived(), source: 'members' as const };
+
+  return {
+    members: members.length,
+    genders,
+    languages: pick('languages', () => commonValues(members.map(studentLanguages), members.length)),
+    courses: { values: stored.courses || [], source: 'policy' as const },
+    colleges: pick('colleges', () => commonValues(members.map(member => [member.college]), members.length)),
+    departments: pick('departments', () => commonValues(members.map(member => [member.department]), members.length))
+  };
+};
+
+export type DepartmentProfile = Awaited<ReturnType<typeof departmentProfile>>;
+
+const sourceNote = (source: 'policy' | 'members') =>
+  source === 'policy' ? 'preferred by the department' : 'common among current members';
+
+// Score one candidate and say why
+export const scoreCandidate = (student: any, profile: DepartmentProfile) => {
+  const reasons: RecommendationReason[] = [];
+
+  const wanted = new Set(profile.languages.values.map(normalize));
+  const spoken = studentLanguages(student).filter(language => wanted.has(normalize(language)));
+  if (spoken.length > 0) {
+    const matched = Array.from(new Set(spoken)).slice(0, 2);
+    reasons.push({
+      signal: 'language',
+      points: matched.length * WEIGHTS.language,
+      message: `Speaks ${matched.join(' and ')}, ${sourceNote(profile.languages.source)}`
+    });
+  }
+
+  const courses = profile.courses.values.map(normalize);
+  const completed = (student.completedCourses || []).map((course: any) => normalize(course.code));
+  const preferredCourse = courses.find(course =>
+    completed.includes(course) || (student.attendsCourse && normalize(student.courseName).includes(course))
+  );
+  if (preferredCourse) {
+    reasons.push({
+      signal: 'course',
+      points: WEIGHTS.preferredCourse,
+      message: completed.includes(preferredCourse)
+        ? `Completed ${preferredCourse.toUpperCase()}, preferred by the department`
+        : `Attends ${student.courseName}, preferred by the department`
+    });
+  } else if (student.attendsCourse) {
+    reasons.push({
+      signal: 'course',
+      points: WEIGHTS.attendsCourse,
+      message: `Attends a course${student.courseName ? ` (${student.courseName})` : ''}`
+    });
+  }
+
+  if (profile.colleges.values.some(college => normalize(college) === normalize(student.college))) {
+    reasons.push({
+      signal: 'college',
+      points: WEIGHTS.college,
+      message: `Studies in ${student.college}, ${sourceNote(profile.colleges.source)}`
+    });
+  }
+
+  if (profile.departments.values.some(department => normalize(department) === normalize(student.department))) {
+    reasons.push({
+      signal: 'department',
+      points: WEIGHTS.academicDepartment,
+      message: `Studies ${student.department}, ${sourceNote(profile.departments.source)}`
+    });
+  }
+
+  const { male, female } = profile.genders;
+  const total = male + female;
+  if (total > 0 && (student.gender === 'male' || student.gender === 'female')) {
+    const share = profile.genders[student.gender as 'male' | 'female'] / total;
+    if (share < BALANCE_SHARE) {
+      reasons.push({
+        signal: 'gender_balance',
+        points: WEIGHTS.genderBalance,
+        message: `Improves gender balance (${profile.genders[student.gender as 'male' | 'female']} of ${total} members are ${student.gender})`
+      });
+    }
+  }
+
+  const jobs = student.numberOfJob || 0;
+  if (jobs === 0) {
+    reasons.push({ signal: 'jobs', points: WEIGHTS.noJobs, message: 'Has no other job yet' });
+  } else if (jobs === 1) {
+    reasons.push({ signal: 'jobs', points: WEIGHTS.oneJob, message: 'Holds only one other job' });
+  } else {
+    reasons.push({
+      signal: 'jobs',
+      points: WEIGHTS.perExtraJob * (jobs - 1),
+      message: `Already holds ${jobs} jobs`
+    });
+  }
+
+  return {
+    score: reasons.reduce((sum, reason) => sum + reason.points, 0),
+    reasons
+  };
+};
+
+const CANDIDATE_FIELDS = 'gibyGubayeId firstName middleName lastName gender batch college department motherTongue additionalLanguages attendsCourse courseName completedCourses numberOfJob isActive anonymizedAt photo photoFileId';
+
+// Eligible students for a department, best match first. Students the policy
+// excludes are never ranked.
+export const recommendCandidates = async (
+  rules: DepartmentRules,
+  options: { limit: number; search?: string }
+) => {
+  const query: Record<string, any> = eligibleStudentQuery(rules);
+  if (options.search) {
+    const pattern = { $regex: options.search, $options: 'i' };
+    query.$or = ['firstName', 'middleName', 'lastName', 'gibyGubayeId'].map(field => ({ [field]: pattern }));
+  }
+
+  const [profile, students] = await Promise.all([
+    departmentProfile(rules.class),
+    Student.find(query).select(CANDIDATE_FIELDS).lean()
+  ]);
+
+  const context = await buildEligibilityContext(
+    rules,
+    students.map(student => student._id as mongoose.Types.ObjectId)
+  );
+
+  const candidates = students
+    .filter(student => evaluateEligibility(student as any, context).eligible)
+    .map(student => ({ student, ...scoreCandidate(student, profile) }))
+    .sort((a, b) =>
+      b.score - a.score ||
+      (a.student.numberOfJob || 0) - (b.student.numberOfJob || 0) ||
+      a.student.firstName.localeCompare(b.student.firstName)
+    );
+
+  return {
+    profile,
+    considered: students.length,
+    eligible: candidates.length,
+    candidates: candidates.slice(0, options.limit)
+  };
+};
@@ -0,0 +1,172 @@
+import mongoose from 'mongoose';
+import Student from '../models/Student';
+import User, { IUser } from '../models/User';
+import Job from '../models/Job';
+import Family, { FamilyRole, IFamily } from '../models/Family';
+import Agenda from '../models/Agenda';
+import Transaction from '../models/Transaction';
+import { familyMembershipQuery } from './studentMerge';
+
+export const PROFILE_SECTIONS = ['account', 'jobs', 'families', 'agendas', 'transactions'] as const;
+export type ProfileSection = typeof PROFILE_SECTIONS[number];
+
+// 'all' shows the whole section, 'class' only entries of the caller's own
+// department (their role matches Job.class / Agenda.meetingClass)
+export type SectionAccess = 'all' | 'class' | null;
+
+// Roles that see a section in full. The member themselves always sees their own profile.
+const SECTION_ROLES: Record<ProfileSection, string[]> = {
+  account: ['admin', 'Abalat-Guday', 'Secretary'],
+  jobs: ['admin', 'Abalat-Guday', 'Secretary', 'Priesedant', 'Vice-Priesedant'],
+  families: ['admin', 'Abalat-Guday', 'Secretary', 'Priesedant', 'Vice-Priesedant'],
+  agendas: ['admin', 'Secretary', 'Priesedant', 'Vice-Priesedant'],
+  transactions: ['admin', 'accountant', 'Audite']
+};
+
+// Sections department leaders see for their own class only
+const CLASS_SCOPED_SECTIONS: ProfileSection[] = ['jobs', 'agendas'];
+
+const DEPARTMENT_ROLES = ['Mezmur', 'Timhrt', 'Muyana-Terado', 'Bachna-Department', 'Limat', 'Abalat-Guday', 'Secretary'];
+
+export const profileAccess = (user: IUser | undefined, studentId: mongoose.Types.ObjectId) => {
+  const isSelf = !!user?.studentId && user.studentId.toString() === studentId.toString();
+
+  return Object.fromEntries(PROFILE_SECTIONS.map(section => {
+    let access: SectionAccess = null;
+    if (isSelf || (user && SECTION_ROLES[section].includes(user.role))) {
+      access = 'all';
+    } else if (user && CLASS_SCOPED_SECTIONS.includes(section) && DEPARTMENT_ROLES.includes(user.role)) {
+      access = 'class';
+    }
+    return [section, access];
+  })) as Record<ProfileSection, SectionAccess>;
+};
+
+export interface FamilyPosition {
+  family: { _id: any; title: string; batch: string; status: string };
+  role: FamilyRole;
+  grandParentTitle?: string;
+  relationship?: 'son' | 'daughter';
+  birthOrder?: number;
+  ended?: { endedAt: Date; reason?: string };
+}
+
+const sameId = (value: any, id: mongoose.Types.ObjectId) => !!value && value.toString() === id.toString();
+
+// Every slot the student holds in the family trees, current and ended
+export const familyPositions = (families: IFamily[], studentId: mongoose.Types.ObjectId): FamilyPosition[] => {
+  const positions: FamilyPosition[] = [];
+
+  for (const family of families) {
+    const summary = { _id: family._id, title: family.title, batch: family.batch, status: family.status };
+    const ended = (role: FamilyRole) => {
+      const entry = (family.endedRoles || []).find(item => sameId(item.student, studentId) && item.role === role);
+      return entry ? { ended: { endedAt: entry.endedAt, reason: entry.reason } } : {};
+    };
+    const add = (role: FamilyRole, extra: Partial<FamilyPosition> = {}) =>
+      positions.push({ family: summary, role, ...extra, ...ended(role) });
+
+    if (sameId(family.familyLeader, studentId)) add('familyLeader');
+    if (sameId(family.familyCoLeader, studentId)) add('familyCoLeader');
+    if (sameId(family.familySecretary, studentId)) add('familySecretary');
+
+    for (const grandParent of family.grandParents || []) {
+      const grandParentTitle = grandParent.title;
+      if (sameId(grandParent.grandFather, studentId)) add('grandFather', { grandParentTitle });
+      if (sameId(grandParent.grandMother, studentId)) add('grandMother', { grandParentTitle });
+
+      for (const member of grandParent.families || []) {
+        if (sameId(member.father?.student, studentId)) add('father', { grandParentTitle });
+        if (sameId(member.mother?.student, studentId)) add('mother', { grandParentTitle });
+
+        for (const child of member.children || []) {
+          if (sameId(child.student, studentId)) {
+            add('child', { grandParentTitle, relationship: child.relationship, birthOrder: child.birthOrder });
+          }
+        }
+      }
+    }
+  }
+
+  return positions;
+};
+
+// Everything about one member in a single response. Sections the caller may
+// not see are returned as null and listed in hiddenSections.
+export const buildMemberProfile = async (studentId: mongoose.Types.ObjectId, user?: IUser) => {
+  const student = await Student.findById(studentId);
+  if (!student) {
+    return null;
+  }
+
+  const access = profileAccess(user, studentId);
+  const classFilter = (section: ProfileSection, field: string) =>
+    access[section] === 'class' ? { [field]: user?.role } : {};
+
+  const account = await User.findOne({ studentId }).select('-password');
+
+  const jobs = access.jobs
+    ? await Job.find({ studentId, ...classFilter('jobs', 'class') }).sort({ status: 1, createdAt: -1 })
+    : null;
+
+  let families = null;
+  if (access.families) {
+    const familyDocs = await Family.find({
+      $or: [...familyMembershipQuery(studentId), { 'endedRoles.student': studentId }]
+    }).sort({ familyDate: -1 });
+    families = familyPositions(familyDocs, studentId);
+  }
+
+  let agendas = null;
+  if (access.agendas) {
+    const agendaDocs = await Agenda.find({
+      $or: [{ draftContributors: studentId }, { meetingContributors: studentId }],
+      ...classFilter('agendas', 'meetingClass')
+    })
+      .select('meetingClass location status draftDate meetingDate agendaTitles.title draftContributors meetingContributors')
+      .sort({ meetingDate: -1, draftDate: -1 });
+
+    agendas = agendaDocs.map(agenda => ({
+      _id: agenda._id,
+      meetingClass: agenda.meetingClass,
+      location: agenda.location,
+      status: agenda.status,
+      draftDate: agenda.draftDate,
+      meetingDate: agenda.meetingDate,
+      titles: agenda.agendaTitles.map(title => title.title),
+      contributedAs: [
+        ...(agenda.draftContributors.some(id => sameId(id, studentId)) ? ['draft'] : []),
+        ...(agenda.meetingContributors.some(id => sameId(id, studentId)) ? ['meeting'] : [])
+      ]
+    }));
+  }
+
+  let transactions = null;
+  if (access.transactions) {
+    if (account) {
+      const summary = await Transaction.aggregate([
+        { $match: { userId: account._id } },
+        { $group: { _id: { type: '$type', status: '$status' }, count: { $sum: 1 }, amount: { $sum: '$amount' } } },
+        { $sort: { '_id.type': 1, '_id.status': 1 } }
+      ]);
+      const recent = await Transaction.find({ userId: account._id }).sort({ createdAt: -1 }).limit(20);
+      transactions = {
+        summary: summary.map(({ _id, count, amount }) => ({ ...(_id as object), count, amount })),
+        recent
+      };
+    } else {
+      transactions = { summary: [], recent: [] };
+    }
+  }
+
+  return {
+    student,
+    account: access.account ? account : null,
+    jobs,
+    families,
+    agendas,
+    transactions,
+    access,
+    hiddenSections: PROFILE_SECTIONS.filter(section => !access[section])
+  };
+};
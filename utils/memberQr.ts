@@ -0,0 +1,65 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+
+// Codes look like GG1.<base64url gibyGubayeId>.<base64url signature>.
+// The version prefix lets the format change without breaking printed cards.
+const CODE_PREFIX = 'GG1';
+
+const getSecret = () => {
+  const secret = process.env.ID_CARD_SECRET || process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('ID_CARD_SECRET or JWT_SECRET must be set to sign member codes');
+  }
+  return secret;
+};
+
+// 16 bytes of HMAC keeps the QR code small while staying unguessable
+const sign = (payload: string) =>
+  crypto.createHmac('sha256', getSecret()).update(`${CODE_PREFIX}.${payload}`).digest().subarray(0, 16);
+
+export const signMemberCode = (gibyGubayeId: string) => {
+  const payload = Buffer.from(gibyGubayeId, 'utf8').toString('base64url');
+  return `${CODE_PREFIX}.${payload}.${sign(payload).toString('base64url')}`;
+};
+
+// Returns the gibyGubayeId when the signature is valid, otherwise null.
+// Accepts a bare code or a verification URL carrying it in ?code=
+export const verifyMemberCode = (input: string): string | null => {
+  let code = input.trim();
+
+  if (/^https?:\/\//i.test(code)) {
+    try {
+      code = new URL(code).searchParams.get('code') || '';
+    } catch {
+      return null;
+    }
+  }
+
+  const [prefix, payload, signature] = code.split('.');
+  if (prefix !== CODE_PREFIX || !payload || !signature) {
+    return null;
+  }
+
+  const expected = sign(payload);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  return Buffer.from(payload, 'base64url').toString('utf8');
+};
+
+// What the QR code holds: a verification URL when ID_CARD_VERIFY_URL is set
+// (so any phone camera opens it), otherwise the bare code
+export const memberQrContent = (gibyGubayeId: string) => {
+  const code = signMemberCode(gibyGubayeId);
+  const verifyUrl = process.env.ID_CARD_VERIFY_URL;
+  return verifyUrl ? `${verifyUrl}${verifyUrl.includes('?') ? '&' : '?'}code=${encodeURIComponent(code)}` : code;
+};
+
+export const memberQrPng = (gibyGubayeId: string) =>
+  QRCode.toBuffer(memberQrContent(gibyGubayeId), {
+    errorCorrectionLevel: 'M',
+    margin: 1,
+    width: 240
+  });
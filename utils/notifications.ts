@@ -0,0 +1,34 @@
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Notification, { NotificationType } from '../models/Notification';
+
+export interface NotificationContent {
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, any>;
+}
+
+// Notifications never fail the action that triggered them; errors are only logged
+export const notifyUsers = async (userIds: mongoose.Types.ObjectId[], content: NotificationContent) => {
+  if (userIds.length === 0) return 0;
+  try {
+    await Notification.insertMany(userIds.map(user => ({ user, ...content })));
+    return userIds.length;
+  } catch (error) {
+    console.error('Error sending notifications:', error);
+    return 0;
+  }
+};
+
+// Every account linked to the student record
+export const notifyStudent = async (studentId: mongoose.Types.ObjectId, content: NotificationContent) => {
+  const users = await User.find({ studentId, isActive: true }).select('_id').lean().catch(() => []);
+  return notifyUsers(users.map(user => user._id as mongoose.Types.ObjectId), content);
+};
+
+// Every active account holding one of the roles
+export const notifyRoles = async (roles: string[], content: NotificationContent) => {
+  const users = await User.find({ role: { $in: roles }, isActive: true }).select('_id').lean().catch(() => []);
+  return notifyUsers(users.map(user => user._id as mongoose.Types.ObjectId), content);
+};
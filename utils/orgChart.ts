@@ -0,0 +1,198 @@
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Job, { ACTIVE_JOB_FILTER } from '../models/Job';
+import Team from '../models/Team';
+import Family from '../models/Family';
+import { DEPARTMENT_CLASSES } from './jobPolicy';
+
+// Offices of the executive committee, in the order they are listed
+const EXECUTIVE_ROLES = ['Priesedant', 'Vice-Priesedant', 'Secretary', 'Abalat-Guday'];
+
+// Job types that lead a department or one of its teams
+const LEADERSHIP_TYPES = ['leader', 'sub_leader', 'Secretary'];
+
+const JOB_TYPE_TITLES: Record<string, string> = {
+  leader: 'Leader',
+  sub_leader: 'Sub-leader',
+  Secretary: 'Secretary'
+};
+
+export interface OrgChartHolder {
+  title: string;
+  name: string;
+  student?: mongoose.Types.ObjectId;
+  gibyGubayeId?: string;
+}
+
+export interface OrgChartNode {
+  id: string;
+  kind: 'fellowship' | 'group' | 'office' | 'department' | 'team' | 'family';
+  name: string;
+  holders: OrgChartHolder[];
+  children: OrgChartNode[];
+}
+
+const studentName = (student: any) =>
+  student ? [student.firstName, student.lastName].filter(Boolean).join(' ') : 'Unknown';
+
+const studentHolder = (title: string, student: any): OrgChartHolder => ({
+  title,
+  name: studentName(student),
+  student: student?._id,
+  gibyGubayeId: student?.gibyGubayeId
+});
+
+// Who leads what: executive offices held by user accounts, department and
+// team leadership from current jobs, and the leaders of current families
+export const buildOrgChart = async (options: { includeFamilies: boolean }) => {
+  const [users, jobs, teams, families] = await Promise.all([
+    User.find({ role: { $in: DEPARTMENT_CLASSES }, isActive: true })
+      .select('name role studentId gibyGubayeId')
+      .sort({ name: 1 })
+      .lean(),
+    Job.find({ type: { $in: LEADERSHIP_TYPES }, ...ACTIVE_JOB_FILTER })
+      .populate('studentId', 'gibyGubayeId firstName lastName')
+      .sort({ type: 1, createdAt: 1 })
+      .lean(),
+    Team.find({ isActive: true })
+      .populate('lead', 'gibyGubayeId firstName lastName')
+      .sort({ name: 1 })
+      .lean(),
+    options.includeFamilies
+      ? Family.find({ status: 'current' })
+        .populate('familyLeader familyCoLeader familySecretary', 'gibyGubayeId firstName lastName')
+        .sort({ title: 1 })
+        .lean()
+      : Promise.resolve([])
+  ]);
+
+  const unitNode = (className: string, kind: 'office' | 'department'): OrgChartNode => {
+    const unitJobs = jobs.filter(job => job.class === className);
+    const holders: OrgChartHolder[] = [
+      ...users
+        .filter(user => user.role === className)
+        .map(user => ({
+          title: kind === 'office' ? 'Held by' : 'Head',
+          name: user.name,
+          student: user.studentId,
+          gibyGubayeId: user.gibyGubayeId
+        })),
+      ...unitJobs
+        .filter(job => !job.team)
+        .map(job => studentHolder(JOB_TYPE_TITLES[job.type || ''] || 'Leader', job.studentId))
+    ];
+
+    const children = teams
+      .filter(team => team.class === className)
+      .map(team => ({
+        id: `team:${team._id}`,
+        kind: 'team' as const,
+        name: team.name,
+        holders: [
+          ...(team.lead ? [studentHolder('Team lead', team.lead)] : []),
+          ...unitJobs
+            .filter(job => job.team?.toString() === team._id.toString())
+            .map(job => studentHolder(JOB_TYPE_TITLES[job.type || ''] || 'Leader', job.studentId))
+        ],
+        children: []
+      }));
+
+    return { id: `${kind}:${className}`, kind, name: className, holders, children };
+  };
+
+  const departments = DEPARTMENT_CLASSES.filter(className => !EXECUTIVE_ROLES.includes(className));
+
+  const familyNodes: OrgChartNode[] = families.map(family => {
+    const ended = new Set((family.endedRoles || []).map(role => `${role.student}:${role.role}`));
+    const current = (role: 'familyLeader' | 'familyCoLeader' | 'familySecretary') => {
+      const student = family[role] as any;
+      return student && !ended.has(`${student._id}:${role}`) ? student : null;
+    };
+
+    return {
+      id: `family:${family._id}`,
+      kind: 'family',
+      name: family.title,
+      holders: [
+        ['familyLeader', 'Leader'],
+        ['familyCoLeader', 'Co-leader'],
+        ['familySecretary', 'Secretary']
+      ]
+        .filter(([role]) => current(role as any))
+        .map(([role, title]) => studentHolder(title, current(role as any))),
+      children: []
+    };
+  });
+
+  const root: OrgChartNode = {
+    id: 'fellowship',
+    kind: 'fellowship',
+    name: process.env.ID_CARD_TITLE || 'Giby Gubaye',
+    holders: [],
+    children: [
+      {
+        id: 'group:executive',
+        kind: 'group',
+        name: 'Executive committee',
+        holders: [],
+        children: EXECUTIVE_ROLES.map(role => unitNode(role, 'office'))
+      },
+      {
+        id: 'group:departments',
+        kind: 'group',
+        name: 'Departments',
+        holders: [],
+        children: departments.map(className => unitNode(className, 'department'))
+      },
+      ...(options.includeFamilies
+        ? [{ id: 'group:families', kind: 'group' as const, name: 'Families', holders: [], children: familyNodes }]
+        : [])
+    ]
+  };
+
+  return root;
+};
+
+const flatten = (node: OrgChartNode, parent: OrgChartNode | null, visit: (node: OrgChartNode, parent: OrgChartNode | null) => void) => {
+  visit(node, parent);
+  for (const child of node.children) flatten(child, node, visit);
+};
+
+const nodeLines = (node: OrgChartNode) => [
+  node.name,
+  ...node.holders.map(holder => `${holder.title}: ${holder.name}`)
+];
+
+// Graph ids must be plain identifiers
+const graphIds = (root: OrgChartNode) => {
+  const ids = new Map<string, string>();
+  flatten(root, null, node => ids.set(node.id, `n${ids.size}`));
+  return ids;
+};
+
+export const renderMermaid = (root: OrgChartNode) => {
+  const ids = graphIds(root);
+  const lines = ['flowchart TD'];
+
+  flatten(root, null, (node, parent) => {
+    const label = nodeLines(node).map(line => line.replace(/"/g, '#quot;')).join('<br/>');
+    lines.push(`  ${ids.get(node.id)}["${label}"]`);
+    if (parent) lines.push(`  ${ids.get(parent.id)} --> ${ids.get(node.id)}`);
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+export const renderDot = (root: OrgChartNode) => {
+  const ids = graphIds(root);
+  const lines = ['digraph OrgChart {', '  rankdir=TB;', '  node [shape=box, style=rounded, fontname="Helvetica"];'];
+
+  flatten(root, null, (node, parent) => {
+    const label = nodeLines(node).map(line => line.replace(/\\/g, '\\\\').replace(/"/g, '\\"')).join('\\n');
+    lines.push(`  ${ids.get(node.id)} [label="${label}"];`);
+    if (parent) lines.push(`  ${ids.get(parent.id)} -> ${ids.get(node.id)};`);
+  });
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+};
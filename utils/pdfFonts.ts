@@ -0,0 +1,30 @@
+import fs from 'fs';
+
+// pdfkit's built-in Helvetica has no Ethiopic glyphs, so Amharic names would
+// print as garbage. Noto Sans Ethiopic covers both Ethiopic and Latin text.
+export const PDF_FONT = 'NotoSansEthiopic';
+export const PDF_FONT_BOLD = 'NotoSansEthiopic-Bold';
+
+const FONT_FILES: Record<string, string> = {
+  [PDF_FONT]: '@expo-google-fonts/noto-sans-ethiopic/400Regular/NotoSansEthiopic_400Regular.ttf',
+  [PDF_FONT_BOLD]: '@expo-google-fonts/noto-sans-ethiopic/700Bold/NotoSansEthiopic_700Bold.ttf'
+};
+
+// Read once per process; every document embeds only the glyphs it uses
+const fontData = new Map<string, Buffer>();
+
+const loadFont = (name: string) => {
+  if (!fontData.has(name)) {
+    fontData.set(name, fs.readFileSync(require.resolve(FONT_FILES[name])));
+  }
+  return fontData.get(name)!;
+};
+
+// Register the fonts on a new document and make the regular one current
+export const registerPdfFonts = (doc: PDFKit.PDFDocument) => {
+  for (const name of Object.keys(FONT_FILES)) {
+    doc.registerFont(name, loadFont(name));
+  }
+  doc.font(PDF_FONT);
+  return doc;
+};
@@ -0,0 +1,214 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { IUser } from '../models/User';
+import Job, { ACTIVE_JOB_FILTER } from '../models/Job';
+import SensitiveAccessLog from '../models/SensitiveAccessLog';
+
+// Student fields treated as personal data
+export const CONTACT_FIELDS = ['phone', 'email', 'emergencyContact'] as const;
+// age is a virtual derived from dateOfBirth and would give away the birth year
+export const PERSONAL_FIELDS = ['motherName', 'dateOfBirth', 'dateOfBirthEthiopian', 'age'] as const;
+export const SENSITIVE_FIELDS = [...CONTACT_FIELDS, ...PERSONAL_FIELDS];
+
+// full:    every sensitive field
+// contact: phone, email and emergency contact only
+// none:    everything masked
+export type PiiLevel = 'full' | 'contact' | 'none';
+
+interface RolePolicy {
+  all: PiiLevel;         // For any student
+  ownMembers?: PiiLevel; // For students with an active job in the caller's department (Job.class === role)
+}
+
+const LEADERSHIP: RolePolicy = { all: 'full' };
+const DEPARTMENT: RolePolicy = { all: 'none', ownMembers: 'contact' };
+
+// Field visibility per role. Roles not listed see everything masked.
+// A member always sees their own record in full.
+export const PII_POLICIES: Record<string, RolePolicy> = {
+  admin: LEADERSHIP,
+  'Abalat-Guday': LEADERSHIP,
+  Secretary: LEADERSHIP,
+  Priesedant: { all: 'contact' },
+  'Vice-Priesedant': { all: 'contact' },
+  Mezmur: DEPARTMENT,
+  Timhrt: DEPARTMENT,
+  'Muyana-Terado': DEPARTMENT,
+  'Bachna-Department': DEPARTMENT,
+  Limat: DEPARTMENT
+};
+
+export interface PiiContext {
+  user?: IUser;
+  policy: RolePolicy;
+  ownMembers: Set<string>;
+}
+
+export const policyFor = (user?: IUser): RolePolicy =>
+  (user && PII_POLICIES[user.role]) || { all: 'none' };
+
+// Whether list searches may match on phone, email and mother name
+export const canSearchSensitive = (user?: IUser) => policyFor(user).all === 'full';
+
+export const buildPiiContext = async (user?: IUser): Promise<PiiContext> => {
+  const policy = policyFor(user);
+  const ownMembers = new Set<string>();
+
+  if (user && policy.ownMembers) {
+    const jobs = await Job.find({ class: user.role, ...ACTIVE_JOB_FILTER }).select('studentId').lean();
+    for (const job of jobs) {
+      ownMembers.add(job.studentId.toString());
+    }
+  }
+
+  return { user, policy, ownMembers };
+};
+
+const levelFor = (context: PiiContext, studentId?: string): PiiLevel => {
+  if (studentId && context.user?.studentId?.toString() === studentId) return 'full';
+  if (studentId && context.policy.ownMembers && context.ownMembers.has(studentId)) {
+    return context.policy.ownMembers;
+  }
+  return context.policy.all;
+};
+
+export const maskPhone = (value: string) =>
+  value.length <= 4 ? '****' : `${value.slice(0, 2)}${'*'.repeat(value.length - 4)}${value.slice(-2)}`;
+
+export const maskEmail = (value: string) => {
+  const [local, domain] = value.split('@');
+  return domain ? `${local.charAt(0)}${'*'.repeat(Math.max(local.length - 1, 3))}@${domain}` : '****';
+};
+
+const maskValue = (field: string, value: any) => {
+  if (value === undefined || value === null || value === '') return value;
+
+  switch (field) {
+    case 'phone':
+    case 'emergencyContact':
+      return maskPhone(String(value));
+    case 'email':
+      return maskEmail(String(value));
+    case 'motherName':
+      return `${String(value).charAt(0)}***`;
+    default:
+      return null;
+  }
+};
+
+const isStudentLike = (value: Record<string, any>) =>
+  'firstName' in value && ('gibyGubayeId' in value || 'lastName' in value);
+
+// Student history entries carry before/after values of the same fields
+const isHistoryLike = (value: Record<string, any>) =>
+  'student' in value && Array.isArray(value.changes) && 'version' in value;
+
+const isFieldVisible = (level: PiiLevel, field: string) =>
+  level === 'full' || (level === 'contact' && (CONTACT_FIELDS as readonly string[]).includes(field));
+
+export interface PiiExposure {
+  students: Set<string>;
+  fields: Set<string>;
+}
+
+// Mask one student-shaped plain object in place and note what stayed visible
+export const maskStudentFields = (student: Record<string, any>, context: PiiContext, exposure: PiiExposure) => {
+  const studentId = student._id?.toString() || student.id;
+  const level = levelFor(context, studentId);
+  const isSelf = !!studentId && context.user?.studentId?.toString() === studentId;
+
+  for (const field of SENSITIVE_FIELDS) {
+    if (!(field in student) || student[field] === undefined || student[field] === null || student[field] === '') {
+      continue;
+    }
+
+    if (!isFieldVisible(level, field)) {
+      student[field] = maskValue(field, student[field]);
+    } else if (!isSelf && studentId) {
+      exposure.students.add(studentId);
+      exposure.fields.add(field);
+    }
+  }
+
+  return student;
+};
+
+const maskHistoryChanges = (entry: Record<string, any>, context: PiiContext, exposure: PiiExposure) => {
+  const studentId = (entry.student?._id || entry.student)?.toString();
+  const level = levelFor(context, studentId);
+  const isSelf = !!studentId && context.user?.studentId?.toString() === studentId;
+
+  for (const change of entry.changes) {
+    if (!(SENSITIVE_FIELDS as string[]).includes(change?.field)) continue;
+
+    if (isFieldVisible(level, change.field)) {
+      if (!isSelf && studentId) {
+        exposure.students.add(studentId);
+        exposure.fields.add(change.field);
+      }
+    } else {
+      change.before = maskValue(change.field, change.before);
+      change.after = maskValue(change.field, change.after);
+    }
+  }
+
+  return entry;
+};
+
+const isObjectId = (value: any) => value instanceof mongoose.Types.ObjectId || value?._bsontype === 'ObjectId';
+
+// Walk any response body and mask every student-shaped object in it,
+// including students populated into jobs, families and agendas
+export const maskStudentsDeep = (value: any, context: PiiContext, exposure: PiiExposure): any => {
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Date || isObjectId(value) || Buffer.isBuffer(value)) return value;
+
+  if (Array.isArray(value)) {
+    return value.map(item => maskStudentsDeep(item, context, exposure));
+  }
+
+  // Documents are serialized first so virtuals are masked too
+  if (typeof value.toJSON === 'function' && value.$__) {
+    return maskStudentsDeep(value.toJSON(), context, exposure);
+  }
+
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(value)) {
+    result[key] = maskStudentsDeep(value[key], context, exposure);
+  }
+
+  if (isStudentLike(result)) return maskStudentFields(result, context, exposure);
+  if (isHistoryLike(result)) return maskHistoryChanges(result, context, exposure);
+  return result;
+};
+
+// Mask rows of a student cursor as they stream out (exports)
+export async function* maskStudentCursor(cursor: AsyncIterable<any>, context: PiiContext, exposure: PiiExposure) {
+  for await (const student of cursor) {
+    yield maskStudentFields({ ...student }, context, exposure);
+  }
+}
+
+export const createExposure = (): PiiExposure => ({ students: new Set(), fields: new Set() });
+
+const MAX_LOGGED_STUDENTS = 1000;
+
+// Record that sensitive fields were returned unmasked. Failures are logged, never thrown.
+export const logSensitiveAccess = async (req: Request, exposure: PiiExposure) => {
+  if (exposure.students.size === 0) return;
+
+  try {
+    await SensitiveAccessLog.create({
+      user: req.user?._id,
+      role: req.user?.role,
+      method: req.method,
+      path: req.originalUrl,
+      students: Array.from(exposure.students).slice(0, MAX_LOGGED_STUDENTS),
+      studentCount: exposure.students.size,
+      fields: Array.from(exposure.fields),
+      ip: req.ip
+    });
+  } catch (error) {
+    console.error('Error logging sensitive access:', error);
+  }
+};
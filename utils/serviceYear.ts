@@ -0,0 +1,182 @@
+import mongoose, { ClientSession } from 'mongoose';
+import Job, { ACTIVE_JOB_FILTER } from '../models/Job';
+import Student from '../models/Student';
+import ServiceYear, { IServiceYear } from '../models/ServiceYear';
+import { HistoryContext } from './studentHistory';
+
+export const getOpenServiceYear = (session?: ClientSession) =>
+  ServiceYear.findOne({ status: 'open' }).session(session || null);
+
+// Look a year up by id or by name
+export const findServiceYear = (ref: string) =>
+  ServiceYear.findOne(mongoose.Types.ObjectId.isValid(ref) ? { _id: ref } : { name: ref });
+
+// Jobs counted for a class in a year. The open year counts current
+// assignments; a closed year the terms that ran in it.
+export const serviceYearJobFilter = (year: IServiceYear | null): Record<string, any> =>
+  !year || year.status === 'open'
+    ? { ...ACTIVE_JOB_FILTER }
+    : { serviceYear: year._id, status: 'ended' };
+
+// Set every student's numberOfJob from their active terms
+export const recomputeJobCounts = async (session?: ClientSession) => {
+  const counts: { _id: mongoose.Types.ObjectId; count: number }[] = await Job.aggregate([
+    { $match: ACTIVE_JOB_FILTER },
+    { $group: { _id: '$studentId', count: { $sum: 1 } } }
+  ]).session(session || null);
+
+  await Student.updateMany({ numberOfJob: { $ne: 0 } }, { $set: { numberOfJob: 0 } }, { session });
+  if (counts.length > 0) {
+    await Student.bulkWrite(
+      counts.map(item => ({
+        updateOne: { filter: { _id: item._id }, update: { $set: { numberOfJob: item.count } } }
+      })),
+      { session }
+    );
+  }
+
+  return counts.length;
+};
+
+// Terms to carry into the next year: listed jobs or students, or every term
+// matching the given classes and types. all carries everyone.
+export interface CarrySelection {
+  all?: boolean;
+  jobs?: string[];
+  students?: string[];
+  classes?: string[];
+  types?: string[];
+}
+
+const isCarried = (job: { _id: any; studentId: any; class: string; type?: string }, carry: CarrySelection) => {
+  if (carry.all) return true;
+  if (carry.jobs?.includes(job._id.toString())) return true;
+  if (carry.students?.includes((job.studentId?._id || job.studentId).toString())) return true;
+
+  const byClass = !!carry.classes?.length;
+  const byType = !!carry.types?.length;
+  if (!byClass && !byType) return false;
+  return (!byClass || carry.classes!.includes(job.class)) && (!byType || carry.types!.includes(job.type || 'member'));
+};
+
+export interface RolloverItem {
+  job: mongoose.Types.ObjectId;
+  student: mongoose.Types.ObjectId;
+  gibyGubayeId?: string;
+  class: string;
+  type?: string;
+  outcome: 'closed' | 'carried' | 'skipped';
+  reason?: string;
+}
+
+// Close the open year: end its terms, lapse pending assignments, open the
+// next year with the selected terms carried over and recount jobs per student.
+// A dry run reports the outcome without writing.
+export const rolloverServiceYear = async (
+  current: IServiceYear,
+  options: {
+    next: { name: string; startDate: Date; endDate: Date };
+    carry: CarrySelection;
+    dryRun: boolean;
+    actor?: HistoryContext['actor'];
+    session?: ClientSession;
+  }
+) => {
+  const { session } = options;
+  const closedAt = new Date();
+  const endReason = `Service year ${current.name} closed`;
+
+  const jobs = await Job.find(ACTIVE_JOB_FILTER)
+    .populate('studentId', 'gibyGubayeId isActive anonymizedAt')
+    .session(session || null);
+  const pendingRejected = await Job.countDocuments({ status: 'pending' }).session(session || null);
+
+  const items: RolloverItem[] = jobs.map(job => {
+    const student = job.studentId as any;
+    const item: RolloverItem = {
+      job: job._id as mongoose.Types.ObjectId,
+      student: student?._id || job.studentId,
+      gibyGubayeId: student?.gibyGubayeId,
+      class: job.class,
+      type: job.type,
+      outcome: 'closed'
+    };
+
+    if (isCarried(job, options.carry)) {
+      if (!student?.isActive || student.anonymizedAt) {
+        item.outcome = 'skipped';
+        item.reason = 'Student is no longer active';
+      } else {
+        item.outcome = 'carried';
+      }
+    }
+    return item;
+  });
+
+  const carried = jobs.filter((_, index) => items[index].outcome === 'carried');
+  let nextYear: IServiceYear | null = null;
+  let studentsCounted = 0;
+
+  if (!options.dryRun) {
+    await Job.updateMany(
+      { _id: { $in: jobs.map(job => job._id) } },
+      { $set: { status: 'ended', endedAt: closedAt, endReason } },
+      { session }
+    );
+    await Job.updateMany(
+      { status: 'pending' },
+      { $set: { status: 'rejected', reviewedAt: closedAt, endReason } },
+      { session }
+    );
+
+    // The current year is closed first so the next can be opened
+    current.status = 'closed';
+    current.closedAt = closedAt;
+    current.closedBy = options.actor?._id as mongoose.Types.ObjectId;
+    await current.save({ session });
+
+    nextYear = new ServiceYear({ ...options.next, status: 'open', createdBy: options.actor?._id });
+    await nextYear.save({ session });
+
+    if (carried.length > 0) {
+      await Job.insertMany(
+        carried.map(job => ({
+          studentId: (job.studentId as any)?._id || job.studentId,
+          class: job.class,
+          sub_class: job.sub_class,
+          team: job.team,
+          type: job.type,
+          background: job.background,
+          status: 'active',
+          serviceYear: nextYear!._id,
+          startDate: nextYear!.startDate,
+          carriedFrom: job._id,
+          requestedBy: options.actor?._id
+        })),
+        { session }
+      );
+    }
+
+    current.rollover = {
+      termsClosed: jobs.length,
+      termsCarried: carried.length,
+      pendingRejected,
+      nextYear: nextYear._id as mongoose.Types.ObjectId
+    };
+    await current.save({ session });
+
+    studentsCounted = await recomputeJobCounts(session);
+  }
+
+  return {
+    dryRun: options.dryRun,
+    closedYear: { _id: current._id, name: current.name },
+    nextYear: nextYear || options.next,
+    termsClosed: jobs.length,
+    termsCarried: carried.length,
+    skipped: items.filter(item => item.outcome === 'skipped').length,
+    pendingRejected,
+    studentsCounted,
+    items
+  };
+};
@@ -0,0 +1,212 @@
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { Response } from 'express';
+import { Writable } from 'stream';
+import Student from '../models/Student';
+import { getBlobStore, readBlob } from './blobStore';
+import { PDF_FONT, PDF_FONT_BOLD, registerPdfFonts } from './pdfFonts';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx', 'pdf'];
+
+// Fields fetched for rosters - photoData is never part of the cursor
+export const EXPORT_SELECT = 'gibyGubayeId firstName middleName lastName gender phone email university college department batch block dorm region zone wereda kebele church status isActive photo photoFileId photoVariants';
+
+const EXPORT_COLUMNS: { header: string; key: string; width: number }[] = [
+  { header: 'ID', key: 'gibyGubayeId', width: 16 },
+  { header: 'First Name', key: 'firstName', width: 16 },
+  { header: 'Middle Name', key: 'middleName', width: 16 },
+  { header: 'Last Name', key: 'lastName', width: 16 },
+  { header: 'Gender', key: 'gender', width: 8 },
+  { header: 'Phone', key: 'phone', width: 14 },
+  { header: 'Email', key: 'email', width: 28 },
+  { header: 'University', key: 'university', width: 20 },
+  { header: 'College', key: 'college', width: 20 },
+  { header: 'Department', key: 'department', width: 20 },
+  { header: 'Batch', key: 'batch', width: 8 },
+  { header: 'Block', key: 'block', width: 8 },
+  { header: 'Dorm', key: 'dorm', width: 8 },
+  { header: 'Region', key: 'region', width: 14 },
+  { header: 'Zone', key: 'zone', width: 14 },
+  { header: 'Wereda', key: 'wereda', width: 14 },
+  { header: 'Kebele', key: 'kebele', width: 10 },
+  { header: 'Church', key: 'church', width: 18 },
+  { header: 'Status', key: 'status', width: 10 }
+];
+
+type StudentCursor = AsyncIterable<any>;
+
+const toRow = (student: any): Record<string, string> => {
+  const row: Record<string, string> = {};
+  for (const column of EXPORT_COLUMNS) {
+    row[column.key] = column.key === 'status'
+      ? (student.status || (student.isActive ? 'active' : 'inactive'))
+      : (student[column.key] ?? '').toString();
+  }
+  return row;
+};
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+const clientGone = () => new Error('Client disconnected during export');
+
+// Stop reading the cursor once nobody is listening
+const ensureOpen = (stream: Writable) => {
+  if (stream.destroyed) {
+    throw clientGone();
+  }
+};
+
+// Respect backpressure so large rosters never pile up in memory. A client
+// that disconnects never drains, so close and error end the wait as well.
+const write = (stream: Writable, chunk: string) =>
+  new Promise<void>((resolve, reject) => {
+    if (stream.destroyed) {
+      return reject(clientGone());
+    }
+    if (stream.write(chunk)) {
+      return resolve();
+    }
+
+    const settle = (error?: Error) => {
+      stream.off('drain', onDrain);
+      stream.off('close', onClose);
+      stream.off('error', onError);
+      if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(clientGone());
+    const onError = (error: Error) => settle(error);
+
+    stream.once('drain', onDrain);
+    stream.once('close', onClose);
+    stream.once('error', onError);
+  });
+
+export const writeStudentsCsv = async (cursor: StudentCursor, res: Response) => {
+  // BOM so Excel opens Amharic names as UTF-8
+  await write(res, '\uFEFF' + EXPORT_COLUMNS.map(column => escapeCsv(column.header)).join(',') + '\r\n');
+
+  for await (const student of cursor) {
+    const row = toRow(student);
+    await write(res, EXPORT_COLUMNS.map(column => escapeCsv(row[column.key])).join(',') + '\r\n');
+  }
+
+  res.end();
+};
+
+export const writeStudentsXlsx = async (cursor: StudentCursor, res: Response) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useStyles: true });
+  const worksheet = workbook.addWorksheet('Students');
+  worksheet.columns = EXPORT_COLUMNS;
+  worksheet.getRow(1).font = { bold: true };
+
+  for await (const student of cursor) {
+    ensureOpen(res);
+    worksheet.addRow(toRow(student)).commit();
+  }
+
+  worksheet.commit();
+  await workbook.commit();
+};
+
+const PHOTO_SIZE = 36;
+const ROW_HEIGHT = 44;
+
+// pdfkit can only embed JPEG and PNG images
+const isEmbeddableImage = (contentType?: string) =>
+  !!contentType && /jpe?g|png/.test(contentType);
+
+// Load a student photo that pdfkit can embed. Uses the JPEG variant of the
+// requested size when it exists, then the original, then the legacy buffer.
+export const loadStudentPhoto = async (
+  student: any,
+  size: 'thumb' | 'medium' = 'thumb'
+): Promise<Buffer | null> => {
+  const fileId = student.photoVariants?.[size]?.jpeg || student.photoFileId;
+  if (fileId) {
+    const info = await getBlobStore().stat(fileId);
+    return info && isEmbeddableImage(info.contentType) ? readBlob(info.id) : null;
+  }
+
+  // Not migrated to the blob store yet
+  const legacy = await Student.findById(student._id).select('+photoData.data').lean();
+  const photoData = legacy?.photoData;
+  return photoData?.data && isEmbeddableImage(photoData.contentType) ? Buffer.from(photoData.data as any) : null;
+};
+
+export const writeStudentsPdf = async (
+  cursor: StudentCursor,
+  res: Response,
+  title: string,
+  subtitle: string
+) => {
+  const doc = registerPdfFonts(new PDFDocument({ size: 'A4', margin: 36 }));
+  doc.pipe(res);
+
+  let pageNumber = 0;
+  let rowNumber = 0;
+
+  const startPage = () => {
+    if (pageNumber > 0) {
+      doc.addPage();
+    }
+    pageNumber += 1;
+
+    doc.fontSize(14).font(PDF_FONT_BOLD).text(title, { align: 'center' });
+    doc.fontSize(9).font(PDF_FONT).text(subtitle, { align: 'center' });
+    doc.moveDown(0.5);
+    doc.fontSize(8).text(`Page ${pageNumber}`, { align: 'right' });
+    doc.moveDown(0.5);
+  };
+
+  startPage();
+
+  for await (const student of cursor) {
+    ensureOpen(res);
+    if (doc.y + ROW_HEIGHT > doc.page.height - doc.page.margins.bottom) {
+      startPage();
+    }
+
+    rowNumber += 1;
+    const top = doc.y;
+    const left = doc.page.margins.left;
+
+    // Load one photo at a time instead of holding every buffer in memory
+    const photo = await loadStudentPhoto(student);
+
+    if (photo) {
+      try {
+        doc.image(photo, left + 24, top, { fit: [PHOTO_SIZE, PHOTO_SIZE] });
+      } catch {
+        doc.rect(left + 24, top, PHOTO_SIZE, PHOTO_SIZE).stroke();
+      }
+    } else {
+      doc.rect(left + 24, top, PHOTO_SIZE, PHOTO_SIZE).stroke();
+    }
+
+    const name = [student.firstName, student.middleName, student.lastName].filter(Boolean).join(' ');
+    const textLeft = left + 24 + PHOTO_SIZE + 10;
+
+    doc.fontSize(9).font(PDF_FONT).text(`${rowNumber}.`, left, top + 2, { width: 22 });
+    doc.font(PDF_FONT_BOLD).text(`${name} (${student.gibyGubayeId})`, textLeft, top + 2);
+    doc.font(PDF_FONT).fontSize(8)
+      .text(`${student.department || '-'} | Batch ${student.batch || '-'} | ${student.gender || '-'} | ${student.phone || '-'}`, textLeft)
+      .text(`Block ${student.block || '-'}, Dorm ${student.dorm || '-'} | ${student.region || '-'} | ${student.church || '-'}`, textLeft);
+
+    doc.y = top + ROW_HEIGHT;
+    doc.x = left;
+  }
+
+  if (rowNumber === 0) {
+    doc.fontSize(10).text('No students match the selected filters.', { align: 'center' });
+  }
+
+  doc.end();
+};
@@ -0,0 +1,168 @@
+import mongoose, { ClientSession } from 'mongoose';
+import StudentHistory, { IFieldChange, StudentHistoryAction } from '../models/StudentHistory';
+
+// Derived or binary fields that are not worth a history entry.
+// Catalog and area IDs follow the placement and address text, which is tracked instead.
+const IGNORED_FIELDS = new Set([
+  '_id',
+  '__v',
+  'id',
+  'age',
+  'dateOfBirthEthiopian',
+  'batchEthiopian',
+  'createdAt',
+  'updatedAt',
+  'photoData',
+  'photoFileId',
+  'photoVariants',
+  'universityId',
+  'collegeId',
+  'departmentId',
+  'regionId',
+  'zoneId',
+  'weredaId',
+  'kebeleId',
+  'statusHistory',
+  'numberOfJob',
+  'anonymizedAt',
+  'anonymizationReason',
+  'completedCourses'
+]);
+
+// Fields that cannot be reverted from history because another workflow owns them
+export const NON_REVERTIBLE_FIELDS = [
+  'gibyGubayeId',
+  'photo',
+  'status',
+  'isActive',
+  'statusEffectiveDate',
+  'statusReason'
+];
+
+export interface HistoryContext {
+  action: StudentHistoryAction;
+  actor?: { _id?: any; name?: string };
+  session?: ClientSession;
+  revertOf?: mongoose.Types.ObjectId;
+  note?: string;
+}
+
+// Plain JSON-safe representation used both for comparison and for storage
+const normalize = (value: any): any => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof mongoose.Types.ObjectId) return value.toString();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (typeof value === 'object') {
+    if (typeof value.toObject === 'function') {
+      return normalize(value.toObject({ depopulate: true }));
+    }
+    const result: Record<string, any> = {};
+    for (const key of Object.keys(value).sort()) {
+      result[key] = normalize(value[key]);
+    }
+    return result;
+  }
+  return value;
+};
+
+const toPlain = (student: any) =>
+  student && typeof student.toObject === 'function'
+    ? student.toObject({ depopulate: true, virtuals: false })
+    : student || {};
+
+// Field-level differences between two versions of a student
+export const diffStudent = (before: any, after: any): IFieldChange[] => {
+  const previous = toPlain(before);
+  const next = toPlain(after);
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const changes: IFieldChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const beforeValue = normalize(previous[field]);
+    const afterValue = normalize(next[field]);
+
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  }
+
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+};
+
+export const currentFieldValue = (student: any, field: string) => normalize(toPlain(student)[field]);
+
+const nextVersions = async (studentIds: mongoose.Types.ObjectId[], session?: ClientSession) => {
+  const latest = await StudentHistory.aggregate([
+    { $match: { student: { $in: studentIds } } },
+    { $group: { _id: '$student', version: { $max: '$version' } } }
+  ]).session(session || null);
+
+  return new Map<string, number>(latest.map(entry => [entry._id.toString(), entry.version + 1]));
+};
+
+// Store one history entry. Entries without changes are skipped, except creations
+// and anonymizations (which deliberately keep no values).
+export const recordStudentChange = async (
+  studentId: mongoose.Types.ObjectId,
+  changes: IFieldChange[],
+  context: HistoryContext
+) => {
+  if (changes.length === 0 && context.action !== 'create' && context.action !== 'anonymize') {
+    return null;
+  }
+
+  // Two concurrent edits can race for the same version; the unique index
+  // rejects the loser, which then retries with the next number. Inside a
+  // transaction the duplicate key has already aborted it, so the error is
+  // left to the caller.
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const versions = await nextVersions([studentId], context.session);
+
+    try {
+      const [entry] = await StudentHistory.create([{
+        student: studentId,
+        version: versions.get(studentId.toString()) || 1,
+        action: context.action,
+        changes,
+        changedBy: context.actor?._id,
+        changedByName: context.actor?.name,
+        revertOf: context.revertOf,
+        note: context.note
+      }], { session: context.session });
+
+      return entry;
+    } catch (error: any) {
+      if (error.code !== 11000 || context.session || attempt === 2) {
+        throw error;
+      }
+    }
+  }
+
+  return null;
+};
+
+// Store the same kind of change for many students at once (imports, batch graduation)
+export const recordBulkStudentChanges = async (
+  items: { student: mongoose.Types.ObjectId; changes: IFieldChange[] }[],
+  context: HistoryContext
+) => {
+  if (items.length === 0) return 0;
+
+  const versions = await nextVersions(items.map(item => item.student), context.session);
+
+  const entries = items.map(item => ({
+    student: item.student,
+    version: versions.get(item.student.toString()) || 1,
+    action: context.action,
+    changes: item.changes,
+    changedBy: context.actor?._id,
+    changedByName: context.actor?.name,
+    note: context.note
+  }));
+
+  await StudentHistory.insertMany(entries, { session: context.session });
+  return entries.length;
+};
@@ -0,0 +1,239 @@
+import ExcelJS from 'exceljs';
+import { Readable } from 'stream';
+import Student from '../models/Student';
+import { CalendarType, ethiopianBatchToGregorian, parseEthiopianDate } from './ethiopianCalendar';
+import { addressFields, createAreaLookup, describeUnresolved, resolveAddress } from './adminGeography';
+import { createUnitLookup, describeUnresolvedPlacement, placementFields, resolvePlacement } from './academicCatalog';
+
+export interface ImportRowReport {
+  row: number;
+  valid: boolean;
+  errors: string[];
+  data: Record<string, any>;
+}
+
+// Spreadsheet headers are matched case-insensitively with spaces, dashes and
+// underscores removed, so "First Name", "first_name" and "firstName" all map
+// to the same Student field.
+const HEADER_MAP: Record<string, string> = {
+  firstname: 'firstName',
+  middlename: 'middleName',
+  fathername: 'middleName',
+  lastname: 'lastName',
+  grandfathername: 'lastName',
+  mothername: 'motherName',
+  phone: 'phone',
+  phonenumber: 'phone',
+  email: 'email',
+  gender: 'gender',
+  sex: 'gender',
+  block: 'block',
+  dorm: 'dorm',
+  university: 'university',
+  college: 'college',
+  department: 'department',
+  batch: 'batch',
+  region: 'region',
+  zone: 'zone',
+  wereda: 'wereda',
+  woreda: 'wereda',
+  kebele: 'kebele',
+  church: 'church',
+  authority: 'authority',
+  job: 'job',
+  mothertongue: 'motherTongue',
+  additionallanguages: 'additionalLanguages',
+  languages: 'additionalLanguages',
+  attendscourse: 'attendsCourse',
+  coursename: 'courseName',
+  coursechurch: 'courseChurch',
+  dateofbirth: 'dateOfBirth',
+  dob: 'dateOfBirth',
+  birthdate: 'dateOfBirth',
+  emergencycontact: 'emergencyContact'
+};
+
+const normalizeHeader = (header: string) => header.replace(/^\uFEFF/, '').toLowerCase().replace(/[\s_-]+/g, '');
+
+// ExcelJS returns rich text, hyperlinks and formulas as objects
+const cellToString = (value: ExcelJS.CellValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('').trim();
+    if ('text' in value) return String(value.text).trim();
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue);
+    return '';
+  }
+  return String(value).trim();
+};
+
+// Spreadsheet apps drop the leading zero of phone numbers stored as numbers
+const normalizePhone = (phone: string) => (/^9\d{8}$/.test(phone) ? `0${phone}` : phone);
+
+const toBoolean = (value: string) => ['true', 'yes', 'y', '1'].includes(value.toLowerCase());
+
+export const isSpreadsheetCsv = (file: Express.Multer.File) =>
+  file.mimetype === 'text/csv' || file.originalname.toLowerCase().endsWith('.csv');
+
+// Read the first worksheet into plain objects keyed by Student field names
+export const parseStudentSpreadsheet = async (file: Express.Multer.File) => {
+  const workbook = new ExcelJS.Workbook();
+
+  if (isSpreadsheetCsv(file)) {
+    await workbook.csv.read(Readable.from(file.buffer));
+  } else {
+    await workbook.xlsx.read(Readable.from(file.buffer));
+  }
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    throw new Error('The uploaded file does not contain any worksheet');
+  }
+
+  const columns: Record<number, string> = {};
+  const unknownHeaders: string[] = [];
+
+  worksheet.getRow(1).eachCell((cell, colNumber) => {
+    const header = cellToString(cell.value);
+    const field = HEADER_MAP[normalizeHeader(header)];
+    if (field) {
+      columns[colNumber] = field;
+    } else if (header) {
+      unknownHeaders.push(header);
+    }
+  });
+
+  const rows: { row: number; values: Record<string, string> }[] = [];
+
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const values: Record<string, string> = {};
+    row.eachCell((cell, colNumber) => {
+      const field = columns[colNumber];
+      if (field) {
+        values[field] = cellToString(cell.value);
+      }
+    });
+
+    if (Object.values(values).some(Boolean)) {
+      rows.push({ row: rowNumber, values });
+    }
+  });
+
+  return { rows, unknownHeaders };
+};
+
+// Convert raw cell strings into the same shape createStudent builds
+export const buildStudentData = (values: Record<string, string>, calendar: CalendarType = 'gregorian') => {
+  const ethiopian = calendar === 'ethiopian';
+  const attendsCourse = values.attendsCourse ? toBoolean(values.attendsCourse) : false;
+
+  return {
+    firstName: values.firstName,
+    middleName: values.middleName || undefined,
+    lastName: values.lastName,
+    motherName: values.motherName,
+    phone: values.phone ? normalizePhone(values.phone) : values.phone,
+    email: values.email ? values.email.toLowerCase() : values.email,
+    gender: values.gender ? values.gender.toLowerCase() : values.gender,
+    block: values.block,
+    dorm: values.dorm,
+    university: values.university,
+    college: values.college,
+    department: values.department,
+    batch: ethiopian && values.batch ? ethiopianBatchToGregorian(values.batch) : values.batch,
+    region: values.region,
+    zone: values.zone,
+    wereda: values.wereda,
+    kebele: values.kebele,
+    church: values.church,
+    authority: values.authority,
+    job: values.job,
+    motherTongue: values.motherTongue,
+    additionalLanguages: values.additionalLanguages
+      ? values.additionalLanguages.split(',').map(lang => lang.trim()).filter(Boolean)
+      : [],
+    attendsCourse,
+    courseName: attendsCourse ? values.courseName : undefined,
+    courseChurch: attendsCourse ? values.courseChurch : undefined,
+    numberOfJob: 0,
+    dateOfBirth: values.dateOfBirth
+      ? (ethiopian ? parseEthiopianDate(values.dateOfBirth) || new Date(NaN) : new Date(values.dateOfBirth))
+      : undefined,
+    emergencyContact: values.emergencyContact ? normalizePhone(values.emergencyContact) : values.emergencyContact,
+    isActive: true
+  };
+};
+
+// Validate every row against the Student schema and the unique phone/email indexes
+export const validateStudentRows = async (
+  rows: { row: number; values: Record<string, string> }[],
+  calendar: CalendarType = 'gregorian'
+) => {
+  const reports: ImportRowReport[] = rows.map(({ row, values }) => {
+    const data = buildStudentData(values, calendar);
+    // gibyGubayeId is only assigned on commit, so a placeholder keeps the required check quiet
+    const validationError = new Student({ ...data, gibyGubayeId: 'PENDING' }).validateSync();
+    const errors = validationError
+      ? Object.values(validationError.errors).map((err: any) => err.message)
+      : [];
+
+    return { row, valid: errors.length === 0, errors, data };
+  });
+
+  const phones = reports.map(report => report.data.phone).filter(Boolean);
+  const emails = reports.map(report => report.data.email).filter(Boolean);
+
+  const existing = await Student.find({
+    $or: [{ phone: { $in: phones } }, { email: { $in: emails } }]
+  }).select('phone email');
+
+  // Only whether a value is taken is reported, never whose it is
+  const existingPhones = new Set(existing.map(student => student.phone));
+  const existingEmails = new Set(existing.map(student => student.email));
+  const seenPhones = new Map<string, number>();
+  const seenEmails = new Map<string, number>();
+  const lookup = createAreaLookup();
+  const unitLookup = createUnitLookup();
+
+  for (const report of reports) {
+    const { phone, email } = report.data;
+
+    if (phone && existingPhones.has(phone)) {
+      report.errors.push(`Phone ${phone} is already registered to another member`);
+    } else if (phone && seenPhones.has(phone)) {
+      report.errors.push(`Phone ${phone} is duplicated on row ${seenPhones.get(phone)}`);
+    }
+
+    if (email && existingEmails.has(email)) {
+      report.errors.push(`Email ${email} is already registered to another member`);
+    } else if (email && seenEmails.has(email)) {
+      report.errors.push(`Email ${email} is duplicated on row ${seenEmails.get(email)}`);
+    }
+
+    // Placements and addresses are checked against the catalog and reference
+    // geography and stored with canonical names
+    const placement = await resolvePlacement(report.data, unitLookup);
+    if (placement.resolved) {
+      Object.assign(report.data, placementFields(placement));
+    } else {
+      report.errors.push(...describeUnresolvedPlacement(placement));
+    }
+
+    const address = await resolveAddress(report.data, lookup);
+    if (address.resolved) {
+      Object.assign(report.data, addressFields(address));
+    } else {
+      report.errors.push(...describeUnresolved(address));
+    }
+
+    if (phone && !seenPhones.has(phone)) seenPhones.set(phone, report.row);
+    if (email && !seenEmails.has(email)) seenEmails.set(email, report.row);
+
+    report.valid = report.errors.length === 0;
+  }
+
+  return reports;
+};
@@ -0,0 +1,181 @@
+import mongoose, { ClientSession } from 'mongoose';
+import Student, { IStudent, STUDENT_STATUSES, StudentStatus } from '../models/Student';
+import Job, { ACTIVE_JOB_FILTER } from '../models/Job';
+import Family, { FamilyRole, IFamily, IFamilyEndedRole } from '../models/Family';
+import { familyMembershipQuery } from './studentMerge';
+import { HistoryContext, recordBulkStudentChanges } from './studentHistory';
+
+// Leaving these states ends every job assignment and family role
+export const TERMINAL_STATUSES: StudentStatus[] = ['graduated', 'transferred', 'deceased'];
+
+export interface StatusChangeInput {
+  status: StudentStatus;
+  effectiveDate?: Date;
+  reason?: string;
+  changedBy?: mongoose.Types.ObjectId;
+}
+
+export const isStudentStatus = (value: unknown): value is StudentStatus =>
+  STUDENT_STATUSES.includes(value as StudentStatus);
+
+// Apply a status change to a loaded student and record it in the history
+export const applyStatusChange = (student: IStudent, change: StatusChangeInput) => {
+  const effectiveDate = change.effectiveDate || new Date();
+
+  student.status = change.status;
+  student.isActive = change.status === 'active';
+  student.statusEffectiveDate = effectiveDate;
+  student.statusReason = change.reason;
+  student.statusHistory.push({
+    status: change.status,
+    effectiveDate,
+    reason: change.reason,
+    changedBy: change.changedBy,
+    changedAt: new Date()
+  });
+};
+
+// Roles each of the given students holds in a family
+const collectFamilyRoles = (family: IFamily, studentIds: Set<string>) => {
+  const roles: { student: mongoose.Types.ObjectId; role: FamilyRole }[] = [];
+  const add = (id: mongoose.Types.ObjectId | undefined, role: FamilyRole) => {
+    if (id && studentIds.has(id.toString())) {
+      roles.push({ student: id, role });
+    }
+  };
+
+  add(family.familyLeader, 'familyLeader');
+  add(family.familyCoLeader, 'familyCoLeader');
+  add(family.familySecretary, 'familySecretary');
+
+  for (const grandParent of family.grandParents) {
+    add(grandParent.grandFather, 'grandFather');
+    add(grandParent.grandMother, 'grandMother');
+
+    for (const member of grandParent.families) {
+      add(member.father?.student, 'father');
+      add(member.mother?.student, 'mother');
+      for (const child of member.children) {
+        add(child.student, 'child');
+      }
+    }
+  }
+
+  return roles;
+};
+
+// End current job assignments and mark family roles as historical for the
+// given students. The family tree itself is left intact for the record.
+export const endStudentAssignments = async (
+  studentIds: mongoose.Types.ObjectId[],
+  options: { endedAt?: Date; reason?: string; session?: ClientSession } = {}
+) => {
+  const endedAt = options.endedAt || new Date();
+  const session = options.session;
+
+  const jobsResult = await Job.updateMany(
+    { studentId: { $in: studentIds }, ...ACTIVE_JOB_FILTER },
+    { $set: { status: 'ended', endedAt, endReason: options.reason } },
+    { session }
+  );
+
+  // Assignments still awaiting approval lapse with the rest
+  await Job.updateMany(
+    { studentId: { $in: studentIds }, status: 'pending' },
+    { $set: { status: 'rejected', reviewedAt: endedAt, endReason: options.reason } },
+    { session }
+  );
+
+  await Student.updateMany(
+    { _id: { $in: studentIds } },
+    { $set: { numberOfJob: 0 } },
+    { session }
+  );
+
+  const idSet = new Set(studentIds.map(id => id.toString()));
+  const families = await Family.find({ $or: familyMembershipQuery({ $in: studentIds }) }).session(session || null);
+  let familyRolesEnded = 0;
+
+  for (const family of families) {
+    const alreadyEnded = new Set(
+      family.endedRoles.map(ended => `${ended.student}:${ended.role}`)
+    );
+
+    const newlyEnded: IFamilyEndedRole[] = collectFamilyRoles(family, idSet)
+      .filter(({ student, role }) => !alreadyEnded.has(`${student}:${role}`))
+      .map(({ student, role }) => ({ student, role, endedAt, reason: options.reason }));
+
+    if (newlyEnded.length > 0) {
+      await Family.updateOne(
+        { _id: family._id },
+        { $push: { endedRoles: { $each: newlyEnded } } },
+        { session }
+      );
+      familyRolesEnded += newlyEnded.length;
+    }
+  }
+
+  return {
+    jobsEnded: jobsResult.modifiedCount,
+    familyRolesEnded,
+    familiesAffected: families.length
+  };
+};
+
+// Graduate every active student of a batch in one transaction
+export const graduateBatch = async (
+  batch: string,
+  options: { effectiveDate?: Date; reason?: string; actor?: HistoryContext['actor'] },
+  session: ClientSession
+) => {
+  const effectiveDate = options.effectiveDate || new Date();
+  const reason = options.reason || `Batch ${batch} graduated`;
+
+  const students = await Student.find({ batch, isActive: true })
+    .select('_id gibyGubayeId status statusEffectiveDate statusReason')
+    .session(session);
+  const studentIds = students.map(student => student._id as mongoose.Types.ObjectId);
+
+  if (studentIds.length === 0) {
+    return { graduated: 0, jobsEnded: 0, familyRolesEnded: 0, familiesAffected: 0 };
+  }
+
+  await Student.updateMany(
+    { _id: { $in: studentIds } },
+    {
+      $set: {
+        status: 'graduated',
+        isActive: false,
+        statusEffectiveDate: effectiveDate,
+        statusReason: reason
+      },
+      $push: {
+        statusHistory: {
+          status: 'graduated',
+          effectiveDate,
+          reason,
+          changedBy: options.actor?._id,
+          changedAt: new Date()
+        }
+      }
+    },
+    { session }
+  );
+
+  await recordBulkStudentChanges(
+    students.map(student => ({
+      student: student._id as mongoose.Types.ObjectId,
+      changes: [
+        { field: 'isActive', before: true, after: false },
+        { field: 'status', before: student.status, after: 'graduated' },
+        { field: 'statusEffectiveDate', before: student.statusEffectiveDate?.toISOString() || null, after: effectiveDate.toISOString() },
+        { field: 'statusReason', before: student.statusReason || null, after: reason }
+      ]
+    })),
+    { action: 'status', actor: options.actor, session, note: `Batch ${batch} graduation` }
+  );
+
+  const ended = await endStudentAssignments(studentIds, { endedAt: effectiveDate, reason, session });
+
+  return { graduated: studentIds.length, ...ended };
+};
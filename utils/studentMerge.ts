@@ -0,0 +1,405 @@
+import mongoose, { ClientSession } from 'mongoose';
+import Student, { IStudent } from '../models/Student';
+import Job, { ACTIVE_JOB_FILTER, OPEN_JOB_FILTER } from '../models/Job';
+import User from '../models/User';
+import Family from '../models/Family';
+import Agenda from '../models/Agenda';
+import ProfileUpdateRequest from '../models/ProfileUpdateRequest';
+import Attendance from '../models/Attendance';
+import AttendanceSession from '../models/AttendanceSession';
+import Enrollment from '../models/Enrollment';
+import DepartmentApplication from '../models/DepartmentApplication';
+import Team from '../models/Team';
+import { normalizeName, similarity } from './fuzzyMatch';
+import { applyCourseFields, findCourseEnrollments } from './courses';
+import { HistoryContext, diffStudent, recordStudentChange } from './studentHistory';
+
+type CandidateStudent = {
+  _id: mongoose.Types.ObjectId;
+  gibyGubayeId: string;
+  firstName: string;
+  middleName?: string;
+  lastName: string;
+  motherName: string;
+  dateOfBirth?: Date;
+  phone: string;
+  email: string;
+  batch: string;
+  department: string;
+};
+
+export interface DuplicateCandidate {
+  score: number;
+  students: CandidateStudent[];
+  fieldScores: Record<string, number>;
+}
+
+const FIELD_WEIGHTS: Record<string, number> = {
+  firstName: 0.3,
+  middleName: 0.2,
+  lastName: 0.2,
+  motherName: 0.2,
+  dateOfBirth: 0.1
+};
+
+const dayKey = (date?: Date) => (date ? new Date(date).toISOString().slice(0, 10) : '');
+
+const compareDates = (a?: Date, b?: Date) => {
+  if (!a || !b) return 0;
+  if (dayKey(a) === dayKey(b)) return 1;
+  return new Date(a).getFullYear() === new Date(b).getFullYear() ? 0.5 : 0;
+};
+
+// Weighted name/birth-date similarity; middleName is skipped when either side lacks it
+export const scoreStudentPair = (a: CandidateStudent, b: CandidateStudent) => {
+  const fieldScores: Record<string, number> = {
+    firstName: similarity(a.firstName, b.firstName),
+    lastName: similarity(a.lastName, b.lastName),
+    motherName: similarity(a.motherName, b.motherName),
+    dateOfBirth: compareDates(a.dateOfBirth, b.dateOfBirth)
+  };
+
+  if (a.middleName && b.middleName) {
+    fieldScores.middleName = similarity(a.middleName, b.middleName);
+  }
+
+  let totalWeight = 0;
+  let weighted = 0;
+  for (const [field, score] of Object.entries(fieldScores)) {
+    totalWeight += FIELD_WEIGHTS[field];
+    weighted += FIELD_WEIGHTS[field] * score;
+  }
+
+  return { score: weighted / totalWeight, fieldScores };
+};
+
+// Compare students that share a birth date or the start of their first name.
+// Blocking keeps the comparison count manageable without missing common typos.
+export const findDuplicateCandidates = async (filter: any, threshold: number) => {
+  const students = await Student.find(filter)
+    .select('gibyGubayeId firstName middleName lastName motherName dateOfBirth phone email batch department')
+    .lean<CandidateStudent[]>();
+
+  const blocks = new Map<string, CandidateStudent[]>();
+  // A missing value is no evidence of a match; one shared empty block would
+  // compare every such student with every other
+  const addToBlock = (prefix: string, value: string, student: CandidateStudent) => {
+    if (!value) return;
+    const key = `${prefix}:${value}`;
+    const block = blocks.get(key) || [];
+    block.push(student);
+    blocks.set(key, block);
+  };
+
+  for (const student of students) {
+    addToBlock('dob', dayKey(student.dateOfBirth), student);
+    addToBlock('name', normalizeName(student.firstName).slice(0, 3), student);
+  }
+
+  const seenPairs = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+
+  for (const block of blocks.values()) {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = [block[i], block[j]].sort((x, y) => x._id.toString().localeCompare(y._id.toString()));
+        const pairKey = `${a._id}:${b._id}`;
+        if (seenPairs.has(pairKey)) continue;
+        seenPairs.add(pairKey);
+
+        const { score, fieldScores } = scoreStudentPair(a, b);
+        if (score >= threshold) {
+          candidates.push({
+            score: Math.round(score * 1000) / 1000,
+            students: [a, b],
+            fieldScores
+          });
+        }
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.score - a.score);
+};
+
+// $or clauses matching any family slot; `match` is an id or an operator such as { $in: [...] }
+export const familyMembershipQuery = (match: mongoose.Types.ObjectId | Record<string, any>) => [
+  { familyLeader: match },
+  { familyCoLeader: match },
+  { familySecretary: match },
+  { 'grandParents.grandFather': match },
+  { 'grandParents.grandMother': match },
+  { 'grandParents.families.father.student': match },
+  { 'grandParents.families.mother.student': match },
+  { 'grandParents.families.children.student': match }
+];
+
+// Optional fields copied onto the survivor when it has no value of its own
+const FILLABLE_FIELDS = ['middleName', 'courseName', 'courseChurch'] as const;
+
+const hasPhoto = (student: IStudent) => !!student.photoFileId || !!student.photoData?.data;
+
+// Re-point every reference from the duplicate to the survivor and delete the duplicate.
+// Must run inside a transaction; the caller owns the session. Returns null when
+// either student is missing. The duplicate's photo files, when the survivor keeps
+// its own, are returned so the caller removes them after the commit.
+export const mergeStudentRecords = async (
+  survivorId: string,
+  duplicateId: string,
+  session: ClientSession,
+  actor?: HistoryContext['actor']
+) => {
+  // Legacy embedded photos are loaded so they can be carried over
+  const survivor = await Student.findById(survivorId).select('+photoData.data').session(session);
+  const duplicate = await Student.findById(duplicateId).select('+photoData.data').session(session);
+
+  if (!survivor || !duplicate) {
+    return null;
+  }
+
+  const survivorBefore = survivor.toObject();
+  const survivorObjectId = survivor._id;
+  const duplicateObjectId = duplicate._id;
+  const warnings: string[] = [];
+
+  // Jobs - the survivor keeps its own assignment when both are active or pending in
+  // the same class. Ended and rejected assignments are history and always move.
+  const survivorClasses = new Set(
+    (await Job.find({ studentId: survivorObjectId, ...OPEN_JOB_FILTER }).session(session).select('class'))
+      .map(job => job.class)
+  );
+  const duplicateJobs = await Job.find({ studentId: duplicateObjectId }).session(session);
+  let jobsMoved = 0;
+  let jobsRemoved = 0;
+
+  for (const job of duplicateJobs) {
+    if (!['ended', 'rejected'].includes(job.status) && survivorClasses.has(job.class)) {
+      await Job.deleteOne({ _id: job._id }).session(session);
+      jobsRemoved++;
+      warnings.push(`Dropped duplicate ${job.class} assignment already held by the survivor`);
+    } else {
+      job.studentId = survivorObjectId;
+      await job.save({ session });
+      jobsMoved++;
+    }
+  }
+
+  // Users
+  const usersResult = await User.updateMany(
+    { studentId: duplicateObjectId },
+    { $set: { studentId: survivorObjectId } },
+    { session }
+  );
+
+  // Family leader slots, grand parents, parents and children
+  const familiesWithBoth = await Family.countDocuments({
+    $and: [
+      { $or: familyMembershipQuery(survivorObjectId) },
+      { $or: familyMembershipQuery(duplicateObjectId) }
+    ]
+  }).session(session);
+
+  if (familiesWithBoth > 0) {
+    warnings.push(`${familiesWithBoth} family record(s) listed both students and now list the survivor twice`);
+  }
+
+  let familySlotsUpdated = 0;
+  for (const field of ['familyLeader', 'familyCoLeader', 'familySecretary']) {
+    const result = await Family.updateMany(
+      { [field]: duplicateObjectId },
+      { $set: { [field]: survivorObjectId } },
+      { session }
+    );
+    familySlotsUpdated += result.modifiedCount;
+  }
+
+  const nestedUpdates: { path: string; set: string; arrayFilters: any[] }[] = [
+    {
+      path: 'grandParents.grandFather',
+      set: 'grandParents.$[gp].grandFather',
+      arrayFilters: [{ 'gp.grandFather': duplicateObjectId }]
+    },
+    {
+      path: 'grandParents.grandMother',
+      set: 'grandParents.$[gp].grandMother',
+      arrayFilters: [{ 'gp.grandMother': duplicateObjectId }]
+    },
+    {
+      path: 'grandParents.families.father.student',
+      set: 'grandParents.$[].families.$[fam].father.student',
+      arrayFilters: [{ 'fam.father.student': duplicateObjectId }]
+    },
+    {
+      path: 'grandParents.families.mother.student',
+      set: 'grandParents.$[].families.$[fam].mother.student',
+      arrayFilters: [{ 'fam.mother.student': duplicateObjectId }]
+    },
+    {
+      path: 'grandParents.families.children.student',
+      set: 'grandParents.$[].families.$[].children.$[child].student',
+      arrayFilters: [{ 'child.student': duplicateObjectId }]
+    },
+    {
+      path: 'endedRoles.student',
+      set: 'endedRoles.$[role].student',
+      arrayFilters: [{ 'role.student': duplicateObjectId }]
+    }
+  ];
+
+  for (const update of nestedUpdates) {
+    const result = await Family.updateMany(
+      { [update.path]: duplicateObjectId },
+      { $set: { [update.set]: survivorObjectId } },
+      { session, arrayFilters: update.arrayFilters }
+    );
+    familySlotsUpdated += result.modifiedCount;
+  }
+
+  // Agenda contributors - add the survivor first, then pull the duplicate
+  let agendasUpdated = 0;
+  for (const field of ['draftContributors', 'meetingContributors']) {
+    const result = await Agenda.updateMany(
+      { [field]: duplicateObjectId },
+      { $addToSet: { [field]: survivorObjectId } },
+      { session }
+    );
+    await Agenda.updateMany(
+      { [field]: duplicateObjectId },
+      { $pull: { [field]: duplicateObjectId } },
+      { session }
+    );
+    agendasUpdated += result.matchedCount;
+  }
+
+  // Self-service profile requests
+  const profileRequestsResult = await ProfileUpdateRequest.updateMany(
+    { student: duplicateObjectId },
+    { $set: { student: survivorObjectId } },
+    { session }
+  );
+
+  // Attendance - the survivor's own record wins when both attended a session
+  const survivorSessions = await Attendance.distinct('session', { student: survivorObjectId }).session(session);
+  const attendanceRemoved = await Attendance.deleteMany(
+    { student: duplicateObjectId, session: { $in: survivorSessions } },
+    { session }
+  );
+  const attendanceResult = await Attendance.updateMany(
+    { student: duplicateObjectId },
+    { $set: { student: survivorObjectId } },
+    { session }
+  );
+  await AttendanceSession.updateMany(
+    { expectedStudents: duplicateObjectId },
+    { $addToSet: { expectedStudents: survivorObjectId } },
+    { session }
+  );
+  await AttendanceSession.updateMany(
+    { expectedStudents: duplicateObjectId },
+    { $pull: { expectedStudents: duplicateObjectId } },
+    { session }
+  );
+
+  // Course enrollments - the survivor keeps its own when both are in the same cohort
+  const survivorCohorts = await Enrollment.distinct('cohort', { student: survivorObjectId }).session(session);
+  const enrollmentsRemoved = await Enrollment.deleteMany(
+    { student: duplicateObjectId, cohort: { $in: survivorCohorts } },
+    { session }
+  );
+  const enrollmentsResult = await Enrollment.updateMany(
+    { student: duplicateObjectId },
+    { $set: { student: survivorObjectId } },
+    { session }
+  );
+
+  // Department applications - a duplicate pending application to a class the
+  // survivor already applied to is withdrawn
+  const survivorApplications = await DepartmentApplication.distinct('class', {
+    student: survivorObjectId,
+    status: 'pending'
+  }).session(session);
+  await DepartmentApplication.updateMany(
+    { student: duplicateObjectId, status: 'pending', class: { $in: survivorApplications } },
+    { $set: { status: 'withdrawn', reviewNote: 'Merged into another record' } },
+    { session }
+  );
+  const applicationsResult = await DepartmentApplication.updateMany(
+    { student: duplicateObjectId },
+    { $set: { student: survivorObjectId } },
+    { session }
+  );
+
+  // Teams led by the duplicate
+  const teamsResult = await Team.updateMany(
+    { lead: duplicateObjectId },
+    { $set: { lead: survivorObjectId } },
+    { session }
+  );
+
+  // Fill gaps on the survivor, then recompute its job count
+  for (const field of FILLABLE_FIELDS) {
+    if (!survivor.get(field) && duplicate.get(field)) {
+      survivor.set(field, duplicate.get(field));
+    }
+  }
+
+  const carryPhoto = !hasPhoto(survivor) && hasPhoto(duplicate);
+  if (carryPhoto) {
+    survivor.photo = duplicate.photo;
+    survivor.photoFileId = duplicate.photoFileId;
+    survivor.photoVariants = duplicate.photoVariants;
+    survivor.photoData = duplicate.photoData;
+  }
+  const photo = carryPhoto
+    ? { fileId: undefined, variants: undefined }
+    : { fileId: duplicate.photoFileId, variants: duplicate.photoVariants };
+
+  survivor.additionalLanguages = Array.from(
+    new Set([...(survivor.additionalLanguages || []), ...(duplicate.additionalLanguages || [])])
+  );
+
+  survivor.numberOfJob = await Job.countDocuments({ studentId: survivorObjectId, ...ACTIVE_JOB_FILTER }).session(session);
+
+  // Course fields follow the combined enrollments
+  const enrollments = await findCourseEnrollments([survivorObjectId as mongoose.Types.ObjectId], session);
+  if (enrollments.length > 0) {
+    applyCourseFields(survivor, enrollments);
+  }
+
+  // Free the unique phone/email before the survivor is saved
+  await Student.deleteOne({ _id: duplicateObjectId }).session(session);
+  await survivor.save({ session });
+
+  // The duplicate's own history stays under its old id for reference
+  await recordStudentChange(survivorObjectId as mongoose.Types.ObjectId, diffStudent(survivorBefore, survivor), {
+    action: 'merge',
+    actor,
+    session,
+    note: `Merged duplicate ${duplicate.gibyGubayeId} (${duplicateObjectId})`
+  });
+
+  return {
+    survivor,
+    removed: {
+      _id: duplicateObjectId,
+      gibyGubayeId: duplicate.gibyGubayeId
+    },
+    summary: {
+      jobsMoved,
+      jobsRemoved,
+      usersUpdated: usersResult.modifiedCount,
+      familySlotsUpdated,
+      agendasUpdated,
+      profileRequestsUpdated: profileRequestsResult.modifiedCount,
+      attendanceMoved: attendanceResult.modifiedCount,
+      attendanceRemoved: attendanceRemoved.deletedCount,
+      enrollmentsMoved: enrollmentsResult.modifiedCount,
+      enrollmentsRemoved: enrollmentsRemoved.deletedCount,
+      applicationsMoved: applicationsResult.modifiedCount,
+      teamLeadsUpdated: teamsResult.modifiedCount,
+      numberOfJob: survivor.numberOfJob
+    },
+    warnings,
+    photo
+  };
+};
@@ -0,0 +1,138 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { IUser } from '../models/User';
+import Job, { ACTIVE_JOB_FILTER, OPEN_JOB_FILTER } from '../models/Job';
+import Team, { ITeam } from '../models/Team';
+import { canApproveJobs } from './jobPolicy';
+
+const NAME_COLLATION = { locale: 'en', strength: 2 };
+
+// Department whose teams the caller works with. Leadership may name any
+// department; everyone else works in their own.
+export const teamDepartment = (user: IUser | undefined, requested?: string) =>
+  canApproveJobs(user) && requested ? requested : user?.role;
+
+export const canManageTeam = (user: IUser | undefined, team: Pick<ITeam, 'class'>) =>
+  !!user && (user.role === team.class || canApproveJobs(user));
+
+// Find a department's active team by id or name. Names without a team
+// create one, so clients still sending free-text sub-classes keep working.
+export const resolveTeam = async (
+  className: string,
+  ref: string,
+  options: { create?: boolean; actor?: IUser; session?: ClientSession } = {}
+) => {
+  const { session } = options;
+  if (mongoose.Types.ObjectId.isValid(ref)) {
+    const team = await Team.findOne({ _id: ref, class: className, isActive: true }).session(session || null);
+    if (team) return team;
+    if (/^[0-9a-f]{24}$/i.test(ref)) return null;
+  }
+
+  const name = ref.trim();
+  const existing = await Team.findOne({ class: className, name, isActive: true })
+    .collation(NAME_COLLATION)
+    .session(session || null);
+  if (existing || !options.create || !name) return existing;
+
+  const team = new Team({ class: className, name, createdBy: options.actor?._id });
+  await team.save({ session });
+  return team;
+};
+
+// Active members per team
+export const teamMemberCounts = async (teamIds: mongoose.Types.ObjectId[]) => {
+  const counts = await Job.aggregate([
+    { $match: { team: { $in: teamIds }, ...ACTIVE_JOB_FILTER } },
+    { $group: { _id: '$team', count: { $sum: 1 } } }
+  ]);
+  return new Map<string, number>(counts.map(item => [item._id.toString(), item.count]));
+};
+
+export interface TeamMoveItem {
+  job: string;
+  student?: mongoose.Types.ObjectId;
+  outcome: 'moved' | 'unchanged' | 'failed';
+  error?: string;
+}
+
+// Move jobs of one department into a team, or out of any team when team is
+// null. Jobs that cannot move are reported instead of failing the batch;
+// members past the team's capacity are refused.
+export const moveJobsToTeam = async (
+  className: string,
+  jobIds: string[],
+  team: ITeam | null,
+  session?: ClientSession
+) => {
+  const items: TeamMoveItem[] = [];
+  const jobs = await Job.find({
+    _id: { $in: jobIds.filter(id => mongoose.Types.ObjectId.isValid(id)) }
+  }).session(session || null);
+  const byId = new Map(jobs.map(job => [job._id.toString(), job]));
+
+  let members = team
+    ? await Job.countDocuments({ team: team._id, ...ACTIVE_JOB_FILTER }).session(session || null)
+    : 0;
+
+  for (const id of jobIds) {
+    const job = byId.get(id);
+    if (!job) {
+      items.push({ job: id, outcome: 'failed', error: 'Job assignment not found' });
+      continue;
+    }
+    if (job.class !== className) {
+      items.push({ job: id, student: job.studentId, outcome: 'failed', error: `Job belongs to ${job.class}` });
+      continue;
+    }
+    if (['ended', 'rejected'].includes(job.status)) {
+      items.push({ job: id, student: job.studentId, outcome: 'failed', error: `${job.status === 'ended' ? 'Ended' : 'Rejected'} job assignments cannot be moved` });
+      continue;
+    }
+    if (String(job.team || '') === String(team?._id || '')) {
+      items.push({ job: id, student: job.studentId, outcome: 'unchanged' });
+      continue;
+    }
+    if (team?.capacity !== undefined && team.capacity !== null && members >= team.capacity) {
+      items.push({ job: id, student: job.studentId, outcome: 'failed', error: `${team.name} is full (${team.capacity} members)` });
+      continue;
+    }
+
+    job.set({ team: team?._id, sub_class: team?.name ?? null });
+    await job.save({ session });
+    if (team && job.status !== 'pending') members++;
+    items.push({ job: id, student: job.studentId, outcome: 'moved' });
+  }
+
+  return {
+    moved: items.filter(item => item.outcome === 'moved').length,
+    failed: items.filter(item => item.outcome === 'failed').length,
+    items
+  };
+};
+
+// Create teams for the free-text sub-classes jobs already carry and link
+// those jobs to them. Safe to run again.
+export const syncTeamsFromSubClasses = async (className: string, actor?: IUser) => {
+  const names: string[] = await Job.distinct('sub_class', {
+    class: className,
+    team: { $exists: false },
+    sub_class: { $nin: [null, ''] },
+    ...OPEN_JOB_FILTER
+  });
+
+  let teamsCreated = 0;
+  let jobsLinked = 0;
+  for (const name of names) {
+    const existing = await resolveTeam(className, name);
+    const team = existing || await resolveTeam(className, name, { create: true, actor });
+    if (!existing) teamsCreated++;
+
+    const result = await Job.updateMany(
+      { class: className, sub_class: name, team: { $exists: false }, ...OPEN_JOB_FILTER },
+      { $set: { team: team!._id, sub_class: team!.name } }
+    );
+    jobsLinked += result.modifiedCount;
+  }
+
+  return { subClasses: names.length, teamsCreated, jobsLinked };
+};